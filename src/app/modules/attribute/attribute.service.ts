@@ -695,35 +695,21 @@ class AttributeService {
     multi = false
   ): Promise<void> {
     try {
-      // const products = await Product.find({ 'variants.1': { $exists: true } });
-      const products = await Product.find({ isCombination: true });
-
-      // console.log('products', products);
-
-      if (multi) {
-        for (const p of products) {
-          await Product.updateOne(
-            { _id: p._id },
-            {
-              $pull: {
-                variants: { [key]: { $in: value } },
-              },
-            }
-          );
-        }
-      } else {
-        for (const p of products) {
-          // console.log('p', p._id);
-          await Product.updateOne(
-            { _id: p._id },
-            {
-              $pull: {
-                variants: { [key]: value },
+      await Product.updateMany(
+        { "variants.attributes.attribute": key },
+        {
+          $pull: {
+            variants: {
+              attributes: {
+                $elemMatch: {
+                  attribute: key,
+                  value: { $in: multi ? value : [value] },
+                },
               },
-            }
-          );
+            },
+          },
         }
-      }
+      );
     } catch (err: any) {
       console.log("err, when delete product variants", err.message);
     }
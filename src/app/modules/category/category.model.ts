@@ -4,6 +4,8 @@ const categoryShema = new mongoose.Schema(
   {
     name: { type: Object, required: true },
     slug: { type: String, required: false },
+    // Former slugs, redirected to the current one
+    previous_slugs: { type: [String], default: undefined },
     description: { type: Object, required: false },
     parent_id: { type: String, required: false },
     parent_name: { type: Object, required: false },
@@ -15,6 +17,8 @@ const categoryShema = new mongoose.Schema(
     status: { type: String, lowercase: true, enum: ['show', 'hide'], default: 'show' },
     products: [{ type: mongoose.Schema.Types.ObjectId, ref: "product" }],
     position: { type: Number, default: 0 },
+    // Default low stock threshold of the products of the category
+    low_stock_threshold: { type: Number, required: false, min: 0 },
   },
   {
     timestamps: {
@@ -25,6 +29,10 @@ const categoryShema = new mongoose.Schema(
 );
 
 categoryShema.index({ slug: 1 }, { unique: true, sparse: true });
+categoryShema.index(
+  { previous_slugs: 1 },
+  { unique: true, partialFilterExpression: { "previous_slugs.0": { $exists: true } } }
+);
 categoryShema.index({ status: 1 });
 categoryShema.index({ is_top_category: 1 });
 
@@ -1027,6 +1027,8 @@ class CategoryRoutes {
              *     operationId: bySlug
              *     summary: Get category by slug.
              *     description: Get a category from the system by name (slug).
+             *       A former slug of a category returns a redirect hint to
+             *       its current slug instead.
              *     parameters:
              *      - in: path
              *        name: lang
@@ -1055,7 +1057,9 @@ class CategoryRoutes {
              *                    type: string
              *                    example: Ok
              *                  data:
-             *                    $ref: '#/components/schemas/Category'
+             *                    oneOf:
+             *                      - $ref: '#/components/schemas/Category'
+             *                      - $ref: '#/components/schemas/SlugRedirect'
              *
              *       '400':
              *         description: Bad Request.
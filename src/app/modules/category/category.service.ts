@@ -3,7 +3,13 @@ import Product from "../product/product.model";
 import Category from "./category.model";
 import CategoryType from "./category.type";
 import * as jsonpatch from "fast-json-patch";
-import { removeDuplicates } from "../../utils/helpers.util";
+import {
+  publishedFilter,
+  removeDuplicates,
+  uniqueSlug,
+  getPreviousSlugs,
+} from "../../utils/helpers.util";
+import productSearchService from "../product/product-search.service";
 
 /**
  * @author Valentin Magde <valentinmagde@gmail.com>
@@ -64,7 +70,8 @@ class CategoryService {
   }
 
   /**
-   * Get category by slug
+   * Get category by slug. A former slug of a category gives a redirect
+   * hint ({ redirect: { status: 301, slug } }) to its current slug.
    *
    * @author Valentin Magde <valentinmagde@gmail.com>
    * @since 2025-05-07
@@ -78,6 +85,18 @@ class CategoryService {
         try {
           const category = await Category.findOne({ slug: categorySlug });
 
+          // An empty slug would match every category without previous slugs
+          if (!category && categorySlug) {
+            const renamed = await Category.findOne(
+              { previous_slugs: categorySlug },
+              { slug: 1 }
+            ).lean();
+
+            if (renamed) {
+              return resolve({ redirect: { status: 301, slug: renamed.slug } });
+            }
+          }
+
           resolve(category);
         } catch (error) {
           reject(error);
@@ -87,7 +106,8 @@ class CategoryService {
   }
 
   /**
-   * Create a category
+   * Create a category. The slug is derived from the name when not given
+   * and made unique.
    *
    * @author Valentin Magde <valentinmagde@gmail.com>
    * @since 2023-07-31
@@ -100,7 +120,13 @@ class CategoryService {
     return new Promise((resolve, reject) => {
       (async () => {
         try {
-          const category: any = new Category(data);
+          const name: any = data.name || {};
+          const category: any = new Category({
+            ...data,
+            slug: await uniqueSlug(Category, data.slug || name.en || name.fr, {
+              fallback: "category",
+            }),
+          });
           const createdCategory = await category.save();
 
           resolve(createdCategory);
@@ -214,7 +240,8 @@ class CategoryService {
                   {
                     $match: {
                       $expr: { $in: ["$$categoryId", "$categories"] },
-                      status: "show",
+                      ...publishedFilter(),
+                      deleted_at: null,
                     },
                   },
                 ],
@@ -281,9 +308,10 @@ class CategoryService {
         try {
           const baseCategories = await Product.aggregate([
             {
-              // Filtrer uniquement les produits avec status = "show"
+              // Filtrer uniquement les produits publiés
               $match: {
-                status: "show",
+                ...publishedFilter(),
+                deleted_at: null,
               },
             },
             {
@@ -379,7 +407,20 @@ class CategoryService {
               ...category.description,
               ...data.description,
             };
-            category.slug = data.slug || category.slug;
+            // A new slug is made unique, the category may take back a previous one
+            const slug =
+              data.slug && data.slug !== category.slug
+                ? await uniqueSlug(Category, data.slug, {
+                    excludeId: category._id,
+                    fallback: "category",
+                  })
+                : category.slug;
+            category.previous_slugs = (await getPreviousSlugs(
+              Category,
+              category,
+              slug
+            )) as any;
+            category.slug = slug;
             category.icon = data.icon || category.icon;
             category.image = data.image || category.image;
             category.status = data.status || category.status;
@@ -387,9 +428,17 @@ class CategoryService {
             category.parent_name = data.parent_name;
             category.is_top_category = data.is_top_category;
             category.show_products_on_homepage = data.show_products_on_homepage;
+            if (data.low_stock_threshold !== undefined) {
+              category.low_stock_threshold = data.low_stock_threshold;
+            }
 
             const updatedCategory = await category.save();
 
+            // The category names are part of the products search fields
+            await productSearchService
+              .refresh({ categories: updatedCategory._id })
+              .catch((err) => console.error("[ProductSearch] category:", err));
+
             resolve(updatedCategory);
           } else {
             resolve(category);
@@ -424,12 +473,28 @@ class CategoryService {
               false,
               true
             ).newDocument;
+            updateObject.slug =
+              updateObject.slug && updateObject.slug !== category.slug
+                ? await uniqueSlug(Category, updateObject.slug, {
+                    excludeId: category._id,
+                    fallback: "category",
+                  })
+                : category.slug;
+            updateObject.previous_slugs = (await getPreviousSlugs(
+              Category,
+              category,
+              updateObject.slug
+            )) as any;
 
             await Category.updateOne(
               { _id: categoryId },
               { $set: updateObject }
             );
 
+            await productSearchService
+              .refresh({ categories: category._id })
+              .catch((err) => console.error("[ProductSearch] category:", err));
+
             resolve(updateObject);
           } else {
             resolve(category);
@@ -709,6 +774,7 @@ class CategoryService {
       {
         $match: {
           categories: parentId,
+          deleted_at: null,
         },
       },
       {
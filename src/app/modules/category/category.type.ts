@@ -4,6 +4,7 @@ export default interface CategoryType {
     _id: string;
     name: object;
     slug: string;
+    previous_slugs?: Array<string>;
     description: object;
     parent_id: string;
     parent_name: object;
@@ -15,6 +16,7 @@ export default interface CategoryType {
     status: 'show'|'hide';
     products: Array<ProductType>;
     position: number;
+    low_stock_threshold?: number;
     children?: Array<CategoryType>;
     product_count: number;
     created_at?: Date;
@@ -4,9 +4,21 @@ const dynamicCronSchema = new mongoose.Schema(
   {
     name: { type: String, required: true },
     cron_expression: { type: String, required: true },
-    action: { type: String, enum: ["ld-sync", "webhook"], required: true },
+    action: {
+      type: String,
+      enum: [
+        "ld-sync",
+        "webhook",
+        "product-trash-purge",
+        "product-publish-schedule",
+        "product-promotions",
+        "product-related-refresh",
+      ],
+      required: true,
+    },
     webhook_url: { type: String },
     webhook_method: { type: String, enum: ["GET", "POST"], default: "POST" },
+    purge_after_days: { type: Number, default: 30, min: 1 },
     enabled: { type: Boolean, default: true },
     status: { type: String, enum: ["idle", "running"], default: "idle" },
     last_run_at: { type: Date, default: null },
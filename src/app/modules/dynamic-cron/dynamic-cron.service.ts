@@ -2,9 +2,31 @@ import cron, { ScheduledTask } from "node-cron";
 import { CronExpressionParser } from "cron-parser";
 import DynamicCron from "./dynamic-cron.model";
 import { runSyncNow } from "../luxury-distribution/ld-sync.cron";
+import productService from "../product/product.service";
+import promotionService from "../product/promotion.service";
+import productSimilarityService from "../product/product-similarity.service";
 
 const tasks = new Map<string, ScheduledTask>();
 
+// Crons created at startup when no cron runs their action
+const DEFAULT_CRONS = [
+  {
+    name: "Product publication schedule",
+    cron_expression: "*/5 * * * *",
+    action: "product-publish-schedule",
+  },
+  {
+    name: "Product promotions",
+    cron_expression: "*/15 * * * *",
+    action: "product-promotions",
+  },
+  {
+    name: "Related products refresh",
+    cron_expression: "0 3 * * *",
+    action: "product-related-refresh",
+  },
+];
+
 function computeNextRunAt(expression: string): Date | null {
   try {
     return CronExpressionParser.parse(expression).next().toDate();
@@ -18,6 +40,22 @@ async function runAction(cronDoc: any): Promise<Record<string, any>> {
     await runSyncNow();
     return { done: true };
   }
+  if (cronDoc.action === "product-trash-purge") {
+    const days = cronDoc.purge_after_days ?? 30;
+    if (!isValidPurgeDays(days)) throw new Error("Invalid purge_after_days");
+
+    const result: any = await productService.purgeTrash(days);
+    return { deleted: result?.deletedCount || 0 };
+  }
+  if (cronDoc.action === "product-publish-schedule") {
+    return (await productService.applyPublishSchedule()) as Record<string, any>;
+  }
+  if (cronDoc.action === "product-promotions") {
+    return (await promotionService.apply()) as Record<string, any>;
+  }
+  if (cronDoc.action === "product-related-refresh") {
+    return (await productSimilarityService.refresh()) as Record<string, any>;
+  }
   if (cronDoc.action === "webhook") {
     const method = (cronDoc.webhook_method || "POST").toUpperCase();
     const res = await fetch(cronDoc.webhook_url, { method });
@@ -50,6 +88,17 @@ async function executeCron(cronId: string): Promise<void> {
   });
 }
 
+/**
+ * Check a trash retention is a positive number of days: 0 or less would
+ * purge the whole trash
+ *
+ * @param {any} days the retention in days
+ * @returns {boolean} true when the retention is valid
+ */
+function isValidPurgeDays(days: any): boolean {
+  return Number.isInteger(days) && days > 0;
+}
+
 function clearCronTask(cronId: string): void {
   const task = tasks.get(cronId);
   if (task) {
@@ -68,8 +117,25 @@ function startCronTask(cronId: string, expression: string): void {
   tasks.set(cronId, task);
 }
 
+/**
+ * Create the default crons whose action has no cron yet. A default cron
+ * an admin disabled or changed is left as it is.
+ *
+ * @returns {Promise<void>} the eventual completion or failure
+ */
+async function seedDefaultCrons(): Promise<void> {
+  for (const defaultCron of DEFAULT_CRONS) {
+    await DynamicCron.updateOne(
+      { action: defaultCron.action },
+      { $setOnInsert: defaultCron },
+      { upsert: true }
+    );
+  }
+}
+
 export async function startDynamicCrons(): Promise<void> {
   try {
+    await seedDefaultCrons();
     const cronDocs = await DynamicCron.find({ enabled: true });
     let started = 0;
     for (const cronDoc of cronDocs) {
@@ -101,14 +167,24 @@ export const dynamicCronService = {
   async create(data: {
     name: string;
     cron_expression: string;
-    action: "ld-sync" | "webhook";
+    action:
+      | "ld-sync"
+      | "webhook"
+      | "product-trash-purge"
+      | "product-publish-schedule"
+      | "product-promotions"
+      | "product-related-refresh";
     webhook_url?: string;
     webhook_method?: "GET" | "POST";
+    purge_after_days?: number;
     enabled?: boolean;
   }) {
     if (!cron.validate(data.cron_expression)) {
       throw new Error("Invalid cron expression");
     }
+    if (data.purge_after_days !== undefined && !isValidPurgeDays(data.purge_after_days)) {
+      throw new Error("Invalid purge_after_days");
+    }
     const enabled = data.enabled !== false;
     const nextRunAt = enabled ? computeNextRunAt(data.cron_expression) : null;
     const cronDoc = new DynamicCron({ ...data, enabled, next_run_at: nextRunAt });
@@ -122,15 +198,25 @@ export const dynamicCronService = {
     data: {
       name?: string;
       cron_expression?: string;
-      action?: "ld-sync" | "webhook";
+      action?:
+        | "ld-sync"
+        | "webhook"
+        | "product-trash-purge"
+        | "product-publish-schedule"
+        | "product-promotions"
+        | "product-related-refresh";
       webhook_url?: string;
       webhook_method?: "GET" | "POST";
+      purge_after_days?: number;
       enabled?: boolean;
     }
   ) {
     if (data.cron_expression && !cron.validate(data.cron_expression)) {
       throw new Error("Invalid cron expression");
     }
+    if (data.purge_after_days !== undefined && !isValidPurgeDays(data.purge_after_days)) {
+      throw new Error("Invalid purge_after_days");
+    }
     clearCronTask(id);
     const updated = await DynamicCron.findByIdAndUpdate(id, data, { new: true });
     if (!updated) throw new Error("Cron not found");
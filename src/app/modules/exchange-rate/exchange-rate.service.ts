@@ -79,7 +79,8 @@ class ExchangeRateService {
   }
 
   /**
-   * Convert amount between currencies
+   * Convert amount between currencies. The fee percentage of the rate is
+   * added to the converted amount when asked.
    *
    * @author Valentin Magde <valentinmagde@gmail.com>
    * @since 2025-07-05
@@ -87,12 +88,14 @@ class ExchangeRateService {
    * @param {number} amount the amount
    * @param {string} from the from currency
    * @param {string} to the to currency
+   * @param {boolean} withFee whether the fee is added
    * @return {Promise<unknown>} the eventual completion or failure
    */
   public async convert(
     amount: number,
     from: string,
-    to: string
+    to: string,
+    withFee = false
   ): Promise<unknown> {
     return new Promise((resolve, reject) => {
       (async () => {
@@ -102,7 +105,18 @@ class ExchangeRateService {
             to_currency: to,
           });
 
-          if (rate) {
+          if (rate && withFee) {
+            const feePercentage = rate.fee_percentage || 0;
+
+            resolve({
+              amount: amount,
+              from: from,
+              to: to,
+              rate: rate.rate,
+              fee_percentage: feePercentage,
+              converted_amount: amount * rate.rate * (1 + feePercentage / 100),
+            });
+          } else if (rate) {
             resolve({
               amount: amount,
               from: from,
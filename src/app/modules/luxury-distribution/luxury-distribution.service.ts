@@ -5,6 +5,11 @@ import LdTagMapping from "./ld-tag-mapping.model";
 import LdScanCache from "./ld-scan-cache.model";
 import Category from "../category/category.model";
 import facebookCatalog from "./facebook-catalog.service";
+import productSearchService from "../product/product-search.service";
+import inventoryMovementService from "../product/inventory-movement.service";
+import promotionService from "../product/promotion.service";
+import priceHistoryService from "../product/price-history.service";
+import { uniqueSlug } from "../../utils/helpers.util";
 
 const LD_API_URL =
   process.env.LD_API_URL || "https://api.luxury-distribution.com/api";
@@ -203,6 +208,10 @@ class LuxuryDistributionService {
 
     const mapped = await this.mapProduct(ld, categoryId);
     const product = await Product.create(mapped);
+    await productSearchService.refresh({ _id: product._id });
+    await inventoryMovementService
+      .recordChanges(null, product, "ld_sync", { reference: stockId })
+      .catch((err) => console.error("[InventoryMovement] importProduct:", err));
 
     facebookCatalog.upsert({
       retailer_id: facebookCatalog.buildRetailerId(stockId),
@@ -261,13 +270,22 @@ class LuxuryDistributionService {
     const retailPrice = this.getRetailPrice(ld);
     const existing = await Product.findOne(
       { source: "luxury_distribution", external_id: stockId },
-      { "prices.discount": 1, variants: 1 }
+      {
+        prices: 1,
+        promotional: 1,
+        date_from_promo: 1,
+        date_to_promo: 1,
+        current_stock: 1,
+        variants: 1,
+      }
     ).lean() as any;
 
-    const existingDiscount = Number(existing?.prices?.discount || 0);
-    const newPrice = existingDiscount > 0
-      ? retailPrice * (1 - existingDiscount / 100)
-      : retailPrice;
+    // A promotional discount only applies while its promotion is running
+    const newPrice = promotionService.priceOf(
+      retailPrice,
+      existing?.prices?.discount,
+      existing
+    );
 
     const [variants, tags] = await Promise.all([
       this.buildVariants(ld, existing?.variants || []),
@@ -297,6 +315,13 @@ class LuxuryDistributionService {
         status: 404,
       });
     }
+    await productSearchService.refresh({ _id: updated._id });
+    await inventoryMovementService
+      .recordChanges(existing, updated, "ld_sync", { reference: stockId })
+      .catch((err) => console.error("[InventoryMovement] syncProduct:", err));
+    await priceHistoryService
+      .recordChanges(existing, updated, "ld_sync", { reference: stockId })
+      .catch((err) => console.error("[PriceHistory] syncProduct:", err));
 
     facebookCatalog.upsert({
       retailer_id: facebookCatalog.buildRetailerId(stockId),
@@ -459,8 +484,6 @@ class LuxuryDistributionService {
 
     return sizeEntries.map(({ size, quantity }, i) => {
       const sizeMapping = mappingByLdValue.get(size);
-      const attrPart: Record<string, string> = {};
-      if (sizeMapping) attrPart[sizeMapping.attrId] = sizeMapping.variantId;
 
       // Human-readable LD values keyed by e-luxe attribute ID, for front-end fallback display
       const ldAttributeValues: Record<string, string> = {};
@@ -470,17 +493,22 @@ class LuxuryDistributionService {
         (v: any) => v.ld_size === size || v.sku === `LD-${ld.sku}-${size}`
       );
       const existingDiscount = Number(existingVariant?.discount || 0);
-      const variantPrice = existingDiscount > 0
-        ? retailPrice * (1 - existingDiscount / 100)
-        : retailPrice;
+      const variantPrice = promotionService.priceOf(
+        retailPrice,
+        existingDiscount,
+        existingVariant
+      );
 
       return {
-        ...attrPart,
+        attributes: sizeMapping
+          ? [{ attribute: sizeMapping.attrId, value: sizeMapping.variantId }]
+          : [],
         ld_size: size,
         ...(ld.color_detail && { ld_color: ld.color_detail }),
         ld_attribute_values: ldAttributeValues,
         ...(!sizeMapping && { size }),
         quantity,
+        reserved: existingVariant?.reserved || 0,
         original_price: retailPrice,
         price: variantPrice,
         discount: existingDiscount,
@@ -525,7 +553,7 @@ class LuxuryDistributionService {
 
     const existing = await Product.findOne(
       { source: "luxury_distribution", external_id: stockId },
-      { variants: 1 }
+      { prices: 1, current_stock: 1, variants: 1 }
     ).lean() as any;
 
     const variants = await this.buildVariants(ld, existing?.variants || []);
@@ -536,6 +564,13 @@ class LuxuryDistributionService {
       { new: true }
     );
     if (!updated) throw Object.assign(new Error("Product not imported"), { status: 404 });
+    await productSearchService.refresh({ _id: updated._id });
+    await inventoryMovementService
+      .recordChanges(existing, updated, "ld_sync", { reference: stockId })
+      .catch((err) => console.error("[InventoryMovement] remapProduct:", err));
+    await priceHistoryService
+      .recordChanges(existing, updated, "ld_sync", { reference: stockId })
+      .catch((err) => console.error("[PriceHistory] remapProduct:", err));
     return updated;
   }
 
@@ -793,10 +828,9 @@ class LuxuryDistributionService {
   }
 
   private async mapProduct(ld: any, categoryId: string) {
-    const slug = `${ld.name || "product"}-${ld.id}`
-      .toLowerCase()
-      .replace(/[^a-z0-9]+/g, "-")
-      .replace(/^-|-$/g, "");
+    const slug = await uniqueSlug(Product, `${ld.name || "product"}-${ld.id}`, {
+      fallback: "product",
+    });
 
     const [variants, tags] = await Promise.all([
       this.buildVariants(ld),
@@ -0,0 +1,79 @@
+import Product from "./product.model";
+import inventoryMovementService from "./inventory-movement.service";
+import priceHistoryService from "./price-history.service";
+import bundleService from "./bundle.service";
+
+jest.mock("./product.model", () => ({
+  __esModule: true,
+  default: { find: jest.fn(), updateOne: jest.fn() },
+}));
+jest.mock("./inventory-movement.service", () => ({
+  __esModule: true,
+  default: { recordChanges: jest.fn().mockResolvedValue([]) },
+}));
+jest.mock("./price-history.service", () => ({
+  __esModule: true,
+  default: { recordChanges: jest.fn().mockResolvedValue([]) },
+}));
+
+/**
+ * Mock a mongoose query resolving to a value
+ *
+ * @param {any} value the query result
+ * @returns {any} the query
+ */
+function query(value: any): any {
+  return { lean: () => Promise.resolve(value) };
+}
+
+const componentId = "64b7f0c2a1e4d2f3a8b9c0d2";
+const bundle = {
+  _id: "64b7f0c2a1e4d2f3a8b9c0d1",
+  bundle_components: [{ product: componentId, quantity: 2 }],
+  bundle_pricing: { mode: "percentage", value: 10 },
+  current_stock: 3,
+  prices: { price: 180, original_price: 200, discount: 10 },
+};
+
+describe("BundleService.refresh", () => {
+  const find = Product.find as jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("records the stock change of a bundle as a movement", async () => {
+    find
+      .mockReturnValueOnce(query([bundle]))
+      .mockReturnValueOnce(
+        query([
+          { _id: componentId, current_stock: 2, prices: { price: 100, original_price: 100 } },
+        ])
+      );
+
+    await expect(bundleService.refresh([componentId])).resolves.toBe(1);
+
+    expect(inventoryMovementService.recordChanges).toHaveBeenCalledWith(
+      bundle,
+      { ...bundle, current_stock: 1 },
+      "bundle"
+    );
+    expect(priceHistoryService.recordChanges).not.toHaveBeenCalled();
+  });
+
+  it("puts a bundle whose component is gone out of stock", async () => {
+    find.mockReturnValueOnce(query([bundle])).mockReturnValueOnce(query([]));
+
+    await bundleService.refresh([componentId]);
+
+    expect(Product.updateOne).toHaveBeenCalledWith(
+      { _id: bundle._id },
+      { $set: expect.objectContaining({ current_stock: 0, "prices.price": 180 }) }
+    );
+    expect(inventoryMovementService.recordChanges).toHaveBeenCalledWith(
+      bundle,
+      { ...bundle, current_stock: 0 },
+      "bundle"
+    );
+  });
+});
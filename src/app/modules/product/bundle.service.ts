@@ -0,0 +1,267 @@
+import Product from "./product.model";
+import priceHistoryService from "./price-history.service";
+import inventoryMovementService from "./inventory-movement.service";
+
+/**
+ * @author Valentin Magde <valentinmagde@gmail.com>
+ * @since 2026-10-19
+ *
+ * Class BundleService
+ */
+class BundleService {
+  /**
+   * Derive the stock and the prices of a bundle from its components. The
+   * stock is the number of complete bundles the available quantities
+   * (stock minus the active holds) of the components can make. The
+   * original price is the original price total of the components, the
+   * price is the fixed price of the bundle or the component total minus
+   * its percentage.
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {any} bundle the bundle ({ _id, bundle_components, bundle_pricing })
+   * @return {Promise<unknown>} the derived fields ({ current_stock, prices }),
+   *                            "INVALID_BUNDLE" when the bundle has no
+   *                            components, or when a component does not
+   *                            exist, is a bundle or has not the variant
+   */
+  public derive(bundle: any): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          const components: any[] = bundle?.bundle_components || [];
+          if (!components.length) return resolve("INVALID_BUNDLE");
+
+          const products: any[] = await Product.find(
+            {
+              _id: { $in: components.map((component) => component.product) },
+              deleted_at: null,
+            },
+            {
+              type: 1,
+              prices: 1,
+              current_stock: 1,
+              reserved_stock: 1,
+              variants: 1,
+            }
+          ).lean();
+
+          const byId = new Map(products.map((product) => [String(product._id), product]));
+
+          let stock = Infinity;
+          let price = 0;
+          let originalPrice = 0;
+
+          for (const component of components) {
+            const product = byId.get(String(component.product));
+
+            if (
+              !product ||
+              product.type === "bundle" ||
+              String(product._id) === String(bundle._id)
+            ) {
+              return resolve("INVALID_BUNDLE");
+            }
+
+            const variant = component.variant_sku
+              ? (product.variants || []).find(
+                  (item: any) => item.sku === component.variant_sku
+                )
+              : null;
+
+            if (component.variant_sku && !variant) return resolve("INVALID_BUNDLE");
+
+            const quantity = Number(component.quantity) || 1;
+            const available = variant
+              ? (Number(variant.quantity) || 0) - (Number(variant.reserved) || 0)
+              : (Number(product.current_stock) || 0) -
+                (Number(product.reserved_stock) || 0);
+
+            stock = Math.min(stock, Math.floor(Math.max(available, 0) / quantity));
+            price += (variant?.price ?? product.prices?.price ?? 0) * quantity;
+            originalPrice +=
+              (variant?.original_price ?? product.prices?.original_price ?? 0) * quantity;
+          }
+
+          const pricing = bundle.bundle_pricing || {};
+
+          resolve({
+            current_stock: stock,
+            prices: {
+              original_price: this.round(originalPrice),
+              price: this.priceOf(price, pricing),
+              discount: pricing.mode === "percentage" ? Number(pricing.value) || 0 : 0,
+            },
+          });
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /**
+   * Derive again the stock and the prices of the bundles containing some
+   * products, after a change of their stock or of their prices. The stock
+   * changes of the bundles are recorded as movements, with their stock
+   * alerts and back in stock notifications, and their price changes in
+   * their price history. A bundle whose component is gone is out of stock.
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {Array<any>} productIds the changed product ids
+   * @return {Promise<unknown>} the number of updated bundles
+   */
+  public refresh(productIds: Array<any>): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          const bundles: any[] = await Product.find(
+            {
+              type: "bundle",
+              "bundle_components.product": { $in: productIds },
+              deleted_at: null,
+            },
+            { bundle_components: 1, bundle_pricing: 1, current_stock: 1, prices: 1 }
+          ).lean();
+
+          let updated = 0;
+
+          for (const bundle of bundles) {
+            const result: any = await this.derive(bundle);
+
+            // A bundle whose component is gone keeps its prices, unsellable
+            const derived: any =
+              typeof result === "string"
+                ? { current_stock: 0, prices: { ...bundle.prices } }
+                : result;
+
+            const stockChanged = derived.current_stock !== bundle.current_stock;
+            const priceChanged =
+              derived.prices.price !== bundle.prices?.price ||
+              derived.prices.original_price !== bundle.prices?.original_price;
+
+            if (stockChanged || priceChanged) {
+              await Product.updateOne(
+                { _id: bundle._id },
+                {
+                  $set: {
+                    current_stock: derived.current_stock,
+                    "prices.price": derived.prices.price,
+                    "prices.original_price": derived.prices.original_price,
+                    "prices.discount": derived.prices.discount,
+                  },
+                }
+              );
+
+              updated += 1;
+            }
+
+            if (stockChanged) {
+              await inventoryMovementService
+                .recordChanges(
+                  bundle,
+                  { ...bundle, current_stock: derived.current_stock },
+                  "bundle"
+                )
+                .catch((err) => console.error("[InventoryMovement] bundle:", err));
+            }
+
+            if (priceChanged) {
+              await priceHistoryService
+                .recordChanges(
+                  bundle,
+                  { ...bundle, prices: { ...bundle.prices, ...derived.prices } },
+                  "bundle"
+                )
+                .catch((err) => console.error("[PriceHistory] bundle:", err));
+            }
+          }
+
+          resolve(updated);
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /**
+   * Replace the bundles of a list of items by their components, with the
+   * quantities of one bundle multiplied by the quantity of the item
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {Array<any>} items the items ({ product, variant_sku, quantity })
+   * @return {Promise<unknown>} the expanded items
+   */
+  public expandItems(items: Array<any>): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          const bundles: any[] = await Product.find(
+            {
+              _id: { $in: items.map((item) => item.product) },
+              type: "bundle",
+            },
+            { bundle_components: 1 }
+          ).lean();
+
+          const byId = new Map(bundles.map((bundle) => [String(bundle._id), bundle]));
+
+          resolve(
+            items.flatMap((item) => {
+              const bundle = byId.get(String(item.product));
+              if (!bundle) return [item];
+
+              return (bundle.bundle_components || []).map((component: any) => ({
+                product: component.product,
+                variant_sku: component.variant_sku,
+                quantity: (Number(item.quantity) || 0) * (Number(component.quantity) || 1),
+              }));
+            })
+          );
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /*-----------------------------------------------------------------------------------------------
+  //  PRIVATE METHODS
+  -----------------------------------------------------------------------------------------------*/
+  /**
+   * Get the price of a bundle from the price total of its components
+   *
+   * @param {number} total the price total of the components
+   * @param {any} pricing the pricing of the bundle ({ mode, value })
+   * @returns {number} the bundle price
+   */
+  private priceOf(total: number, pricing: any): number {
+    const value = Number(pricing.value) || 0;
+
+    if (pricing.mode === "fixed") return this.round(value);
+    if (pricing.mode === "percentage") {
+      return this.round(total * (1 - Math.min(value, 100) / 100));
+    }
+
+    return this.round(total);
+  }
+
+  /**
+   * Round an amount to 2 decimals
+   *
+   * @param {number} amount the amount
+   * @returns {number} the rounded amount
+   */
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
+
+const bundleService = new BundleService();
+export default bundleService;
@@ -0,0 +1,31 @@
+import mongoose from "mongoose";
+
+// Order whose co-purchases have been counted, used to count every order
+// only once when the message is redelivered
+const coPurchaseOrderSchema = new mongoose.Schema(
+  {
+    order_id: { type: String, required: true },
+    status: {
+      type: String,
+      enum: ["processing", "done"],
+      default: "processing",
+    },
+    // Date the order was claimed for counting, an order is claimed once
+    claimed_at: { type: Date, default: null },
+  },
+  {
+    timestamps: {
+      createdAt: "created_at",
+      updatedAt: "updated_at",
+    },
+  }
+);
+
+coPurchaseOrderSchema.index({ order_id: 1 }, { unique: true });
+
+const CoPurchaseOrder = mongoose.model(
+  "co_purchase_order",
+  coPurchaseOrderSchema
+);
+
+export default CoPurchaseOrder;
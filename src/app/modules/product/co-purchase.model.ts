@@ -0,0 +1,34 @@
+import mongoose from "mongoose";
+
+// Number of orders in which two products have been bought together, kept
+// in both directions so the pairs of a product are read with one index
+const coPurchaseSchema = new mongoose.Schema(
+  {
+    product: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "product",
+      required: true,
+    },
+    related: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "product",
+      required: true,
+    },
+    count: { type: Number, default: 0 },
+    last_purchased_at: { type: Date, required: false },
+  },
+  {
+    timestamps: {
+      createdAt: "created_at",
+      updatedAt: "updated_at",
+    },
+  }
+);
+
+coPurchaseSchema.index({ product: 1, related: 1 }, { unique: true });
+coPurchaseSchema.index({ product: 1, count: -1 });
+coPurchaseSchema.index({ related: 1 });
+
+const CoPurchase = mongoose.model("co_purchase", coPurchaseSchema);
+
+export default CoPurchase;
@@ -0,0 +1,279 @@
+import CoPurchase from "./co-purchase.model";
+import CoPurchaseOrder from "./co-purchase-order.model";
+import Product from "./product.model";
+import productCurrencyService from "./product-currency.service";
+import { checkObjectId, publishedFilter } from "../../utils/helpers.util";
+
+// Distinct products of an order counted at most, the pairs grow with its square
+const MAX_ORDER_PRODUCTS = 50;
+
+// Pairs of a product read before the hidden and out of stock products are removed
+const MAX_CANDIDATES = 100;
+
+// Time after which the claim of an order never counted is taken as lost
+const CLAIM_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * @author Valentin Magde <valentinmagde@gmail.com>
+ * @since 2026-10-19
+ *
+ * Class CoPurchaseService
+ */
+class CoPurchaseService {
+  /**
+   * Count the products of an order as bought together, every pair of
+   * distinct products once per order. The order is claimed atomically
+   * before it is counted, so a redelivered message delivered while the
+   * order is being counted, or once it is counted, is skipped. The claim
+   * is released when the counting fails, and a claim left by a crash can
+   * be taken again once it has timed out.
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {any} message the order message ({ orderId, productItems })
+   * @return {Promise<unknown>} "INVALID_MESSAGE" without order id or items,
+   *                            "DUPLICATE" when the order has already been
+   *                            counted, the number of counted pairs otherwise
+   */
+  public recordOrder(message: any): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          const orderId = message?.orderId ?? message?._id;
+          const items: any[] = message?.productItems;
+
+          if (!orderId || !Array.isArray(items)) return resolve("INVALID_MESSAGE");
+
+          const order: any = await this.claim(String(orderId));
+          if (!order) return resolve("DUPLICATE");
+
+          const productIds = [
+            ...new Set(
+              items
+                .map((item) => String(item?._id ?? item?.product ?? ""))
+                .filter((id) => !!checkObjectId(id))
+            ),
+          ].slice(0, MAX_ORDER_PRODUCTS);
+
+          const now = new Date();
+          const operations: any[] = productIds.flatMap((productId) =>
+            productIds
+              .filter((relatedId) => relatedId !== productId)
+              .map((relatedId) => ({
+                updateOne: {
+                  filter: { product: productId, related: relatedId },
+                  update: {
+                    $inc: { count: 1 },
+                    $set: { last_purchased_at: now },
+                  },
+                  upsert: true,
+                },
+              }))
+          );
+
+          try {
+            if (operations.length) await CoPurchase.bulkWrite(operations);
+          } catch (error) {
+            // The redelivered message counts the order again
+            await CoPurchaseOrder.updateOne(
+              { _id: order._id },
+              { $set: { claimed_at: null } }
+            );
+
+            throw error;
+          }
+
+          await CoPurchaseOrder.updateOne(
+            { _id: order._id },
+            { $set: { status: "done" } }
+          );
+
+          resolve(operations.length);
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /**
+   * Get the products most often bought with a product, most bought first.
+   * Only the visible products with available stock are returned. When
+   * there are not enough of them, the curated cross sells of the product
+   * complete the list.
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {string} productId the product id
+   * @param {number} limit the maximum number of products
+   * @param {boolean} withCrossSells complete the list with the cross sells
+   * @param {string} currency the currency of the prices
+   * @return {Promise<unknown>} the products, "INVALID_CURRENCY" when there
+   *                            is no exchange rate for the currency, null
+   *                            when the product is not found
+   */
+  public getFrequentlyBoughtTogether(
+    productId: string,
+    limit: number,
+    withCrossSells: boolean,
+    currency?: string
+  ): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          const rate: any = await productCurrencyService.getRate(currency);
+          if (rate === null) return resolve("INVALID_CURRENCY");
+
+          const product: any = await Product.findOne(
+            { _id: productId, deleted_at: null },
+            { cross_sells: 1 }
+          ).lean();
+
+          if (!product) return resolve(null);
+
+          const pairs: any[] = await CoPurchase.find({ product: productId })
+            .sort({ count: -1, last_purchased_at: -1 })
+            .limit(MAX_CANDIDATES)
+            .lean();
+
+          const counts = new Map<string, number>(
+            pairs.map((pair) => [String(pair.related), pair.count])
+          );
+
+          const bought = (await this.findAvailable([...counts.keys()]))
+            .map((item) => ({
+              ...item,
+              co_purchase_count: counts.get(String(item._id)),
+              source: "co_purchase",
+            }))
+            .sort((a, b) => (b.co_purchase_count || 0) - (a.co_purchase_count || 0))
+            .slice(0, limit);
+
+          let crossSells: any[] = [];
+
+          if (withCrossSells && bought.length < limit) {
+            const excluded = new Set(bought.map((item) => String(item._id)));
+            const ids = (product.cross_sells || [])
+              .map((id: any) => String(id))
+              .filter((id: string) => !excluded.has(id) && id !== String(productId));
+
+            // Keep the curated order
+            const found = new Map(
+              (await this.findAvailable(ids)).map((item) => [String(item._id), item])
+            );
+
+            crossSells = ids
+              .filter((id: string) => found.has(id))
+              .map((id: string) => ({ ...found.get(id), source: "cross_sell" }))
+              .slice(0, limit - bought.length);
+          }
+
+          resolve({
+            products: productCurrencyService.convertProducts(
+              [...bought, ...crossSells],
+              rate,
+              currency
+            ),
+          });
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /**
+   * Remove the co-purchase counts of the given products
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {Array<any>} productIds the product ids
+   * @return {Promise<unknown>} the eventual completion or failure
+   */
+  public removeForProducts(productIds: Array<any>): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          const result = await CoPurchase.deleteMany({
+            $or: [{ product: { $in: productIds } }, { related: { $in: productIds } }],
+          });
+
+          resolve(result);
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /*-----------------------------------------------------------------------------------------------
+  //  PRIVATE METHODS
+  -----------------------------------------------------------------------------------------------*/
+  /**
+   * Claim an order for counting. The order is claimed only when it has
+   * not been counted and is not claimed, or its claim has timed out.
+   *
+   * @param {string} orderId the order id
+   * @returns {Promise<any>} the claimed order, null when it is already claimed
+   */
+  private async claim(orderId: string): Promise<any> {
+    try {
+      return await CoPurchaseOrder.findOneAndUpdate(
+        {
+          order_id: orderId,
+          status: { $ne: "done" },
+          $or: [
+            { claimed_at: null },
+            { claimed_at: { $lt: new Date(Date.now() - CLAIM_TIMEOUT_MS) } },
+          ],
+        },
+        { $set: { claimed_at: new Date() }, $setOnInsert: { status: "processing" } },
+        { upsert: true, new: true }
+      ).lean();
+    } catch (error: any) {
+      // The order exists and is claimed, the upsert hit its unique order_id
+      if (error?.code !== 11000) throw error;
+
+      return null;
+    }
+  }
+
+  /**
+   * Find the visible products with available stock (stock minus the
+   * active holds) among the given ids
+   *
+   * @param {Array<string>} productIds the product ids
+   * @returns {Promise<Array<any>>} the products
+   */
+  private async findAvailable(productIds: Array<string>): Promise<Array<any>> {
+    if (!productIds.length) return [];
+
+    return Product.find(
+      {
+        _id: { $in: productIds },
+        ...publishedFilter(),
+        deleted_at: null,
+        $expr: {
+          $gt: [
+            {
+              $subtract: [
+                { $ifNull: ["$current_stock", 0] },
+                { $ifNull: ["$reserved_stock", 0] },
+              ],
+            },
+            0,
+          ],
+        },
+      },
+      { reviews: 0 }
+    )
+      .populate({ path: "category", select: "name _id" })
+      .lean();
+  }
+}
+
+const coPurchaseService = new CoPurchaseService();
+export default coPurchaseService;
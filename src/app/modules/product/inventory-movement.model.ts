@@ -0,0 +1,52 @@
+import mongoose from "mongoose";
+
+const inventoryMovementSchema = new mongoose.Schema(
+  {
+    product: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "product",
+      required: true,
+    },
+    // Sku of the moved variant, empty for a product level movement
+    variant_sku: { type: String, required: false },
+    // Change of current_stock; a variant movement changes the quantity of
+    // the variant by the same amount
+    delta: { type: Number, default: 0 },
+    // Change of the quantity held by the stock reservations
+    reserved_delta: { type: Number, default: 0 },
+    // current_stock after the movement
+    stock_after: { type: Number, required: false },
+    source: {
+      type: String,
+      enum: ["order", "manual", "ld_sync", "return", "reservation", "import", "bundle"],
+      required: true,
+    },
+    // Order, reservation or LD stock id which caused the movement
+    reference: { type: String, required: false },
+    // Unique key of a movement which must be applied only once (e.g. an
+    // order item), a second movement with the same key is skipped
+    key: { type: String, required: false },
+    reason: { type: String, required: false },
+    user: { type: mongoose.Schema.Types.ObjectId, required: false },
+    user_email: { type: String, required: false },
+  },
+  {
+    timestamps: {
+      createdAt: "created_at",
+      updatedAt: false,
+    },
+  }
+);
+
+inventoryMovementSchema.index({ product: 1, created_at: -1 });
+inventoryMovementSchema.index(
+  { key: 1 },
+  { unique: true, partialFilterExpression: { key: { $type: "string" } } }
+);
+
+const InventoryMovement = mongoose.model(
+  "inventory_movement",
+  inventoryMovementSchema
+);
+
+export default InventoryMovement;
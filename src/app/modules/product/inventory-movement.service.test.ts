@@ -0,0 +1,74 @@
+import Product from "./product.model";
+import InventoryMovement from "./inventory-movement.model";
+import inventoryMovementService from "./inventory-movement.service";
+
+jest.mock("./product.model", () => ({
+  __esModule: true,
+  default: { findOneAndUpdate: jest.fn() },
+}));
+jest.mock("./inventory-movement.model", () => ({
+  __esModule: true,
+  default: { updateOne: jest.fn(), deleteOne: jest.fn(), create: jest.fn() },
+}));
+jest.mock("./stock-alert.service", () => ({ __esModule: true, default: {} }));
+jest.mock("./stock-subscription.service", () => ({ __esModule: true, default: {} }));
+jest.mock("./bundle.service", () => ({
+  __esModule: true,
+  default: { refresh: jest.fn().mockResolvedValue(0) },
+}));
+
+/**
+ * Mock a mongoose query resolving, or rejecting, to a value
+ *
+ * @param {any} value the query result
+ * @param {boolean} fails whether the query fails
+ * @returns {any} the query
+ */
+function query(value: any, fails = false): any {
+  return { lean: () => (fails ? Promise.reject(value) : Promise.resolve(value)) };
+}
+
+const movement = {
+  product: "64b7f0c2a1e4d2f3a8b9c0d1",
+  sales_delta: 1,
+  source: "order",
+  reference: "order-1",
+  key: "order:order-1:0",
+};
+
+describe("InventoryMovementService.adjust", () => {
+  const findOneAndUpdate = Product.findOneAndUpdate as jest.Mock;
+  const updateOne = InventoryMovement.updateOne as jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("skips a movement whose key has been applied", async () => {
+    updateOne.mockResolvedValue({ upsertedCount: 0 });
+
+    await expect(inventoryMovementService.adjust(movement)).resolves.toBe("DUPLICATE");
+    expect(findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it("frees the key when the stock update fails", async () => {
+    updateOne.mockResolvedValue({ upsertedCount: 1 });
+    findOneAndUpdate.mockReturnValue(query(new Error("write conflict"), true));
+
+    await expect(inventoryMovementService.adjust(movement)).rejects.toThrow("write conflict");
+    expect(InventoryMovement.deleteOne).toHaveBeenCalledWith({ key: movement.key });
+  });
+
+  it("keeps the key once the stock has moved", async () => {
+    updateOne.mockResolvedValue({ upsertedCount: 1 });
+    findOneAndUpdate.mockReturnValue(query({ _id: movement.product, current_stock: 4 }));
+
+    await inventoryMovementService.adjust(movement);
+
+    expect(InventoryMovement.deleteOne).not.toHaveBeenCalled();
+    expect(updateOne).toHaveBeenLastCalledWith(
+      { key: movement.key },
+      { $set: { stock_after: 4 } }
+    );
+  });
+});
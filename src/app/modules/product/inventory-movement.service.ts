@@ -0,0 +1,336 @@
+import Product from "./product.model";
+import InventoryMovement from "./inventory-movement.model";
+import stockAlertService from "./stock-alert.service";
+import stockSubscriptionService from "./stock-subscription.service";
+import bundleService from "./bundle.service";
+
+/**
+ * @author Valentin Magde <valentinmagde@gmail.com>
+ * @since 2026-10-19
+ *
+ * Class InventoryMovementService
+ */
+class InventoryMovementService {
+  /**
+   * Move the stock of a product, and of a variant when a sku is given,
+   * with a single atomic update and record the movement. The condition
+   * is added to the update filter, e.g. to only move available stock.
+   * The stock of the bundles containing the product is derived again.
+   * A movement with a key is claimed before the stock moves, so it is
+   * applied only once even when the caller retries after a failure; the
+   * claim is freed when the stock could not be moved.
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {any} movement the movement ({ product, variant_sku, delta,
+   *                       reserved_delta, sales_delta, source, reference,
+   *                       key, reason, user })
+   * @param {any} condition the extra filter of the update
+   * @return {Promise<unknown>} the updated product, null when the product
+   *                            does not match, "DUPLICATE" when the key has
+   *                            already been applied
+   */
+  public adjust(movement: any, condition: any = {}): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          const inc: any = {};
+
+          if (movement.delta) inc.current_stock = movement.delta;
+          if (movement.reserved_delta) inc.reserved_stock = movement.reserved_delta;
+          if (movement.sales_delta) inc.sales_count = movement.sales_delta;
+
+          if (movement.variant_sku) {
+            if (movement.delta) {
+              inc["variants.$[variant].quantity"] = movement.delta;
+            }
+            if (movement.reserved_delta) {
+              inc["variants.$[variant].reserved"] = movement.reserved_delta;
+            }
+          }
+
+          if (movement.key) {
+            const claim = await InventoryMovement.updateOne(
+              { key: movement.key },
+              { $setOnInsert: { ...this.toMovement(movement), key: movement.key } },
+              { upsert: true }
+            );
+
+            if (!claim.upsertedCount) return resolve("DUPLICATE");
+          }
+
+          let product: any;
+
+          try {
+            product = await Product.findOneAndUpdate(
+              { _id: movement.product, ...condition },
+              { $inc: inc },
+              {
+                new: true,
+                projection: { current_stock: 1, variants: 1 },
+                ...(movement.variant_sku && {
+                  arrayFilters: [{ "variant.sku": movement.variant_sku }],
+                }),
+              }
+            ).lean();
+          } catch (error) {
+            // The stock did not move, the movement can be applied again
+            if (movement.key) await InventoryMovement.deleteOne({ key: movement.key });
+
+            throw error;
+          }
+
+          if (!product) {
+            // Free the key so the movement can be applied once it matches
+            if (movement.key) await InventoryMovement.deleteOne({ key: movement.key });
+
+            return resolve(null);
+          }
+
+          if (movement.key) {
+            await InventoryMovement.updateOne(
+              { key: movement.key },
+              { $set: { stock_after: product.current_stock } }
+            );
+          } else {
+            await InventoryMovement.create({
+              ...this.toMovement(movement),
+              stock_after: product.current_stock,
+            });
+          }
+
+          if (movement.delta) {
+            const variant = movement.variant_sku
+              ? (product.variants || []).find(
+                  (item: any) => item.sku === movement.variant_sku
+                )
+              : null;
+
+            await this.stockChanged(
+              product._id,
+              product.current_stock - movement.delta,
+              product.current_stock,
+              variant && variant.quantity > 0 && variant.quantity - movement.delta <= 0
+                ? [variant.sku]
+                : []
+            );
+          }
+
+          if (movement.delta || movement.reserved_delta) {
+            await bundleService
+              .refresh([product._id])
+              .catch((err) => console.error("[Bundle] stock refresh:", err));
+          }
+
+          resolve(product);
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /**
+   * Record the stock changes between two states of a product, for the
+   * write paths which set the stock instead of moving it (manual edits,
+   * imports, LD sync). Every variant whose quantity changed gets its own
+   * movement; the rest of the current_stock change is recorded at product
+   * level. Stock level events are published when the stock crosses the
+   * low stock threshold of the product, and the subscribers are notified
+   * when the product or a variant is back in stock, and the stock of the
+   * bundles containing the product is derived again.
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {any} before the product before the change, null for a new product
+   * @param {any} after the product after the change
+   * @param {string} source the source of the change
+   * @param {any} options the movement details ({ reference, reason, user })
+   * @return {Promise<unknown>} the eventual completion or failure
+   */
+  public recordChanges(
+    before: any,
+    after: any,
+    source: string,
+    options: any = {}
+  ): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          if (!after) return resolve([]);
+
+          const quantities = new Map<string, number>(
+            (before?.variants || [])
+              .filter((variant: any) => variant.sku)
+              .map((variant: any) => [variant.sku, Number(variant.quantity) || 0])
+          );
+
+          const movements: any[] = [];
+          const restocked: string[] = [];
+          let variantsDelta = 0;
+
+          (after.variants || [])
+            .filter((variant: any) => variant.sku)
+            .forEach((variant: any) => {
+              const delta =
+                (Number(variant.quantity) || 0) - (quantities.get(variant.sku) || 0);
+
+              if (delta !== 0) {
+                movements.push({ variant_sku: variant.sku, delta });
+                variantsDelta += delta;
+              }
+              if (variant.quantity > 0 && (quantities.get(variant.sku) || 0) <= 0) {
+                restocked.push(variant.sku);
+              }
+            });
+
+          const productDelta =
+            (Number(after.current_stock) || 0) -
+            (Number(before?.current_stock) || 0) -
+            variantsDelta;
+
+          if (productDelta !== 0) movements.push({ delta: productDelta });
+
+          const created = movements.length
+            ? await InventoryMovement.insertMany(
+                movements.map((movement) => ({
+                  ...this.toMovement({
+                    ...options,
+                    ...movement,
+                    product: after._id,
+                    source,
+                  }),
+                  stock_after: Number(after.current_stock) || 0,
+                }))
+              )
+            : [];
+
+          if (before) {
+            await this.stockChanged(
+              after._id,
+              Number(before.current_stock) || 0,
+              Number(after.current_stock) || 0,
+              restocked
+            );
+          }
+
+          if (movements.length) {
+            await bundleService
+              .refresh([after._id])
+              .catch((err) => console.error("[Bundle] stock refresh:", err));
+          }
+
+          resolve(created);
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /**
+   * Get the stock movements of a product, most recent first
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {string} productId the product id
+   * @param {number} page the page number
+   * @param {number} pageSize the number of items per page
+   * @param {string} source the source to filter on, if any
+   * @return {Promise<unknown>} the eventual completion or failure
+   */
+  public getMovements(
+    productId: string,
+    page: number,
+    pageSize: number,
+    source?: string
+  ): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          const filter: any = { product: productId };
+          if (source) filter.source = source;
+
+          const [movements, count] = await Promise.all([
+            InventoryMovement.find(filter)
+              .sort({ created_at: -1, _id: -1 })
+              .skip(pageSize * (page - 1))
+              .limit(pageSize)
+              .lean(),
+            InventoryMovement.countDocuments(filter),
+          ]);
+
+          resolve({
+            movements,
+            previousPage: page > 1 ? page - 1 : null,
+            perPage: pageSize,
+            allMovements: count,
+            currentPage: page,
+            pages: Math.ceil(count / pageSize),
+            nextPage: page < Math.ceil(count / pageSize) ? page + 1 : null,
+          });
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /*-----------------------------------------------------------------------------------------------
+  //  PRIVATE METHODS
+  -----------------------------------------------------------------------------------------------*/
+  /**
+   * Publish the stock level event and notify the back in stock subscribers
+   * after a stock change. Failures are logged, the change is already saved.
+   *
+   * @param {any} productId the product id
+   * @param {number} previousStock the product stock before the change
+   * @param {number} currentStock the product stock after the change
+   * @param {Array<string>} restockedSkus the skus of the variants back in stock
+   * @returns {Promise<void>} the eventual completion
+   */
+  private async stockChanged(
+    productId: any,
+    previousStock: number,
+    currentStock: number,
+    restockedSkus: Array<string>
+  ): Promise<void> {
+    await stockAlertService
+      .check(productId, previousStock, currentStock)
+      .catch((err) => console.error("[StockAlert] check:", err));
+
+    await stockSubscriptionService
+      .notifyBackInStock(
+        productId,
+        previousStock <= 0 && currentStock > 0,
+        restockedSkus
+      )
+      .catch((err) => console.error("[StockSubscription] notify:", err));
+  }
+
+  /**
+   * Build the stored fields of a movement
+   *
+   * @param {any} movement the movement
+   * @returns {any} the stored fields
+   */
+  private toMovement(movement: any): any {
+    return {
+      product: movement.product,
+      variant_sku: movement.variant_sku,
+      delta: movement.delta || 0,
+      reserved_delta: movement.reserved_delta || 0,
+      source: movement.source,
+      reference: movement.reference ? String(movement.reference) : undefined,
+      reason: movement.reason,
+      user: movement.user?._id,
+      user_email: movement.user?.email,
+    };
+  }
+}
+
+const inventoryMovementService = new InventoryMovementService();
+export default inventoryMovementService;
@@ -0,0 +1,31 @@
+import mongoose from "mongoose";
+
+// Stock update of an order received from the order service, used to apply
+// every order only once when the message is redelivered
+const orderStockUpdateSchema = new mongoose.Schema(
+  {
+    order_id: { type: String, required: true },
+    status: {
+      type: String,
+      enum: ["processing", "done"],
+      default: "processing",
+    },
+    // Keys of the order items whose stock has already been decremented
+    applied: { type: [String], default: [] },
+  },
+  {
+    timestamps: {
+      createdAt: "created_at",
+      updatedAt: "updated_at",
+    },
+  }
+);
+
+orderStockUpdateSchema.index({ order_id: 1 }, { unique: true });
+
+const OrderStockUpdate = mongoose.model(
+  "order_stock_update",
+  orderStockUpdateSchema
+);
+
+export default OrderStockUpdate;
@@ -0,0 +1,194 @@
+import inventoryMovementService from "./inventory-movement.service";
+import stockReservationService from "./stock-reservation.service";
+import Product from "./product.model";
+import OrderStockUpdate from "./order-stock-update.model";
+import StockReservation from "./stock-reservation.model";
+import orderStockService from "./order-stock.service";
+
+jest.mock("../../../core/rabbitmq", () => ({ __esModule: true, default: {} }));
+jest.mock("./inventory-movement.service", () => ({
+  __esModule: true,
+  default: { adjust: jest.fn() },
+}));
+jest.mock("./stock-reservation.service", () => ({
+  __esModule: true,
+  default: { commit: jest.fn() },
+}));
+jest.mock("./product.model", () => ({
+  __esModule: true,
+  default: { findOne: jest.fn(), updateOne: jest.fn() },
+}));
+jest.mock("./order-stock-update.model", () => ({
+  __esModule: true,
+  default: {
+    findOneAndUpdate: jest.fn(),
+    findByIdAndUpdate: jest.fn(),
+    updateOne: jest.fn(),
+  },
+}));
+jest.mock("./stock-reservation.model", () => ({
+  __esModule: true,
+  default: { findOne: jest.fn() },
+}));
+jest.mock("./stock-dead-letter.model", () => ({ __esModule: true, default: {} }));
+
+/**
+ * Mock a mongoose query resolving to a value
+ *
+ * @param {any} value the query result
+ * @returns {any} the query
+ */
+function query(value: any): any {
+  const chain: any = {
+    sort: () => chain,
+    lean: () => Promise.resolve(value),
+  };
+
+  return chain;
+}
+
+const productId = "64b7f0c2a1e4d2f3a8b9c0d1";
+const order = {
+  orderId: "order-1",
+  productItems: [{ _id: productId, variant_sku: "BAG-BLK", qty: 3 }],
+};
+
+describe("OrderStockService.applyOrder", () => {
+  const adjust = inventoryMovementService.adjust as jest.Mock;
+  const commit = stockReservationService.commit as jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    (OrderStockUpdate.findOneAndUpdate as jest.Mock).mockReturnValue(
+      query({ _id: "update-1", status: "processing", applied: [] })
+    );
+    (OrderStockUpdate.findByIdAndUpdate as jest.Mock).mockReturnValue(
+      query({ _id: "update-1", status: "done" })
+    );
+    (Product.findOne as jest.Mock).mockReturnValue(query(null));
+    adjust.mockResolvedValue({ _id: productId });
+  });
+
+  it("decrements every item with a movement key of its own", async () => {
+    (StockReservation.findOne as jest.Mock).mockReturnValue(query(null));
+
+    await orderStockService.applyOrder(order);
+
+    expect(adjust).toHaveBeenCalledTimes(1);
+    expect(adjust.mock.calls[0][0]).toMatchObject({
+      product: productId,
+      variant_sku: "BAG-BLK",
+      delta: -3,
+      sales_delta: 3,
+      source: "order",
+      key: "order:order-1:0",
+    });
+  });
+
+  it("does not decrement the quantities of a committed reservation", async () => {
+    (StockReservation.findOne as jest.Mock).mockReturnValue(
+      query({
+        _id: "reservation-1",
+        status: "committed",
+        items: [{ product: productId, variant_sku: "BAG-BLK", quantity: 3 }],
+      })
+    );
+
+    await orderStockService.applyOrder(order);
+
+    expect(commit).not.toHaveBeenCalled();
+    expect(adjust).not.toHaveBeenCalled();
+  });
+
+  it("commits an active reservation and decrements the rest", async () => {
+    (StockReservation.findOne as jest.Mock).mockReturnValue(
+      query({
+        _id: "reservation-1",
+        status: "active",
+        items: [{ product: productId, variant_sku: "BAG-BLK", quantity: 2 }],
+      })
+    );
+    commit.mockResolvedValue({ _id: "reservation-1", status: "committed" });
+
+    await orderStockService.applyOrder(order);
+
+    expect(commit).toHaveBeenCalledWith("reservation-1");
+    expect(adjust).toHaveBeenCalledTimes(1);
+    expect(adjust.mock.calls[0][0]).toMatchObject({ delta: -1, sales_delta: 1 });
+  });
+
+  it("decrements everything when the reservation has expired", async () => {
+    (StockReservation.findOne as jest.Mock).mockReturnValue(
+      query({
+        _id: "reservation-1",
+        status: "active",
+        items: [{ product: productId, variant_sku: "BAG-BLK", quantity: 3 }],
+      })
+    );
+    commit.mockResolvedValue("RESERVATION_NOT_ACTIVE");
+
+    await orderStockService.applyOrder(order);
+
+    expect(adjust.mock.calls[0][0]).toMatchObject({ delta: -3 });
+  });
+
+  it("keys the sales of an ordered bundle", async () => {
+    (StockReservation.findOne as jest.Mock).mockReturnValue(query(null));
+    (Product.findOne as jest.Mock).mockReturnValue(
+      query({
+        _id: productId,
+        bundle_components: [{ product: "64b7f0c2a1e4d2f3a8b9c0d2", quantity: 2 }],
+      })
+    );
+
+    await orderStockService.applyOrder(order);
+
+    expect(adjust).toHaveBeenCalledTimes(2);
+    expect(adjust.mock.calls[0][0]).toMatchObject({ delta: -6, key: "order:order-1:0.0" });
+    expect(adjust.mock.calls[1][0]).toEqual({
+      product: productId,
+      sales_delta: 3,
+      source: "order",
+      reference: "order-1",
+      key: "order:order-1:0:bundle",
+    });
+    expect(Product.updateOne).not.toHaveBeenCalled();
+  });
+
+  it("skips an order already applied", async () => {
+    (OrderStockUpdate.findOneAndUpdate as jest.Mock).mockReturnValue(
+      query({ _id: "update-1", status: "done", applied: ["0"] })
+    );
+
+    await expect(orderStockService.applyOrder(order)).resolves.toBe("DUPLICATE");
+    expect(adjust).not.toHaveBeenCalled();
+  });
+
+  it("rejects an order with an invalid quantity", async () => {
+    const invalid = { orderId: "order-1", productItems: [{ _id: productId, qty: "abc" }] };
+
+    await expect(orderStockService.applyOrder(invalid)).resolves.toBe("INVALID_MESSAGE");
+    expect(OrderStockUpdate.findOneAndUpdate).not.toHaveBeenCalled();
+    expect(adjust).not.toHaveBeenCalled();
+  });
+
+  it("marks an item applied when its movement key has been applied", async () => {
+    (StockReservation.findOne as jest.Mock).mockReturnValue(query(null));
+    adjust.mockResolvedValue("DUPLICATE");
+
+    await orderStockService.applyOrder(order);
+
+    expect(OrderStockUpdate.updateOne).toHaveBeenCalledWith(
+      { _id: "update-1" },
+      { $addToSet: { applied: "0" } }
+    );
+  });
+
+  it("fails when the product does not match", async () => {
+    (StockReservation.findOne as jest.Mock).mockReturnValue(query(null));
+    adjust.mockResolvedValue(null);
+
+    await expect(orderStockService.applyOrder(order)).rejects.toThrow("not found");
+  });
+});
@@ -0,0 +1,392 @@
+import rabbitmqManager from "../../../core/rabbitmq";
+import inventoryMovementService from "./inventory-movement.service";
+import stockReservationService from "./stock-reservation.service";
+import Product from "./product.model";
+import OrderStockUpdate from "./order-stock-update.model";
+import StockDeadLetter from "./stock-dead-letter.model";
+import StockReservation from "./stock-reservation.model";
+
+/**
+ * @author Valentin Magde <valentinmagde@gmail.com>
+ * @since 2026-10-19
+ *
+ * Class OrderStockService
+ */
+class OrderStockService {
+  /**
+   * Decrement the stock of the items of an order. Each item decrements
+   * the quantity of its variant and the product stock in one atomic
+   * update. A bundle decrements the stock of each of its components,
+   * the quantity of the component times the ordered quantity. The
+   * quantities held by the stock reservation of the order are committed
+   * with it and not decremented again. The order id is recorded so a
+   * redelivered message is applied only once, and every item movement
+   * has its own key so it is applied only once when a failed message is
+   * retried. A message with an item quantity which is not a positive
+   * integer is rejected before anything is applied.
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {any} message the order message ({ orderId, productItems })
+   * @return {Promise<unknown>} "INVALID_MESSAGE" without order id or items,
+   *                            "DUPLICATE" when the order has already been
+   *                            applied, the order stock update otherwise
+   */
+  public applyOrder(message: any): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          const orderId = message?.orderId ?? message?._id;
+          const items: any[] = message?.productItems;
+
+          if (!orderId || !Array.isArray(items)) return resolve("INVALID_MESSAGE");
+          if (!items.every((item) => this.isQuantity(item?.qty))) {
+            return resolve("INVALID_MESSAGE");
+          }
+
+          const update: any = await OrderStockUpdate.findOneAndUpdate(
+            { order_id: String(orderId) },
+            { $setOnInsert: { status: "processing" } },
+            { upsert: true, new: true }
+          ).lean();
+
+          if (update.status === "done") return resolve("DUPLICATE");
+
+          const reserved = await this.getReservedQuantities(String(orderId));
+
+          for (const [index, item] of items.entries()) {
+            const key = String(index);
+            if (update.applied.includes(key)) continue;
+
+            const bundle: any = await Product.findOne(
+              { _id: item._id, type: "bundle" },
+              { bundle_components: 1 }
+            ).lean();
+
+            if (bundle) {
+              for (const [position, component] of bundle.bundle_components.entries()) {
+                const componentKey = `${key}.${position}`;
+                if (update.applied.includes(componentKey)) continue;
+
+                await this.decrement(
+                  component.product,
+                  component.variant_sku,
+                  this.unreserved(
+                    reserved,
+                    component.product,
+                    component.variant_sku,
+                    item.qty * (Number(component.quantity) || 1)
+                  ),
+                  orderId,
+                  componentKey
+                );
+                await OrderStockUpdate.updateOne(
+                  { _id: update._id },
+                  { $addToSet: { applied: componentKey } }
+                );
+              }
+
+              // The sales of the bundle have a key of their own too
+              await inventoryMovementService.adjust({
+                product: bundle._id,
+                sales_delta: item.qty,
+                source: "order",
+                reference: orderId,
+                key: `order:${orderId}:${key}:bundle`,
+              });
+            } else {
+              const variantSku = item.variant?.sku ?? item.variant_sku;
+
+              await this.decrement(
+                item._id,
+                variantSku,
+                this.unreserved(reserved, item._id, variantSku, item.qty),
+                orderId,
+                key
+              );
+            }
+
+            await OrderStockUpdate.updateOne(
+              { _id: update._id },
+              { $addToSet: { applied: key } }
+            );
+          }
+
+          const done = await OrderStockUpdate.findByIdAndUpdate(
+            update._id,
+            { $set: { status: "done" } },
+            { new: true }
+          ).lean();
+
+          resolve(done);
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /**
+   * Park a message which could not be processed
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {string} exchange the exchange of the message
+   * @param {string} routingKey the routing key of the message
+   * @param {string} content the raw content of the message
+   * @param {any} error the last error
+   * @param {number} attempts the number of attempts
+   * @return {Promise<unknown>} the eventual completion or failure
+   */
+  public park(
+    exchange: string,
+    routingKey: string,
+    content: string,
+    error: any,
+    attempts: number
+  ): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          const deadLetter = await StockDeadLetter.create({
+            exchange,
+            routing_key: routingKey,
+            content,
+            error: error?.message || String(error),
+            attempts,
+          });
+
+          resolve(deadLetter);
+        } catch (err) {
+          reject(err);
+        }
+      })();
+    });
+  }
+
+  /**
+   * Get the parked messages, most recent first
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {number} page the page number
+   * @param {number} pageSize the number of items per page
+   * @param {string} status the status to filter on (parked or replayed)
+   * @return {Promise<unknown>} the eventual completion or failure
+   */
+  public getDeadLetters(
+    page: number,
+    pageSize: number,
+    status = "parked"
+  ): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          const [deadLetters, count] = await Promise.all([
+            StockDeadLetter.find({ status })
+              .sort({ created_at: -1 })
+              .skip(pageSize * (page - 1))
+              .limit(pageSize)
+              .lean(),
+            StockDeadLetter.countDocuments({ status }),
+          ]);
+
+          resolve({
+            deadLetters,
+            previousPage: page > 1 ? page - 1 : null,
+            perPage: pageSize,
+            allDeadLetters: count,
+            currentPage: page,
+            pages: Math.ceil(count / pageSize),
+            nextPage: page < Math.ceil(count / pageSize) ? page + 1 : null,
+          });
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /**
+   * Publish the parked messages again on their exchange. Every parked
+   * message is replayed when no ids are given.
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {Array<string>} ids the dead letter ids
+   * @return {Promise<unknown>} the eventual completion or failure
+   */
+  public replay(ids?: Array<string>): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          const filter: any = { status: "parked" };
+          if (ids?.length) filter._id = { $in: ids };
+
+          const deadLetters: any[] = await StockDeadLetter.find(filter).lean();
+          const errors: any[] = [];
+          let replayed = 0;
+
+          for (const deadLetter of deadLetters) {
+            try {
+              const data = JSON.parse(deadLetter.content);
+
+              await rabbitmqManager.publishMessage(
+                deadLetter.exchange,
+                deadLetter.routing_key,
+                data.message
+              );
+              await StockDeadLetter.updateOne(
+                { _id: deadLetter._id },
+                { $set: { status: "replayed", replayed_at: new Date() } }
+              );
+
+              replayed += 1;
+            } catch (error: any) {
+              errors.push({ _id: deadLetter._id, error: error?.message || error });
+            }
+          }
+
+          resolve({ replayed, errors });
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /*-----------------------------------------------------------------------------------------------
+  //  PRIVATE METHODS
+  -----------------------------------------------------------------------------------------------*/
+  /**
+   * Get the quantities held for an order by its stock reservation, by
+   * product and variant. An active reservation, or one whose commit was
+   * interrupted, is committed first, its held quantities are then removed
+   * from the stock.
+   *
+   * @param {string} orderId the order id
+   * @returns {Promise<Map<string, number>>} the reserved quantities
+   */
+  private async getReservedQuantities(orderId: string): Promise<Map<string, number>> {
+    const reserved = new Map<string, number>();
+
+    const reservation: any = await StockReservation.findOne({
+      reference: orderId,
+      status: { $in: ["active", "committed"] },
+    })
+      .sort({ created_at: -1 })
+      .lean();
+
+    if (!reservation) return reserved;
+
+    if (reservation.status === "active" || reservation.consumed === false) {
+      const committed = await stockReservationService.commit(reservation._id);
+
+      // An expired reservation has not consumed anything
+      if (typeof committed === "string") return reserved;
+    }
+
+    (reservation.items || []).forEach((item: any) => {
+      const key = this.itemKey(item.product, item.variant_sku);
+      reserved.set(key, (reserved.get(key) || 0) + (Number(item.quantity) || 0));
+    });
+
+    return reserved;
+  }
+
+  /**
+   * Take an ordered quantity from the reserved quantities and get the
+   * part of it which was not reserved
+   *
+   * @param {Map<string, number>} reserved the reserved quantities, updated
+   * @param {any} productId the product id
+   * @param {string} variantSku the variant sku, if any
+   * @param {number} quantity the ordered quantity
+   * @returns {number} the quantity to decrement
+   */
+  private unreserved(
+    reserved: Map<string, number>,
+    productId: any,
+    variantSku: string | undefined,
+    quantity: number
+  ): number {
+    const key = this.itemKey(productId, variantSku);
+    const covered = Math.min(reserved.get(key) || 0, quantity);
+
+    reserved.set(key, (reserved.get(key) || 0) - covered);
+
+    return quantity - covered;
+  }
+
+  /**
+   * Check an ordered quantity is a positive integer
+   *
+   * @param {any} quantity the quantity
+   * @returns {boolean} true when the quantity is valid
+   */
+  private isQuantity(quantity: any): boolean {
+    return Number.isInteger(quantity) && quantity > 0;
+  }
+
+  /**
+   * Build the key of a product or variant
+   *
+   * @param {any} productId the product id
+   * @param {string} variantSku the variant sku, if any
+   * @returns {string} the key
+   */
+  private itemKey(productId: any, variantSku?: string): string {
+    return `${productId}:${variantSku || ""}`;
+  }
+
+  /**
+   * Decrement the stock of a product, and of its variant when a sku is
+   * given, for an order item. The movement key makes the decrement
+   * happen once per order item.
+   *
+   * @param {any} productId the product id
+   * @param {string} variantSku the variant sku, if any
+   * @param {number} quantity the quantity to decrement
+   * @param {any} orderId the order id
+   * @param {string} itemKey the key of the item in the order
+   * @returns {Promise<void>} the eventual completion or failure
+   */
+  private async decrement(
+    productId: any,
+    variantSku: string | undefined,
+    quantity: number,
+    orderId: any,
+    itemKey: string
+  ): Promise<void> {
+    if (!(quantity > 0)) return;
+
+    const product = await inventoryMovementService.adjust(
+      {
+        product: productId,
+        variant_sku: variantSku,
+        delta: -quantity,
+        sales_delta: quantity,
+        source: "order",
+        reference: orderId,
+        key: `order:${orderId}:${itemKey}`,
+      },
+      variantSku ? { "variants.sku": variantSku } : {}
+    );
+
+    // The key is only kept once the stock has moved: already applied
+    if (product === "DUPLICATE") return;
+
+    if (!product) {
+      throw new Error(
+        `Product ${productId}${variantSku ? ` (variant ${variantSku})` : ""} not found`
+      );
+    }
+  }
+}
+
+const orderStockService = new OrderStockService();
+export default orderStockService;
@@ -0,0 +1,39 @@
+import mongoose from "mongoose";
+
+const priceHistorySchema = new mongoose.Schema(
+  {
+    product: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "product",
+      required: true,
+    },
+    // Sku of the repriced variant, empty for the product prices
+    variant_sku: { type: String, required: false },
+    price: { type: Number, required: false },
+    original_price: { type: Number, required: false },
+    // Prices in effect until the change
+    previous_price: { type: Number, required: false },
+    previous_original_price: { type: Number, required: false },
+    source: {
+      type: String,
+      enum: ["manual", "ld_sync", "promotion", "import", "bundle"],
+      required: true,
+    },
+    // LD stock id which caused the change
+    reference: { type: String, required: false },
+    user: { type: mongoose.Schema.Types.ObjectId, required: false },
+    user_email: { type: String, required: false },
+  },
+  {
+    timestamps: {
+      createdAt: "created_at",
+      updatedAt: false,
+    },
+  }
+);
+
+priceHistorySchema.index({ product: 1, variant_sku: 1, created_at: -1 });
+
+const PriceHistory = mongoose.model("price_history", priceHistorySchema);
+
+export default PriceHistory;
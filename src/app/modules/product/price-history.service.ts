@@ -0,0 +1,216 @@
+import PriceHistory from "./price-history.model";
+import bundleService from "./bundle.service";
+
+// Period of the lowest price shown next to a discount
+const LOWEST_PRICE_DAYS = 30;
+
+// Price changes of a product read to find its lowest price
+const MAX_HISTORY = 500;
+
+/**
+ * @author Valentin Magde <valentinmagde@gmail.com>
+ * @since 2026-10-19
+ *
+ * Class PriceHistoryService
+ */
+class PriceHistoryService {
+  /**
+   * Record the price changes between two states of a product: one entry
+   * for the product prices when they changed and one for every variant
+   * whose prices changed. The prices of the bundles containing the
+   * product are derived again.
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {any} before the product before the change
+   * @param {any} after the product after the change
+   * @param {string} source the source of the change
+   * @param {any} options the change details ({ reference, user })
+   * @return {Promise<unknown>} the eventual completion or failure
+   */
+  public recordChanges(
+    before: any,
+    after: any,
+    source: string,
+    options: any = {}
+  ): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          if (!before || !after) return resolve([]);
+
+          const changes: any[] = [];
+
+          if (
+            this.changed(before.prices?.price, after.prices?.price) ||
+            this.changed(before.prices?.original_price, after.prices?.original_price)
+          ) {
+            changes.push({
+              price: after.prices?.price,
+              original_price: after.prices?.original_price,
+              previous_price: before.prices?.price,
+              previous_original_price: before.prices?.original_price,
+            });
+          }
+
+          const previous = new Map<string, any>(
+            (before.variants || [])
+              .filter((variant: any) => variant.sku)
+              .map((variant: any) => [variant.sku, variant])
+          );
+
+          (after.variants || [])
+            .filter((variant: any) => variant.sku && previous.has(variant.sku))
+            .forEach((variant: any) => {
+              const old = previous.get(variant.sku);
+
+              if (
+                this.changed(old.price, variant.price) ||
+                this.changed(old.original_price, variant.original_price)
+              ) {
+                changes.push({
+                  variant_sku: variant.sku,
+                  price: variant.price,
+                  original_price: variant.original_price,
+                  previous_price: old.price,
+                  previous_original_price: old.original_price,
+                });
+              }
+            });
+
+          const created = changes.length
+            ? await PriceHistory.insertMany(
+                changes.map((change) => ({
+                  ...change,
+                  product: after._id,
+                  source,
+                  reference: options.reference ? String(options.reference) : undefined,
+                  user: options.user?._id,
+                  user_email: options.user?.email,
+                }))
+              )
+            : [];
+
+          if (changes.length) {
+            await bundleService
+              .refresh([after._id])
+              .catch((err) => console.error("[Bundle] price refresh:", err));
+          }
+
+          resolve(created);
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /**
+   * Add the lowest price of the 30 days before the current price
+   * reduction (the Omnibus reference price) to a product and to its
+   * variants. The reduced price is not part of it, nor are the steps of
+   * a progressive reduction. Without a running reduction it is the
+   * lowest price of the last 30 days.
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {any} product the product, as a plain object
+   * @return {Promise<unknown>} the product with lowest_price_30d
+   */
+  public withLowestPrices(product: any): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          if (!product) return resolve(product);
+
+          const entries: any[] = await PriceHistory.find(
+            { product: product._id },
+            { variant_sku: 1, price: 1, previous_price: 1, created_at: 1 }
+          )
+            .sort({ created_at: -1 })
+            .limit(MAX_HISTORY)
+            .lean();
+
+          const bySku = new Map<string | null, any[]>();
+          entries.forEach((entry) => {
+            const sku = entry.variant_sku || null;
+            bySku.set(sku, [...(bySku.get(sku) || []), entry]);
+          });
+
+          product.lowest_price_30d = this.lowest(
+            product.prices?.price,
+            bySku.get(null) || []
+          );
+
+          (product.variants || []).forEach((variant: any) => {
+            variant.lowest_price_30d = this.lowest(
+              variant.price,
+              (variant.sku && bySku.get(variant.sku)) || []
+            );
+          });
+
+          resolve(product);
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /*-----------------------------------------------------------------------------------------------
+  //  PRIVATE METHODS
+  -----------------------------------------------------------------------------------------------*/
+  /**
+   * Check if a price changed
+   *
+   * @param {any} before the price before the change
+   * @param {any} after the price after the change
+   * @returns {boolean} true when the price changed
+   */
+  private changed(before: any, after: any): boolean {
+    return (before ?? null) !== (after ?? null) && Number(before) !== Number(after);
+  }
+
+  /**
+   * Get the lowest price in effect during the 30 days before the current
+   * reduction, i.e. before the latest run of price decreases. Without a
+   * running reduction the current price and the prices of the last 30
+   * days are used.
+   *
+   * @param {number} current the current price
+   * @param {Array<any>} entries the price changes, most recent first
+   * @returns {number} the lowest price, undefined without price
+   */
+  private lowest(current: number, entries: Array<any>): number | undefined {
+    let reduction = 0;
+    while (
+      reduction < entries.length &&
+      Number(entries[reduction].price) < Number(entries[reduction].previous_price)
+    ) {
+      reduction += 1;
+    }
+
+    const end = reduction
+      ? new Date(entries[reduction - 1].created_at).getTime()
+      : Date.now();
+    const start = end - LOWEST_PRICE_DAYS * 24 * 60 * 60 * 1000;
+    // The entries are sorted, the older ones are only dropped from the end
+    const recent = entries.filter((entry) => new Date(entry.created_at).getTime() > start);
+
+    const prices = [
+      // The current price only counts when it is not reduced
+      ...(reduction ? [] : [current]),
+      // The price in effect until each change of the period
+      ...recent.slice(Math.max(reduction - 1, 0)).map((entry) => entry.previous_price),
+      // The price set by each change before the reduction
+      ...recent.slice(reduction).map((entry) => entry.price),
+    ].filter((price) => typeof price === "number" && price > 0);
+
+    return prices.length ? Math.min(...prices) : undefined;
+  }
+}
+
+const priceHistoryService = new PriceHistoryService();
+export default priceHistoryService;
@@ -0,0 +1,255 @@
+import Attribute from "../attribute/attribute.model";
+import Product from "./product.model";
+import productCurrencyService from "./product-currency.service";
+import { publishedFilter } from "../../utils/helpers.util";
+
+// Specification rows read from the translations of the products
+const TRANSLATION_ROWS = ["brand", "material", "made_in", "color", "size_info"];
+
+// Maximum number of products compared at once
+const MAX_COMPARED = 6;
+
+/**
+ * @author Valentin Magde <valentinmagde@gmail.com>
+ * @since 2026-10-19
+ *
+ * Class ProductCompareService
+ */
+class ProductCompareService {
+  /**
+   * Compare published products side by side. The products are returned
+   * in the requested order with their texts in the given language, along
+   * with the union of their specification rows: brand, material, made in,
+   * color and size info, one row per variant attribute, price and stock.
+   * Every row has one value per product (null when the product has none)
+   * and tells whether the values differ.
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {Array<string>} productIds the product ids
+   * @param {string} lang the language of the texts
+   * @param {string} currency the currency of the prices
+   * @return {Promise<unknown>} the products and the rows, "TOO_MANY_PRODUCTS"
+   *                            over 6 products, "INVALID_CURRENCY" when
+   *                            there is no exchange rate for the currency,
+   *                            null when no product is found
+   */
+  public compare(
+    productIds: Array<string>,
+    lang: string,
+    currency?: string
+  ): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          if (new Set(productIds).size > MAX_COMPARED) {
+            return resolve("TOO_MANY_PRODUCTS");
+          }
+
+          const rate: any = await productCurrencyService.getRate(currency);
+          if (rate === null) return resolve("INVALID_CURRENCY");
+
+          const found: any[] = await Product.find(
+            { _id: { $in: productIds }, ...publishedFilter(), deleted_at: null },
+            {
+              sku: 1,
+              slug: 1,
+              title: 1,
+              short_description: 1,
+              image: 1,
+              brand: 1,
+              prices: 1,
+              current_stock: 1,
+              reserved_stock: 1,
+              rating: 1,
+              num_reviews: 1,
+              variants: 1,
+              translations: 1,
+            }
+          ).lean();
+
+          if (!found.length) return resolve(null);
+
+          // Keep the requested order
+          const byId = new Map(found.map((product) => [String(product._id), product]));
+          const products = productCurrencyService.convertProducts(
+            [...new Set(productIds)]
+              .map((id) => byId.get(String(id)))
+              .filter((product) => !!product),
+            rate,
+            currency
+          );
+
+          const attributes = await this.getAttributeNames(products, lang);
+
+          const rows = [
+            ...TRANSLATION_ROWS.map((key) => ({
+              key,
+              values: products.map((product) =>
+                this.localize(
+                  key === "brand" ? product.brand : product.translations?.[key],
+                  lang
+                )
+              ),
+            })),
+            ...[...attributes.keys()].map((attributeId) => ({
+              key: "attribute",
+              attribute: attributeId,
+              label: attributes.get(attributeId)?.name,
+              values: products.map((product) =>
+                this.getAttributeValues(product, attributeId, attributes)
+              ),
+            })),
+            {
+              key: "price",
+              values: products.map((product) => product.prices?.price ?? null),
+            },
+            {
+              key: "stock",
+              values: products.map((product) =>
+                Math.max(
+                  (Number(product.current_stock) || 0) -
+                    (Number(product.reserved_stock) || 0),
+                  0
+                )
+              ),
+            },
+          ]
+            .filter((row) => row.values.some((value: any) => value !== null))
+            .map((row) => ({ ...row, differ: this.differ(row.values) }));
+
+          resolve({
+            products: products.map((product) => ({
+              _id: product._id,
+              sku: product.sku,
+              slug: product.slug,
+              title: this.localize(product.title, lang),
+              short_description: this.localize(product.short_description, lang),
+              image: product.image,
+              brand: product.brand,
+              prices: product.prices,
+              currency: product.currency,
+              rating: product.rating,
+              num_reviews: product.num_reviews,
+            })),
+            rows,
+          });
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /*-----------------------------------------------------------------------------------------------
+  //  PRIVATE METHODS
+  -----------------------------------------------------------------------------------------------*/
+  /**
+   * Get the localized names of the attributes used by the variants of the
+   * products, and of their values. LD variants without attributes give
+   * their raw size as a "size" attribute.
+   *
+   * @param {Array<any>} products the products
+   * @param {string} lang the language
+   * @returns {Promise<Map<string, any>>} the attributes ({ name, values }) by id
+   */
+  private async getAttributeNames(
+    products: Array<any>,
+    lang: string
+  ): Promise<Map<string, any>> {
+    const variants: any[] = products.flatMap((product) => product.variants || []);
+    const ids = [
+      ...new Set(
+        variants.flatMap((variant) =>
+          (variant.attributes || []).map((item: any) => String(item.attribute))
+        )
+      ),
+    ];
+
+    const docs: any[] = ids.length
+      ? await Attribute.find({ _id: { $in: ids } }, { name: 1, variants: 1 }).lean()
+      : [];
+
+    const attributes = new Map<string, any>(
+      docs.map((doc) => [
+        String(doc._id),
+        {
+          name: this.localize(doc.name, lang),
+          values: new Map(
+            (doc.variants || []).map((value: any) => [
+              String(value._id),
+              this.localize(value.name, lang),
+            ])
+          ),
+        },
+      ])
+    );
+
+    if (variants.some((variant) => !variant.attributes?.length && variant.ld_size)) {
+      attributes.set("size", { name: "size", values: new Map() });
+    }
+
+    return attributes;
+  }
+
+  /**
+   * Get the distinct values of an attribute among the variants of a
+   * product, joined with commas
+   *
+   * @param {any} product the product
+   * @param {string} attributeId the attribute id
+   * @param {Map<string, any>} attributes the attribute names
+   * @returns {string|null} the values, null when no variant has the attribute
+   */
+  private getAttributeValues(
+    product: any,
+    attributeId: string,
+    attributes: Map<string, any>
+  ): string | null {
+    const values = new Set<string>();
+
+    (product.variants || []).forEach((variant: any) => {
+      if (attributeId === "size" && !variant.attributes?.length && variant.ld_size) {
+        values.add(variant.ld_size);
+      }
+
+      (variant.attributes || [])
+        .filter((item: any) => String(item.attribute) === attributeId)
+        .forEach((item: any) =>
+          values.add(
+            attributes.get(attributeId)?.values.get(String(item.value)) || String(item.value)
+          )
+        );
+    });
+
+    return values.size ? [...values].join(", ") : null;
+  }
+
+  /**
+   * Tell whether the values of a row are not all the same
+   *
+   * @param {Array<any>} values the values of the row
+   * @returns {boolean} true when the values differ
+   */
+  private differ(values: Array<any>): boolean {
+    return new Set(values.map((value) => JSON.stringify(value ?? null))).size > 1;
+  }
+
+  /**
+   * Get a translated value in the given language, english by default
+   *
+   * @param {any} value the translated value ({ en: "...", fr: "..." })
+   * @param {string} lang the language
+   * @returns {any} the localized value, null when there is none
+   */
+  private localize(value: any, lang: string): any {
+    if (value === undefined || value === null || value === "") return null;
+    if (typeof value !== "object") return value;
+
+    return value[lang] || value.en || null;
+  }
+}
+
+const productCompareService = new ProductCompareService();
+export default productCompareService;
@@ -0,0 +1,147 @@
+import config from "../../../config/environment";
+import exchangeRateService from "../exchange-rate/exchange-rate.service";
+
+// Price fields of a product, of its variants and of its grouped variants
+const PRICE_FIELDS = [
+  "price",
+  "original_price",
+  "promotional_price",
+  "purchase_cost",
+  "lowest_price_30d",
+  "finalPrice",
+];
+
+/**
+ * @author Valentin Magde <valentinmagde@gmail.com>
+ * @since 2026-10-19
+ *
+ * Class ProductCurrencyService
+ */
+class ProductCurrencyService {
+  /**
+   * Get the conversion rate, fee included, from the store currency to a
+   * currency. The rate is 1 when no currency or the store currency is
+   * requested.
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {string} currency the requested currency
+   * @return {Promise<unknown>} the rate, null when there is no exchange
+   *                            rate for the currency
+   */
+  public getRate(currency?: string): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          if (!currency || currency.toUpperCase() === config.storeCurrency) {
+            return resolve(1);
+          }
+
+          const conversion: any = await exchangeRateService.convert(
+            1,
+            config.storeCurrency,
+            currency.toUpperCase(),
+            true
+          );
+
+          resolve(conversion ? conversion.converted_amount : null);
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /**
+   * Convert the prices of products, of their variants and of their grouped
+   * variants with a rate, and set the currency of the products
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {Array<any>} products the products, as plain objects
+   * @param {number} rate the conversion rate
+   * @param {string} currency the currency of the converted prices
+   * @return {Array<any>} the converted products
+   */
+  public convertProducts(
+    products: Array<any>,
+    rate: number,
+    currency?: string
+  ): Array<any> {
+    return products.map((product) => this.convertProduct(product, rate, currency));
+  }
+
+  /**
+   * Convert the prices of a product, of its variants and of its grouped
+   * variants with a rate, and set the currency of the product
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {any} product the product, as a plain object
+   * @param {number} rate the conversion rate
+   * @param {string} currency the currency of the converted prices
+   * @return {any} the converted product
+   */
+  public convertProduct(product: any, rate: number, currency?: string): any {
+    if (!product || typeof product !== "object") return product;
+
+    product.currency = currency ? currency.toUpperCase() : config.storeCurrency;
+    if (rate === 1) return product;
+
+    this.convertFields(product, rate);
+    if (product.prices) this.convertFields(product.prices, rate);
+
+    // The grouped variants are lists of variants keyed by attribute
+    const grouped: any[] = Object.values(product.grouped_variants || {});
+
+    [...(product.variants || []), ...grouped.flat()].forEach((variant: any) =>
+      this.convertFields(variant, rate)
+    );
+    (product.bundle_components || []).forEach((component: any) =>
+      this.convertFields(component.product?.prices, rate)
+    );
+
+    return product;
+  }
+
+  /**
+   * Convert a price with a rate, rounded to the cent
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {number} value the price
+   * @param {number} rate the conversion rate
+   * @return {number} the converted price
+   */
+  public convertPrice(value: number, rate: number): number {
+    return Math.round(value * rate * 100) / 100;
+  }
+
+  /*-----------------------------------------------------------------------------------------------
+  //  PRIVATE METHODS
+  -----------------------------------------------------------------------------------------------*/
+  /**
+   * Convert the price fields of an object with a rate
+   *
+   * @param {any} item the object
+   * @param {number} rate the conversion rate
+   * @returns {void}
+   */
+  private convertFields(item: any, rate: number): void {
+    if (!item || typeof item !== "object") return;
+
+    PRICE_FIELDS.filter(
+      (field) => item[field] !== undefined && item[field] !== null && item[field] !== ""
+    ).forEach((field) => {
+      const value = Number(item[field]);
+      if (!Number.isNaN(value)) item[field] = this.convertPrice(value, rate);
+    });
+  }
+}
+
+const productCurrencyService = new ProductCurrencyService();
+export default productCurrencyService;
@@ -0,0 +1,278 @@
+import { Request } from "express";
+import { once } from "events";
+import { Writable } from "stream";
+import i18n from "../../../core/i18n";
+import Attribute from "../attribute/attribute.model";
+import Category from "../category/category.model";
+import Tag from "../tag/tag.model";
+import Product from "./product.model";
+import productService from "./product.service";
+
+// Separator of the multi-valued columns (categories, tags, images)
+const LIST_SEPARATOR = "|";
+
+const PRODUCT_COLUMNS = [
+  "_id",
+  "sku",
+  "barcode",
+  "slug",
+  "title",
+  "short_description",
+  "description",
+  "brand",
+  "status",
+  "category",
+  "categories",
+  "tags",
+  "original_price",
+  "price",
+  "discount",
+  "purchase_cost",
+  "current_stock",
+  "sales_count",
+  "rating",
+  "num_reviews",
+  "image",
+  "source",
+  "created_at",
+  "updated_at",
+];
+
+const VARIANT_COLUMNS = [
+  "variant_sku",
+  "variant_barcode",
+  "variant_attributes",
+  "variant_original_price",
+  "variant_price",
+  "variant_discount",
+  "variant_purchase_cost",
+  "variant_quantity",
+];
+
+/**
+ * @author Valentin Magde <valentinmagde@gmail.com>
+ * @since 2026-10-19
+ *
+ * Class ProductExportService
+ */
+class ProductExportService {
+  /**
+   * Stream the products matching the listing filter of the request to
+   * the output, as CSV or NDJSON. Products are read with a cursor so the
+   * catalog is never loaded in memory.
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {Request} req the http request (filter and :lang)
+   * @param {string} format the output format (csv or ndjson)
+   * @param {boolean} perVariant one row per variant instead of per product
+   * @param {Writable} output the output stream
+   * @return {Promise<unknown>} the eventual completion or failure
+   */
+  public export(
+    req: Request,
+    format: string,
+    perVariant: boolean,
+    output: Writable
+  ): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          const lang = i18n.getLocales().includes(req.params.lang)
+            ? req.params.lang
+            : "en";
+
+          const [filter, categories, tags, attributes] = await Promise.all([
+            productService.buildFilter(req),
+            Category.find({}, { name: 1 }).lean(),
+            Tag.find({}, { name: 1 }).lean(),
+            Attribute.find({}, { name: 1, variants: 1 }).lean(),
+          ]);
+
+          const names = new Map<string, string>();
+          [...categories, ...tags, ...attributes].forEach((doc: any) =>
+            names.set(doc._id.toString(), this.localize(doc.name, lang))
+          );
+          attributes.forEach((attribute: any) =>
+            (attribute.variants || []).forEach((variant: any) =>
+              names.set(variant._id.toString(), this.localize(variant.name, lang))
+            )
+          );
+
+          const columns = perVariant
+            ? [...PRODUCT_COLUMNS, ...VARIANT_COLUMNS]
+            : PRODUCT_COLUMNS;
+
+          if (format === "csv") {
+            // The BOM lets spreadsheets detect the UTF-8 encoding
+            await this.write(output, "\uFEFF" + this.toCsvLine(columns));
+          }
+
+          const cursor = Product.find(filter, { reviews: 0 })
+            .sort({ _id: 1 })
+            .lean()
+            .cursor();
+
+          let count = 0;
+
+          for await (const product of cursor) {
+            const row = this.toRow(product, lang, names);
+            const variants: any[] = product.variants?.length
+              ? product.variants
+              : [null];
+            const rows = perVariant
+              ? variants.map((variant) => ({
+                  ...row,
+                  ...this.toVariantRow(variant, names),
+                }))
+              : [row];
+
+            for (const line of rows) {
+              await this.write(
+                output,
+                format === "csv"
+                  ? this.toCsvLine(columns.map((column) => line[column]))
+                  : JSON.stringify(line) + "\n"
+              );
+            }
+
+            count += 1;
+          }
+
+          resolve({ count });
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /*-----------------------------------------------------------------------------------------------
+  //  PRIVATE METHODS
+  -----------------------------------------------------------------------------------------------*/
+  /**
+   * Flatten a product to the export columns
+   *
+   * @param {any} product the product
+   * @param {string} lang the export language
+   * @param {Map<string, string>} names the localized names by id
+   * @returns {any} the row
+   */
+  private toRow(product: any, lang: string, names: Map<string, string>): any {
+    return {
+      _id: product._id.toString(),
+      sku: product.sku,
+      barcode: product.barcode,
+      slug: product.slug,
+      title: this.localize(product.title, lang),
+      short_description: this.localize(product.short_description, lang),
+      description: this.localize(product.description, lang),
+      brand: product.brand,
+      status: product.status,
+      category: names.get(String(product.category)) || "",
+      categories: (product.categories || [])
+        .map((id: any) => names.get(String(id)) || "")
+        .join(LIST_SEPARATOR),
+      tags: (product.tags || [])
+        .map((id: any) => names.get(String(id)) || "")
+        .join(LIST_SEPARATOR),
+      original_price: product.prices?.original_price,
+      price: product.prices?.price,
+      discount: product.prices?.discount,
+      purchase_cost: product.prices?.purchase_cost,
+      current_stock: product.current_stock,
+      sales_count: product.sales_count,
+      rating: product.rating,
+      num_reviews: product.num_reviews,
+      image: (product.image || []).join(LIST_SEPARATOR),
+      source: product.source,
+      created_at: product.created_at?.toISOString(),
+      updated_at: product.updated_at?.toISOString(),
+    };
+  }
+
+  /**
+   * Flatten a variant to the variant export columns. Attribute selections
+   * are written as "Attribute: Value" pairs.
+   *
+   * @param {any} variant the variant, null for a product without variants
+   * @param {Map<string, string>} names the localized names by id
+   * @returns {any} the variant columns
+   */
+  private toVariantRow(variant: any, names: Map<string, string>): any {
+    if (!variant) return {};
+
+    const attributes = (variant.attributes || [])
+      .filter((item: any) => names.has(String(item.attribute)))
+      .map(
+        (item: any) =>
+          `${names.get(String(item.attribute))}: ${names.get(String(item.value)) || item.value}`
+      );
+
+    // LD variants keep their raw size and color when not mapped
+    if (!attributes.length && variant.ld_size) attributes.push(`size: ${variant.ld_size}`);
+    if (variant.ld_color) attributes.push(`color: ${variant.ld_color}`);
+
+    return {
+      variant_sku: variant.sku,
+      variant_barcode: variant.barcode,
+      variant_attributes: attributes.join(` ${LIST_SEPARATOR} `),
+      variant_original_price: variant.original_price,
+      variant_price: variant.price,
+      variant_discount: variant.discount,
+      variant_purchase_cost: variant.purchase_cost,
+      variant_quantity: variant.quantity,
+    };
+  }
+
+  /**
+   * Get a translated value in the given language, english by default
+   *
+   * @param {any} value the translated value ({ en: "...", fr: "..." })
+   * @param {string} lang the language
+   * @returns {string} the localized value
+   */
+  private localize(value: any, lang: string): string {
+    if (!value || typeof value !== "object") return value || "";
+
+    return value[lang] || value.en || "";
+  }
+
+  /**
+   * Format a CSV line, quoting the values when needed
+   *
+   * @param {Array<any>} values the values
+   * @returns {string} the CSV line
+   */
+  private toCsvLine(values: Array<any>): string {
+    return (
+      values
+        .map((value) => {
+          const text = value === null || value === undefined ? "" : String(value);
+
+          return /[",;\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+        })
+        .join(",") + "\r\n"
+    );
+  }
+
+  /**
+   * Write a chunk, waiting for the output to drain when its buffer is full
+   *
+   * @param {Writable} output the output stream
+   * @param {string} chunk the chunk
+   * @returns {Promise<void>} the eventual completion
+   */
+  private async write(output: Writable, chunk: string): Promise<void> {
+    if (output.destroyed) throw new Error("Export aborted");
+
+    if (!output.write(chunk)) {
+      // The client may disconnect while the buffer is full
+      await Promise.race([once(output, "drain"), once(output, "close")]);
+    }
+  }
+}
+
+const productExportService = new ProductExportService();
+export default productExportService;
@@ -0,0 +1,605 @@
+import mongoose from "mongoose";
+import i18n from "../../../core/i18n";
+import Category from "../category/category.model";
+import Tag from "../tag/tag.model";
+import Product from "./product.model";
+import productRevisionService from "./product-revision.service";
+import inventoryMovementService from "./inventory-movement.service";
+import priceHistoryService from "./price-history.service";
+import productSearchService from "./product-search.service";
+import { uniqueSlug } from "../../utils/helpers.util";
+
+// Separator of the multi-valued columns (categories, tags, images)
+const LIST_SEPARATOR = "|";
+
+const PRICE_FIELDS = [
+  "prices.original_price",
+  "prices.price",
+  "prices.discount",
+  "prices.purchase_cost",
+];
+
+const STOCK_FIELDS = ["initial_stock", "current_stock"];
+
+/**
+ * @author Valentin Magde <valentinmagde@gmail.com>
+ * @since 2026-10-19
+ *
+ * Class ProductImportService
+ */
+class ProductImportService {
+  /**
+   * Import products from a CSV or NDJSON file. Every row is validated
+   * and reported; unless in dry-run mode, the valid rows are then upserted
+   * by sku. A product in the trash with the sku of a row is restored.
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {string} content the file content
+   * @param {string} format the file format (csv or ndjson)
+   * @param {any} mapping the column to product field mapping
+   * @param {boolean} dryRun only validate the rows
+   * @param {any} user the acting user (req.user)
+   * @return {Promise<unknown>} the eventual completion or failure
+   */
+  public import(
+    content: string,
+    format: string,
+    mapping: any,
+    dryRun: boolean,
+    user?: any
+  ): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          const records =
+            format === "ndjson"
+              ? this.parseNdjson(content)
+              : this.parseCsv(content);
+
+          const columns = Array.from(
+            new Set(records.flatMap((record) => Object.keys(record.values)))
+          );
+          const fieldMapping: Record<string, string> =
+            mapping && Object.keys(mapping).length
+              ? mapping
+              : Object.fromEntries(columns.map((column) => [column, column]));
+          const allowedFields = this.getImportFields();
+
+          const ignoredColumns = columns.filter(
+            (column) => !allowedFields.includes(fieldMapping[column])
+          );
+
+          const rows = records.map((record) => ({
+            row: record.row,
+            errors: [...record.errors],
+            data: Object.entries(record.values).reduce(
+              (data: Record<string, any>, [column, value]) => {
+                const field = fieldMapping[column];
+                const text = value === null || value === undefined
+                  ? ""
+                  : String(value).trim();
+
+                if (allowedFields.includes(field) && text !== "") {
+                  data[field] = text;
+                }
+
+                return data;
+              },
+              {}
+            ),
+          }));
+
+          const report: any[] = await this.validate(rows);
+          const validRows = report.filter((row) => !row.errors.length);
+
+          let created = 0;
+          let updated = 0;
+          let restored = 0;
+
+          if (!dryRun && validRows.length) {
+            [created, updated, restored] = await this.apply(validRows, user);
+          }
+
+          resolve({
+            dry_run: dryRun,
+            total: report.length,
+            valid: validRows.length,
+            invalid: report.length - validRows.length,
+            created,
+            updated,
+            restored,
+            ignored_columns: ignoredColumns,
+            rows: report.map((row) => ({
+              row: row.row,
+              sku: row.data.sku || null,
+              action: this.actionOf(row),
+              errors: row.errors,
+            })),
+          });
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /*-----------------------------------------------------------------------------------------------
+  //  PRIVATE METHODS
+  -----------------------------------------------------------------------------------------------*/
+  /**
+   * The product fields which can be imported
+   *
+   * @returns {Array<string>} the field paths
+   */
+  private getImportFields(): Array<string> {
+    const translated = ["title", "short_description", "description"].flatMap(
+      (field) => i18n.getLocales().map((locale) => `${field}.${locale}`)
+    );
+
+    return [
+      "sku",
+      "barcode",
+      "slug",
+      "brand",
+      "status",
+      "category",
+      "categories",
+      "tags",
+      "image",
+      ...translated,
+      ...PRICE_FIELDS,
+      ...STOCK_FIELDS,
+    ];
+  }
+
+  /**
+   * Validate the rows and resolve their category and tag names. Each row
+   * gets its errors, the existing product with the same sku, trashed or
+   * not, and the values to store.
+   *
+   * @param {Array<any>} rows the mapped rows
+   * @returns {Promise<Array<any>>} the validated rows
+   */
+  private async validate(rows: Array<any>): Promise<Array<any>> {
+    const skus = rows.map((row) => row.data.sku).filter(Boolean);
+
+    const [categories, tags, existingProducts] = await Promise.all([
+      Category.find({}, { name: 1 }).lean(),
+      Tag.find({}, { name: 1 }).lean(),
+      Product.find({ sku: { $in: skus } }, { sku: 1, slug: 1, deleted_at: 1 }).lean(),
+    ]);
+
+    const categoryIds = this.namesToIds(categories);
+    const tagIds = this.namesToIds(tags);
+    const productsBySku = new Map(
+      existingProducts.map((product: any) => [product.sku, product])
+    );
+
+    // Slugs are derived from the english title when not given, unique
+    // among the products and the slugs of the file
+    const reserved: string[] = rows.map((row) => row.data.slug).filter(Boolean);
+
+    for (const row of rows) {
+      const existing: any = productsBySku.get(row.data.sku);
+      row.existing = existing || null;
+
+      if (!row.data.slug && !existing && row.data["title.en"]) {
+        row.data.slug = await uniqueSlug(Product, row.data["title.en"], {
+          reserved,
+          fallback: "product",
+        });
+        reserved.push(row.data.slug);
+      }
+    }
+
+    const slugs = rows.map((row) => row.data.slug).filter(Boolean);
+    const productsBySlug = new Map(
+      (
+        await Product.find({ slug: { $in: slugs } }, { slug: 1 }).lean()
+      ).map((product: any) => [product.slug, product._id.toString()])
+    );
+
+    const seenSkus = new Set<string>();
+    const seenSlugs = new Set<string>();
+
+    return rows.map((row) => {
+      const { data, errors, existing } = row;
+      const values: Record<string, any> = {};
+
+      if (!data.sku) errors.push(this.rowError("sku", "required"));
+      else if (seenSkus.has(data.sku)) errors.push(this.rowError("sku", "duplicate", data.sku));
+      else seenSkus.add(data.sku);
+
+      if (!existing) {
+        if (!data["title.en"]) errors.push(this.rowError("title.en", "required"));
+        if (!data["prices.original_price"] && !data["prices.price"]) {
+          errors.push(this.rowError("prices.original_price", "required"));
+        }
+        if (!data.category && !data.categories) errors.push(this.rowError("category", "required"));
+      }
+
+      if (data.slug) {
+        const owner = productsBySlug.get(data.slug);
+
+        if (seenSlugs.has(data.slug)) errors.push(this.rowError("slug", "duplicate", data.slug));
+        else if (owner && owner !== existing?._id.toString()) {
+          errors.push(this.rowError("slug", "duplicate", data.slug));
+        }
+
+        seenSlugs.add(data.slug);
+      }
+
+      Object.entries(data).forEach(([field, value]: [string, any]) => {
+        if (PRICE_FIELDS.includes(field)) {
+          const price = this.toNumber(value);
+
+          if (price === null || price < 0) errors.push(this.rowError(field, "invalidPrice", value));
+          else values[field] = price;
+        } else if (STOCK_FIELDS.includes(field)) {
+          const stock = this.toNumber(value);
+
+          if (stock === null || stock < 0 || !Number.isInteger(stock)) {
+            errors.push(this.rowError(field, "invalidNumber", value));
+          } else values[field] = stock;
+        } else if (field === "status") {
+          if (!["show", "hide"].includes(value.toLowerCase())) {
+            errors.push(this.rowError(field, "invalidValue", value));
+          } else values[field] = value.toLowerCase();
+        } else if (field === "category" || field === "categories") {
+          const ids = this.splitList(value).map((name) => {
+            const id = categoryIds.get(name.toLowerCase());
+            if (!id) errors.push(this.rowError(field, "unknownCategory", name));
+            return id;
+          });
+
+          values[field] = field === "category" ? ids[0] : ids;
+        } else if (field === "tags") {
+          values[field] = this.splitList(value).map((name) => {
+            const id = tagIds.get(name.toLowerCase());
+            if (!id) errors.push(this.rowError(field, "unknownTag", name));
+            return id;
+          });
+        } else if (field === "image") {
+          values[field] = this.splitList(value);
+        } else {
+          values[field] = value;
+        }
+      });
+
+      if (
+        values["prices.price"] !== undefined &&
+        values["prices.original_price"] !== undefined &&
+        values["prices.price"] > values["prices.original_price"]
+      ) {
+        errors.push(this.rowError("prices.price", "invalidPrice", data["prices.price"]));
+      }
+
+      // The main category defaults to the first of the categories
+      if (!values.category && values.categories?.length && !existing) {
+        values.category = values.categories[0];
+      }
+
+      return { ...row, values };
+    });
+  }
+
+  /**
+   * Build a row validation error
+   *
+   * @param {string} field the product field
+   * @param {string} code the error code
+   * @param {any} value the invalid value
+   * @returns {any} the error
+   */
+  private rowError(field: string, code: string, value?: any): any {
+    return {
+      field,
+      code,
+      value,
+      message: i18n.__(`productImport.${code}`, field),
+    };
+  }
+
+  /**
+   * Get the action of a row on its product
+   *
+   * @param {any} row the validated row
+   * @returns {string} "create", "update" or "restore"
+   */
+  private actionOf(row: any): string {
+    if (!row.existing) return "create";
+
+    return row.existing.deleted_at ? "restore" : "update";
+  }
+
+  /**
+   * Create the new products and update the existing ones, the trashed
+   * ones being restored
+   *
+   * @param {Array<any>} rows the valid rows
+   * @param {any} user the acting user
+   * @returns {Promise<Array<number>>} the number of created, updated and
+   *                                   restored products
+   */
+  private async apply(rows: Array<any>, user?: any): Promise<Array<number>> {
+    const creates = rows.filter((row) => !row.existing);
+    const updates = rows.filter((row) => row.existing);
+
+    const createdProducts: any[] = creates.length
+      ? await Product.insertMany(
+          creates.map((row) => {
+            const product: any = this.expand(row.values);
+
+            product.prices.original_price ??= product.prices.price;
+            product.prices.price ??= product.prices.original_price;
+
+            return {
+              ...product,
+              name: product.title.en,
+              product_id: new mongoose.Types.ObjectId(),
+              is_combination: false,
+              variants: [],
+            };
+          })
+        )
+      : [];
+
+    await Promise.all(
+      createdProducts.map((product) =>
+        inventoryMovementService.recordChanges(null, product, "import", { user })
+      )
+    ).catch((err) => console.error("[InventoryMovement] import:", err));
+
+    if (updates.length) {
+      const ids = updates.map((row) => row.existing._id);
+      const before: any[] = await Product.find({ _id: { $in: ids } }).lean();
+
+      await Product.bulkWrite(
+        updates.map((row) => ({
+          updateOne: {
+            filter: { _id: row.existing._id },
+            update: {
+              $set: row.existing.deleted_at
+                ? { ...row.values, deleted_at: null }
+                : row.values,
+            },
+          },
+        }))
+      );
+
+      const after: any[] = await Product.find({ _id: { $in: ids } }).lean();
+      await Promise.all(
+        after.map((product) =>
+          productRevisionService.record(
+            product._id.toString(),
+            before.find((x) => x._id.toString() === product._id.toString()),
+            product,
+            "import",
+            user
+          )
+        )
+      ).catch((err) => console.error("[ProductRevision] import:", err));
+
+      await Promise.all(
+        after.map((product) =>
+          inventoryMovementService.recordChanges(
+            before.find((x) => x._id.toString() === product._id.toString()),
+            product,
+            "import",
+            { user }
+          )
+        )
+      ).catch((err) => console.error("[InventoryMovement] import:", err));
+
+      await Promise.all(
+        after.map((product) =>
+          priceHistoryService.recordChanges(
+            before.find((x) => x._id.toString() === product._id.toString()),
+            product,
+            "import",
+            { user }
+          )
+        )
+      ).catch((err) => console.error("[PriceHistory] import:", err));
+    }
+
+    await productSearchService
+      .refresh({
+        _id: {
+          $in: [
+            ...createdProducts.map((product) => product._id),
+            ...updates.map((row) => row.existing._id),
+          ],
+        },
+      })
+      .catch((err) => console.error("[ProductSearch] import:", err));
+
+    const restored = updates.filter((row) => row.existing.deleted_at).length;
+
+    return [createdProducts.length, updates.length - restored, restored];
+  }
+
+  /**
+   * Parse a CSV file (RFC 4180: quoted values may contain separators,
+   * line breaks and doubled quotes). The separator is a comma or a
+   * semicolon, detected from the header line.
+   *
+   * @param {string} content the file content
+   * @returns {Array<any>} the records
+   */
+  private parseCsv(content: string): Array<any> {
+    const text = content.replace(/^\uFEFF/, "");
+    const headerLine = text.split(/\r?\n/)[0] || "";
+    const separator =
+      headerLine.split(";").length > headerLine.split(",").length ? ";" : ",";
+
+    const lines: string[][] = [];
+    let line: string[] = [];
+    let value = "";
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          value += '"';
+          i++;
+        } else if (char === '"') quoted = false;
+        else value += char;
+      } else if (char === '"') quoted = true;
+      else if (char === separator) {
+        line.push(value);
+        value = "";
+      } else if (char === "\n" || char === "\r") {
+        if (char === "\r" && text[i + 1] === "\n") i++;
+        line.push(value);
+        lines.push(line);
+        line = [];
+        value = "";
+      } else value += char;
+    }
+
+    if (value !== "" || line.length) {
+      line.push(value);
+      lines.push(line);
+    }
+
+    const [header = [], ...dataLines] = lines;
+    const columns = header.map((column) => column.trim());
+
+    return dataLines
+      .map((values, index) => ({ values, row: index + 1 }))
+      .filter(({ values }) => values.some((x) => x.trim() !== ""))
+      .map(({ values, row }) => ({
+        row,
+        errors: [],
+        values: Object.fromEntries(
+          columns.map((column, i) => [column, values[i] ?? ""])
+        ),
+      }));
+  }
+
+  /**
+   * Parse a NDJSON file. Nested objects are flattened to dotted keys
+   * ({ title: { en } } gives "title.en") and arrays are joined.
+   *
+   * @param {string} content the file content
+   * @returns {Array<any>} the records
+   */
+  private parseNdjson(content: string): Array<any> {
+    return content
+      .split(/\r?\n/)
+      .map((line, index) => ({ line: line.trim(), row: index + 1 }))
+      .filter(({ line }) => line !== "")
+      .map(({ line, row }) => {
+        try {
+          return { row, errors: [], values: this.flatten(JSON.parse(line)) };
+        } catch (error) {
+          return {
+            row,
+            values: {},
+            errors: [
+              {
+                field: null,
+                code: "invalidJson",
+                message: i18n.__("productImport.invalidJson"),
+              },
+            ],
+          };
+        }
+      });
+  }
+
+  /**
+   * Flatten a nested object to dotted keys
+   *
+   * @param {any} object the object
+   * @param {string} prefix the keys prefix
+   * @returns {Record<string, any>} the flattened object
+   */
+  private flatten(object: any, prefix = ""): Record<string, any> {
+    return Object.entries(object || {}).reduce(
+      (flat: Record<string, any>, [key, value]) => {
+        const path = prefix ? `${prefix}.${key}` : key;
+
+        if (Array.isArray(value)) flat[path] = value.join(LIST_SEPARATOR);
+        else if (value && typeof value === "object") {
+          Object.assign(flat, this.flatten(value, path));
+        } else flat[path] = value;
+
+        return flat;
+      },
+      {}
+    );
+  }
+
+  /**
+   * Expand dotted keys to a nested object
+   *
+   * @param {Record<string, any>} values the dotted values
+   * @returns {any} the nested object
+   */
+  private expand(values: Record<string, any>): any {
+    const object: any = { prices: {} };
+
+    Object.entries(values).forEach(([path, value]) => {
+      const keys = path.split(".");
+      const last = keys.pop() as string;
+      const parent = keys.reduce((node, key) => (node[key] ??= {}), object);
+
+      parent[last] = value;
+    });
+
+    return object;
+  }
+
+  /**
+   * Index the ids of categories or tags by their names in every locale
+   *
+   * @param {Array<any>} docs the categories or tags
+   * @returns {Map<string, any>} the ids by lowercase name
+   */
+  private namesToIds(docs: Array<any>): Map<string, any> {
+    const ids = new Map<string, any>();
+
+    docs.forEach((doc) =>
+      Object.values(doc.name || {}).forEach((name: any) => {
+        if (typeof name === "string") ids.set(name.trim().toLowerCase(), doc._id);
+      })
+    );
+
+    return ids;
+  }
+
+  /**
+   * Split a multi-valued column
+   *
+   * @param {string} value the column value
+   * @returns {Array<string>} the values
+   */
+  private splitList(value: string): Array<string> {
+    return value
+      .split(LIST_SEPARATOR)
+      .map((x) => x.trim())
+      .filter(Boolean);
+  }
+
+  /**
+   * Parse a number, accepting a decimal comma ("1 250,50")
+   *
+   * @param {string} value the value
+   * @returns {number | null} the number or null when invalid
+   */
+  private toNumber(value: string): number | null {
+    const normalized = String(value).replace(/\s/g, "").replace(",", ".");
+    const number = Number(normalized);
+
+    return normalized !== "" && Number.isFinite(number) ? number : null;
+  }
+}
+
+const productImportService = new ProductImportService();
+export default productImportService;
@@ -0,0 +1,41 @@
+import mongoose from "mongoose";
+
+const productRevisionSchema = new mongoose.Schema(
+  {
+    product: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "product",
+      required: true,
+    },
+    version: { type: Number, required: true },
+    action: {
+      type: String,
+      enum: ["baseline", "update", "patch", "update_many", "restore", "import"],
+      required: true,
+    },
+    snapshot: { type: Object, required: true },
+    changes: { type: [Object], default: [] },
+    restored_from: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "product_revision",
+      required: false,
+    },
+    user: { type: mongoose.Schema.Types.ObjectId, required: false },
+    user_email: { type: String, required: false },
+  },
+  {
+    timestamps: {
+      createdAt: "created_at",
+      updatedAt: false,
+    },
+  }
+);
+
+productRevisionSchema.index({ product: 1, version: -1 }, { unique: true });
+
+const ProductRevision = mongoose.model(
+  "product_revision",
+  productRevisionSchema
+);
+
+export default ProductRevision;
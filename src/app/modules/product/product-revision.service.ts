@@ -0,0 +1,279 @@
+import * as jsonpatch from "fast-json-patch";
+import Product from "./product.model";
+import ProductRevision from "./product-revision.model";
+
+// Fields that change on every write and would only add noise to the diffs.
+const IGNORED_FIELDS = ["__v", "updated_at"];
+
+// Attempts to record a revision when a concurrent write took its version.
+const MAX_ATTEMPTS = 5;
+
+/**
+ * @author Valentin Magde <valentinmagde@gmail.com>
+ * @since 2026-10-19
+ *
+ * Class ProductRevisionService
+ */
+class ProductRevisionService {
+  /**
+   * Record a new revision of a product. The first time a product is
+   * revised, its state before the change is stored as a baseline so the
+   * original values can always be recovered. A revision whose version
+   * was taken by a concurrent write is recorded again with the next one.
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {string} productId the product id
+   * @param {any} before the product state before the change
+   * @param {any} after the product state after the change
+   * @param {string} action the action which produced the change
+   * @param {any} user the acting user (req.user)
+   * @param {string} restoredFrom the restored revision id, if any
+   * @return {Promise<unknown>} the eventual completion or failure
+   */
+  public record(
+    productId: string,
+    before: any,
+    after: any,
+    action: string,
+    user?: any,
+    restoredFrom?: string
+  ): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          for (let attempt = 1; ; attempt += 1) {
+            try {
+              return resolve(
+                await this.write(productId, before, after, action, user, restoredFrom)
+              );
+            } catch (error: any) {
+              // The unique { product, version } index rejected a taken version
+              if (error?.code !== 11000 || attempt >= MAX_ATTEMPTS) throw error;
+            }
+          }
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /**
+   * Get the revisions of a product, most recent first
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {string} productId the product id
+   * @param {number} page the page number
+   * @param {number} pageSize the number of items per page
+   * @return {Promise<unknown>} the eventual completion or failure
+   */
+  public getRevisions(
+    productId: string,
+    page: number,
+    pageSize: number
+  ): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          const [revisions, count] = await Promise.all([
+            ProductRevision.find({ product: productId }, { snapshot: 0 })
+              .sort({ version: -1 })
+              .skip(pageSize * (page - 1))
+              .limit(pageSize)
+              .lean(),
+            ProductRevision.countDocuments({ product: productId }),
+          ]);
+
+          resolve({
+            revisions,
+            previousPage: page > 1 ? page - 1 : null,
+            perPage: pageSize,
+            allRevisions: count,
+            currentPage: page,
+            pages: Math.ceil(count / pageSize),
+            nextPage: page < Math.ceil(count / pageSize) ? page + 1 : null,
+          });
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /**
+   * Get a revision of a product
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {string} productId the product id
+   * @param {string} revisionId the revision id
+   * @return {Promise<unknown>} the eventual completion or failure
+   */
+  public getRevision(productId: string, revisionId: string): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          const revision = await ProductRevision.findOne({
+            _id: revisionId,
+            product: productId,
+          }).lean();
+
+          resolve(revision);
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /**
+   * Compute the JSON Patch diff between two revisions of a product.
+   * When no target revision is given, the diff is computed against the
+   * current state of the product.
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {string} productId the product id
+   * @param {string} fromId the source revision id
+   * @param {string} toId the target revision id
+   * @return {Promise<unknown>} the eventual completion or failure
+   */
+  public diff(productId: string, fromId: string, toId?: string): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          const [from, to]: any[] = await Promise.all([
+            ProductRevision.findOne({ _id: fromId, product: productId }).lean(),
+            toId
+              ? ProductRevision.findOne({ _id: toId, product: productId }).lean()
+              : Product.findById(productId).lean(),
+          ]);
+
+          if (!from || !to) return resolve("REVISION_NOT_FOUND");
+
+          const target = toId ? to.snapshot : this.toSnapshot(to);
+
+          resolve({
+            from: { _id: from._id, version: from.version },
+            to: toId ? { _id: to._id, version: to.version } : "current",
+            changes: jsonpatch.compare(from.snapshot, target),
+          });
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /**
+   * Remove the revisions of the given products
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {Array<any>} productIds the product ids
+   * @return {Promise<unknown>} the eventual completion or failure
+   */
+  public removeForProducts(productIds: Array<any>): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          const result = await ProductRevision.deleteMany({
+            product: { $in: productIds },
+          });
+
+          resolve(result);
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /*-----------------------------------------------------------------------------------------------
+  //  PRIVATE METHODS
+  -----------------------------------------------------------------------------------------------*/
+  /**
+   * Write the revision of a change after the last revision of the product,
+   * with the baseline first when there is none
+   *
+   * @param {string} productId the product id
+   * @param {any} before the product state before the change
+   * @param {any} after the product state after the change
+   * @param {string} action the action which produced the change
+   * @param {any} user the acting user (req.user)
+   * @param {string} restoredFrom the restored revision id, if any
+   * @returns {Promise<any>} the revision, null when nothing changed
+   */
+  private async write(
+    productId: string,
+    before: any,
+    after: any,
+    action: string,
+    user?: any,
+    restoredFrom?: string
+  ): Promise<any> {
+    const last: any = await ProductRevision.findOne({
+      product: productId,
+    })
+      .sort({ version: -1 })
+      .lean();
+
+    let version = last ? last.version : 0;
+    let previous = last ? last.snapshot : null;
+
+    if (!last && before) {
+      previous = this.toSnapshot(before);
+      version += 1;
+
+      await ProductRevision.create({
+        product: productId,
+        version,
+        action: "baseline",
+        snapshot: previous,
+      });
+    }
+
+    const snapshot = this.toSnapshot(after);
+    const changes = jsonpatch.compare(previous || {}, snapshot);
+
+    // Nothing changed, no need to store a new revision
+    if (previous && changes.length === 0) return null;
+
+    return ProductRevision.create({
+      product: productId,
+      version: version + 1,
+      action,
+      snapshot,
+      changes,
+      restored_from: restoredFrom,
+      user: user?._id,
+      user_email: user?.email,
+    });
+  }
+
+  /**
+   * Converts a product document into a plain JSON snapshot
+   *
+   * @param {any} product the product document or plain object
+   * @returns {any} the snapshot
+   */
+  private toSnapshot(product: any): any {
+    const plain =
+      typeof product?.toObject === "function" ? product.toObject() : product;
+    const snapshot = JSON.parse(JSON.stringify(plain));
+
+    IGNORED_FIELDS.forEach((field) => delete snapshot[field]);
+
+    return snapshot;
+  }
+}
+
+const productRevisionService = new ProductRevisionService();
+export default productRevisionService;
@@ -0,0 +1,171 @@
+import i18n from "../../../core/i18n";
+import Category from "../category/category.model";
+import Tag from "../tag/tag.model";
+import Product from "./product.model";
+import { normalizeSearchText } from "../../utils/helpers.util";
+
+// Number of products whose search fields are rewritten per bulk write.
+const BATCH_SIZE = 500;
+
+/**
+ * @author Valentin Magde <valentinmagde@gmail.com>
+ * @since 2026-10-19
+ *
+ * Class ProductSearchService
+ */
+class ProductSearchService {
+  /**
+   * Recompute the search fields of the products matching the given filter.
+   * Must be called after every write touching the title, brand,
+   * descriptions, tags or categories of a product.
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {any} filter the products filter
+   * @return {Promise<unknown>} the eventual completion or failure
+   */
+  public refresh(filter: any): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          const cursor = Product.find(filter, {
+            title: 1,
+            brand: 1,
+            description: 1,
+            short_description: 1,
+            tags: 1,
+            categories: 1,
+          })
+            .lean()
+            .cursor();
+
+          let batch: any[] = [];
+          let indexed = 0;
+
+          for await (const product of cursor) {
+            batch.push(product);
+
+            if (batch.length === BATCH_SIZE) {
+              indexed += await this.writeBatch(batch);
+              batch = [];
+            }
+          }
+
+          if (batch.length) indexed += await this.writeBatch(batch);
+
+          resolve({ indexed });
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /**
+   * Recompute the search fields of every product of the catalog
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @return {Promise<unknown>} the eventual completion or failure
+   */
+  public reindexAll(): Promise<unknown> {
+    return this.refresh({});
+  }
+
+  /*-----------------------------------------------------------------------------------------------
+  //  PRIVATE METHODS
+  -----------------------------------------------------------------------------------------------*/
+  /**
+   * Compute and store the search fields of a batch of products
+   *
+   * @param {Array<any>} products the products
+   * @returns {Promise<number>} the number of updated products
+   */
+  private async writeBatch(products: Array<any>): Promise<number> {
+    const tagIds = products.flatMap((product) => product.tags || []);
+    const categoryIds = products.flatMap(
+      (product) => product.categories || []
+    );
+
+    const [tags, categories] = await Promise.all([
+      tagIds.length
+        ? Tag.find({ _id: { $in: tagIds } }, { name: 1 }).lean()
+        : [],
+      categoryIds.length
+        ? Category.find({ _id: { $in: categoryIds } }, { name: 1 }).lean()
+        : [],
+    ]);
+
+    const tagNames = new Map(
+      tags.map((tag: any) => [tag._id.toString(), tag.name])
+    );
+    const categoryNames = new Map(
+      categories.map((category: any) => [category._id.toString(), category.name])
+    );
+
+    const ops = products.map((product) => ({
+      updateOne: {
+        filter: { _id: product._id },
+        update: {
+          $set: {
+            search: {
+              title: this.localizedText([product.title]),
+              brand: normalizeSearchText(product.brand),
+              tags: this.localizedText(
+                (product.tags || []).map((id: any) => tagNames.get(id.toString()))
+              ),
+              categories: this.localizedText(
+                (product.categories || []).map((id: any) =>
+                  categoryNames.get(id.toString())
+                )
+              ),
+              description: this.localizedText([
+                product.short_description,
+                product.description,
+              ]),
+            },
+          },
+        },
+        // Keep updated_at untouched, the product itself did not change
+        timestamps: false,
+      },
+    }));
+
+    await Product.bulkWrite(ops);
+
+    return ops.length;
+  }
+
+  /**
+   * Join and normalize the supported languages of translated values
+   *
+   * @param {Array<any>} values the translated values ({ en: "...", fr: "..." })
+   * @returns {string} the normalized text
+   */
+  private localizedText(values: Array<any>): string {
+    const words = new Set<string>();
+
+    values.filter(Boolean).forEach((value) => {
+      const texts =
+        typeof value === "string"
+          ? [value]
+          : i18n.getLocales().map((locale) => value[locale]);
+
+      texts
+        .filter((text) => typeof text === "string")
+        .forEach((text) =>
+          normalizeSearchText(text)
+            .split(" ")
+            .filter(Boolean)
+            .forEach((word) => words.add(word))
+        );
+    });
+
+    return Array.from(words).join(" ");
+  }
+}
+
+const productSearchService = new ProductSearchService();
+export default productSearchService;
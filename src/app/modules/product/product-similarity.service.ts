@@ -0,0 +1,344 @@
+import Product from "./product.model";
+import productCurrencyService from "./product-currency.service";
+import { publishedFilter } from "../../utils/helpers.util";
+
+// Number of computed related products stored per product
+const RELATED_COUNT = 12;
+
+// Products of the same categories scored per product, best sellers first
+const MAX_CANDIDATES = 500;
+
+// Products whose related products are computed per scheduled refresh,
+// the least recently computed first
+const REFRESH_BATCH = 1000;
+
+// Score of every shared criterion
+const WEIGHTS = {
+  category: 3,
+  mainCategory: 3,
+  tag: 1,
+  brand: 4,
+  color: 2,
+  price: 2,
+};
+
+/**
+ * @author Valentin Magde <valentinmagde@gmail.com>
+ * @since 2026-10-19
+ *
+ * Class ProductSimilarityService
+ */
+class ProductSimilarityService {
+  /**
+   * Compute and store the most similar products of a product. The
+   * published products sharing a category with it are scored by their
+   * shared categories, tags, brand, color and price band.
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {any} productId the product id
+   * @return {Promise<unknown>} the ids of the computed related products,
+   *                            null when the product is not found
+   */
+  public compute(productId: any): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          const product: any = await Product.findOne(
+            { _id: productId, deleted_at: null },
+            this.projection()
+          ).lean();
+
+          if (!product) return resolve(null);
+
+          const categories = [...(product.categories || []), product.category].filter(
+            (id: any) => !!id
+          );
+
+          const candidates: any[] = categories.length
+            ? await Product.find(
+                {
+                  _id: { $ne: product._id },
+                  ...publishedFilter(),
+                  deleted_at: null,
+                  $or: [
+                    { category: { $in: categories } },
+                    { categories: { $in: categories } },
+                  ],
+                },
+                { ...this.projection(), sales_count: 1 }
+              )
+                .sort({ sales_count: -1, _id: -1 })
+                .limit(MAX_CANDIDATES)
+                .lean()
+            : [];
+
+          const related = candidates
+            .map((candidate) => ({
+              _id: candidate._id,
+              score: this.score(product, candidate),
+            }))
+            .filter((candidate) => candidate.score > 0)
+            // The sort is stable, equal scores keep the best sellers first
+            .sort((a, b) => b.score - a.score)
+            .slice(0, RELATED_COUNT)
+            .map((candidate) => candidate._id);
+
+          await Product.updateOne(
+            { _id: product._id },
+            {
+              $set: {
+                computed_related_products: related,
+                related_computed_at: new Date(),
+              },
+            }
+          );
+
+          resolve(related);
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /**
+   * Compute again the related products of the products whose related
+   * products are the oldest (or have never been computed)
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {number} batchSize the number of products to compute
+   * @return {Promise<unknown>} the number of computed products and the errors
+   */
+  public refresh(batchSize: number = REFRESH_BATCH): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          const products: any[] = await Product.find(
+            { deleted_at: null },
+            { _id: 1 }
+          )
+            .sort({ related_computed_at: 1, _id: 1 })
+            .limit(batchSize)
+            .lean();
+
+          const errors: any[] = [];
+          let computed = 0;
+
+          for (const product of products) {
+            try {
+              await this.compute(product._id);
+              computed += 1;
+            } catch (error: any) {
+              errors.push({ _id: product._id, error: error?.message || error });
+            }
+          }
+
+          resolve({ computed, errors });
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /**
+   * Get the related products of a product: the visible curated related
+   * products first, then the visible computed ones. The related products
+   * are computed by the refresh job only, a product never computed has
+   * its curated related products alone.
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {any} productId the product id
+   * @param {number} limit the maximum number of products
+   * @return {Promise<unknown>} the products, null when the product is not
+   *                            found
+   */
+  public findRelated(productId: any, limit: number = RELATED_COUNT): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          const product: any = await Product.findOne(
+            { _id: productId, deleted_at: null },
+            { related_products: 1, computed_related_products: 1 }
+          ).lean();
+
+          if (!product) return resolve(null);
+
+          const computed: any[] = product.computed_related_products || [];
+
+          const sources = new Map<string, string>();
+          (product.related_products || []).forEach((id: any) =>
+            sources.set(String(id), "curated")
+          );
+          computed
+            .filter((id: any) => !sources.has(String(id)))
+            .forEach((id: any) => sources.set(String(id), "computed"));
+          sources.delete(String(product._id));
+
+          const found: any[] = sources.size
+            ? await Product.find(
+                {
+                  _id: { $in: [...sources.keys()] },
+                  ...publishedFilter(),
+                  deleted_at: null,
+                },
+                { reviews: 0 }
+              )
+                .populate({ path: "category", select: "name _id" })
+                .lean()
+            : [];
+
+          // Keep the curated then computed order
+          const byId = new Map(found.map((item) => [String(item._id), item]));
+
+          resolve(
+            [...sources.keys()]
+              .filter((id) => byId.has(id))
+              .slice(0, limit)
+              .map((id) => ({ ...byId.get(id), source: sources.get(id) }))
+          );
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /**
+   * Get the related products of a product with their prices in a currency
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {string} productId the product id
+   * @param {number} limit the maximum number of products
+   * @param {string} currency the currency of the prices
+   * @return {Promise<unknown>} the products, "INVALID_CURRENCY" when there
+   *                            is no exchange rate for the currency, null
+   *                            when the product is not found
+   */
+  public getRelated(
+    productId: string,
+    limit: number,
+    currency?: string
+  ): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          const rate: any = await productCurrencyService.getRate(currency);
+          if (rate === null) return resolve("INVALID_CURRENCY");
+
+          const products: any = await this.findRelated(productId, limit);
+          if (!products) return resolve(null);
+
+          resolve({
+            products: productCurrencyService.convertProducts(products, rate, currency),
+          });
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /*-----------------------------------------------------------------------------------------------
+  //  PRIVATE METHODS
+  -----------------------------------------------------------------------------------------------*/
+  /**
+   * Get the fields read to score the products
+   *
+   * @returns {any} the projection
+   */
+  private projection(): any {
+    return {
+      category: 1,
+      categories: 1,
+      tags: 1,
+      brand: 1,
+      prices: 1,
+      "translations.color": 1,
+      "variants.ld_color": 1,
+    };
+  }
+
+  /**
+   * Score the similarity of a candidate with a product
+   *
+   * @param {any} product the product
+   * @param {any} candidate the candidate
+   * @returns {number} the score, 0 when nothing is shared
+   */
+  private score(product: any, candidate: any): number {
+    let score = 0;
+
+    score += WEIGHTS.category * this.shared(product.categories, candidate.categories);
+    score += WEIGHTS.tag * this.shared(product.tags, candidate.tags);
+
+    if (product.category && String(product.category) === String(candidate.category)) {
+      score += WEIGHTS.mainCategory;
+    }
+
+    if (
+      product.brand &&
+      String(product.brand).toLowerCase() === String(candidate.brand || "").toLowerCase()
+    ) {
+      score += WEIGHTS.brand;
+    }
+
+    const colors = this.colors(candidate);
+    if ([...this.colors(product)].some((color) => colors.has(color))) {
+      score += WEIGHTS.color;
+    }
+
+    // Same price band within 50%, close band within 150%
+    const prices = [Number(product.prices?.price), Number(candidate.prices?.price)];
+    if (prices.every((price) => price > 0)) {
+      const ratio = Math.max(...prices) / Math.min(...prices);
+
+      if (ratio <= 1.5) score += WEIGHTS.price;
+      else if (ratio <= 2.5) score += WEIGHTS.price / 2;
+    }
+
+    return score;
+  }
+
+  /**
+   * Count the ids two lists share
+   *
+   * @param {Array<any>} first the first list
+   * @param {Array<any>} second the second list
+   * @returns {number} the number of shared ids
+   */
+  private shared(first: Array<any> = [], second: Array<any> = []): number {
+    const ids = new Set(first.map((id) => String(id)));
+
+    return new Set(second.map((id) => String(id)).filter((id) => ids.has(id))).size;
+  }
+
+  /**
+   * Get the lowercase colors of a product: its english color and the LD
+   * colors of its variants
+   *
+   * @param {any} product the product
+   * @returns {Set<string>} the colors
+   */
+  private colors(product: any): Set<string> {
+    return new Set(
+      [
+        product.translations?.color?.en,
+        ...(product.variants || []).map((variant: any) => variant.ld_color),
+      ]
+        .filter((color) => !!color)
+        .map((color) => String(color).trim().toLowerCase())
+    );
+  }
+}
+
+const productSimilarityService = new ProductSimilarityService();
+export default productSimilarityService;
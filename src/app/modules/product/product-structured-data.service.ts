@@ -0,0 +1,254 @@
+import config from "../../../config/environment";
+import Product from "./product.model";
+import productCurrencyService from "./product-currency.service";
+import { publishedFilter } from "../../utils/helpers.util";
+
+// schema.org availability of the offers
+const IN_STOCK = "https://schema.org/InStock";
+const OUT_OF_STOCK = "https://schema.org/OutOfStock";
+
+/**
+ * @author Valentin Magde <valentinmagde@gmail.com>
+ * @since 2026-10-19
+ *
+ * Class ProductStructuredDataService
+ */
+class ProductStructuredDataService {
+  /**
+   * Build the schema.org Product JSON-LD document of a published product,
+   * with its texts in the given language: one offer per variant (one for
+   * the product without variants) with its price, availability and end of
+   * promotion, the aggregate rating of the reviews and the GTIN of the
+   * barcode. A former slug gives a redirect hint
+   * ({ redirect: { status: 301, slug } }) to the current slug.
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {any} match the product to find ({ _id } or { slug })
+   * @param {string} lang the language of the texts
+   * @param {string} currency the currency of the prices
+   * @return {Promise<unknown>} the JSON-LD document, "INVALID_CURRENCY"
+   *                            when there is no exchange rate for the
+   *                            currency, null when the product is not found
+   */
+  public getStructuredData(
+    match: { _id: string } | { slug: string },
+    lang: string,
+    currency?: string
+  ): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          const rate: any = await productCurrencyService.getRate(currency);
+          if (rate === null) return resolve("INVALID_CURRENCY");
+
+          const filter = { ...publishedFilter(), deleted_at: null };
+          const product: any = await Product.findOne({ ...match, ...filter }, { reviews: 0 })
+            .populate("category", "name")
+            .lean();
+
+          if (!product) {
+            // An empty slug would match every product without former slugs
+            const renamed: any =
+              "slug" in match && match.slug
+                ? await Product.findOne(
+                    { previous_slugs: match.slug, ...filter },
+                    { slug: 1 }
+                  ).lean()
+                : null;
+
+            return resolve(
+              renamed ? { redirect: { status: 301, slug: renamed.slug } } : null
+            );
+          }
+
+          resolve(
+            this.toJsonLd(
+              productCurrencyService.convertProduct(product, rate, currency),
+              lang
+            )
+          );
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /*-----------------------------------------------------------------------------------------------
+  //  PRIVATE METHODS
+  -----------------------------------------------------------------------------------------------*/
+  /**
+   * Build the JSON-LD document of a product with converted prices
+   *
+   * @param {any} product the product
+   * @param {string} lang the language of the texts
+   * @returns {any} the JSON-LD document
+   */
+  private toJsonLd(product: any, lang: string): any {
+    const url = `${String(config.storeUrl).replace(/\/+$/, "")}/shop/${product._id}`;
+    const variants: any[] = product.variants || [];
+
+    const offers = variants.length
+      ? variants.map((variant) =>
+          this.toOffer(
+            {
+              sku: variant.sku,
+              gtin: variant.barcode,
+              price: this.priceOf(
+                variant.price,
+                variant.original_price,
+                product.prices?.price,
+                product.prices?.original_price
+              ),
+              stock: (Number(variant.quantity) || 0) - (Number(variant.reserved) || 0),
+              promotional: variant.promotional,
+              date_to_promo: variant.date_to_promo,
+            },
+            product.currency,
+            url
+          )
+        )
+      : [
+          this.toOffer(
+            {
+              sku: product.sku,
+              gtin: product.barcode,
+              price: this.priceOf(product.prices?.price, product.prices?.original_price),
+              stock:
+                (Number(product.current_stock) || 0) -
+                (Number(product.reserved_stock) || 0),
+              promotional: product.promotional,
+              date_to_promo: product.date_to_promo,
+            },
+            product.currency,
+            url
+          ),
+        ];
+
+    const images = [
+      ...(product.image || []),
+      ...variants.map((variant) => variant.image),
+    ].filter((image, index, list) => !!image && list.indexOf(image) === index);
+
+    return this.compact({
+      "@context": "https://schema.org/",
+      "@type": "Product",
+      "@id": url,
+      url,
+      name: this.localize(product.title, lang),
+      description: this.toText(
+        this.localize(product.description, lang) ||
+          this.localize(product.short_description, lang)
+      ),
+      image: images.length ? images : undefined,
+      sku: product.sku,
+      gtin: product.barcode,
+      brand: product.brand ? { "@type": "Brand", name: product.brand } : undefined,
+      category: this.localize(product.category?.name, lang),
+      color: this.localize(product.translations?.color, lang),
+      material: this.localize(product.translations?.material, lang),
+      aggregateRating:
+        Number(product.num_reviews) > 0
+          ? {
+              "@type": "AggregateRating",
+              ratingValue: Number(product.rating) || 0,
+              reviewCount: Number(product.num_reviews),
+              bestRating: 5,
+              worstRating: 1,
+            }
+          : undefined,
+      offers,
+    });
+  }
+
+  /**
+   * Build an offer. The end of a running promotion is the date until
+   * which its price is valid.
+   *
+   * @param {any} item the offered item ({ sku, gtin, price, stock,
+   *                   promotional, date_to_promo })
+   * @param {string} currency the currency of the price
+   * @param {string} url the product page url
+   * @returns {any} the offer
+   */
+  private toOffer(item: any, currency: string, url: string): any {
+    const promoEnd = item.date_to_promo ? new Date(item.date_to_promo) : null;
+
+    return this.compact({
+      "@type": "Offer",
+      url,
+      sku: item.sku,
+      gtin: item.gtin,
+      price: item.price,
+      priceCurrency: currency,
+      priceValidUntil:
+        item.promotional && promoEnd && promoEnd.getTime() > Date.now()
+          ? promoEnd.toISOString().slice(0, 10)
+          : undefined,
+      availability: item.stock > 0 ? IN_STOCK : OUT_OF_STOCK,
+      itemCondition: "https://schema.org/NewCondition",
+    });
+  }
+
+  /**
+   * Get the price of an offer: the first positive of the prices, as the
+   * storefront uses the original price when a price is 0
+   *
+   * @param {Array<any>} prices the prices, by order of preference
+   * @returns {number|undefined} the price, undefined when none is positive
+   */
+  private priceOf(...prices: Array<any>): number | undefined {
+    const price = prices.find((value) => Number(value) > 0);
+
+    return price === undefined ? undefined : Number(price);
+  }
+
+  /**
+   * Get a translated value in the given language, english by default
+   *
+   * @param {any} value the translated value ({ en: "...", fr: "..." })
+   * @param {string} lang the language
+   * @returns {any} the localized value, undefined when there is none
+   */
+  private localize(value: any, lang: string): any {
+    if (value === undefined || value === null || value === "") return undefined;
+    if (typeof value !== "object") return value;
+
+    return value[lang] || value.en || undefined;
+  }
+
+  /**
+   * Turn an HTML description into plain text
+   *
+   * @param {string} html the description
+   * @returns {string|undefined} the text, undefined when empty
+   */
+  private toText(html?: string): string | undefined {
+    const text = String(html || "")
+      .replace(/<[^>]*>/g, " ")
+      .replace(/&nbsp;/g, " ")
+      .replace(/\s+/g, " ")
+      .trim();
+
+    return text || undefined;
+  }
+
+  /**
+   * Remove the empty properties of a JSON-LD node
+   *
+   * @param {any} node the node
+   * @returns {any} the node without undefined, null or empty string values
+   */
+  private compact(node: any): any {
+    return Object.fromEntries(
+      Object.entries(node).filter(
+        ([, value]) => value !== undefined && value !== null && value !== ""
+      )
+    );
+  }
+}
+
+const productStructuredDataService = new ProductStructuredDataService();
+export default productStructuredDataService;
@@ -0,0 +1,67 @@
+import mongoose from "mongoose";
+import DBManager from "../../../core/db";
+import Product from "./product.model";
+import productService from "./product.service";
+
+// Number of products whose variants are rewritten per bulk write.
+const BATCH_SIZE = 500;
+
+/**
+ * Convert the variants of the existing products to the typed variant
+ * schema. Products whose variants are already typed are skipped, so the
+ * migration can be run again safely.
+ *
+ * Usage: npm run migrate:variants
+ *
+ * @author Valentin Magde <valentinmagde@gmail.com>
+ * @since 2026-10-19
+ *
+ * @return {Promise<void>} the eventual completion or failure
+ */
+async function migrateVariants(): Promise<void> {
+  await new DBManager().asyncOnConnect();
+
+  const cursor = Product.find({ "variants.0": { $exists: true } }, { variants: 1 })
+    .lean()
+    .cursor();
+
+  let ops: any[] = [];
+  let scanned = 0;
+  let migrated = 0;
+
+  for await (const product of cursor) {
+    scanned += 1;
+
+    const variants: any[] = product.variants || [];
+    if (variants.every((variant) => Array.isArray(variant.attributes))) continue;
+
+    ops.push({
+      updateOne: {
+        filter: { _id: product._id },
+        update: { $set: { variants: productService.normalizeVariants(variants) } },
+        // Keep updated_at untouched, the product itself did not change
+        timestamps: false,
+      },
+    });
+
+    if (ops.length === BATCH_SIZE) {
+      await Product.bulkWrite(ops);
+      migrated += ops.length;
+      ops = [];
+    }
+  }
+
+  if (ops.length) {
+    await Product.bulkWrite(ops);
+    migrated += ops.length;
+  }
+
+  console.log(`[VariantMigration] ${migrated} of ${scanned} products migrated`);
+}
+
+migrateVariants()
+  .catch((error) => {
+    console.error("[VariantMigration] failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
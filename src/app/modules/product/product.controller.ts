@@ -1,5 +1,18 @@
 import { Request, Response } from "express";
 import productService from "./product.service";
+import productRevisionService from "./product-revision.service";
+import productSearchService from "./product-search.service";
+import productImportService from "./product-import.service";
+import productExportService from "./product-export.service";
+import stockReservationService from "./stock-reservation.service";
+import inventoryMovementService from "./inventory-movement.service";
+import orderStockService from "./order-stock.service";
+import stockAlertService from "./stock-alert.service";
+import stockSubscriptionService from "./stock-subscription.service";
+import productCompareService from "./product-compare.service";
+import coPurchaseService from "./co-purchase.service";
+import productSimilarityService from "./product-similarity.service";
+import productStructuredDataService from "./product-structured-data.service";
 import i18n from "../../../core/i18n";
 import customResponse from "../../utils/custom-response.util";
 import statusCode from "../../utils/status-code.util";
@@ -44,6 +57,20 @@ class ProductController {
     productService
       .showProductsByFilter(req)
       .then((result) => {
+        if (result === "INVALID_CURSOR" || result === "INVALID_CURRENCY") {
+          const response = {
+            status: statusCode.httpBadRequest,
+            errNo: errorNumbers.ivalidResource,
+            errMsg: i18n.__(
+              result === "INVALID_CURSOR"
+                ? "product.invalidCursor"
+                : "product.invalidCurrency"
+            ),
+          };
+
+          return customResponse.error(response, res);
+        }
+
         const response = {
           status: statusCode.httpOk,
           data: result,
@@ -162,11 +189,21 @@ class ProductController {
     req: Request,
     res: Response
   ): Promise<void> {
-    const { category, title, slug }: any = req.query;
+    const { category, title, slug, currency }: any = req.query;
 
     productService
-      .getShowingStoreProducts(category, title, slug)
+      .getShowingStoreProducts(category, title, slug, currency)
       .then((result) => {
+        if (result === "INVALID_CURRENCY") {
+          const response = {
+            status: statusCode.httpBadRequest,
+            errNo: errorNumbers.ivalidResource,
+            errMsg: i18n.__("product.invalidCurrency"),
+          };
+
+          return customResponse.error(response, res);
+        }
+
         const response = {
           status: statusCode.httpOk,
           data: result,
@@ -231,7 +268,13 @@ class ProductController {
     const validationRule = {
       sku: "required|string",
       title: "required",
-      prices: "required",
+      prices: "required_unless:type,bundle",
+      type: "in:simple,bundle",
+      bundle_components: "required_if:type,bundle|array",
+      "bundle_components.*.product": "required|string",
+      "bundle_components.*.quantity": "integer|min:1",
+      "bundle_pricing.mode": "in:fixed,percentage",
+      "bundle_pricing.value": "numeric|min:0",
     };
 
     await validator
@@ -252,6 +295,16 @@ class ProductController {
             productService
               .store(req.body)
               .then((result) => {
+                if (result === "INVALID_BUNDLE") {
+                  const response = {
+                    status: statusCode.httpBadRequest,
+                    errNo: errorNumbers.ivalidResource,
+                    errMsg: i18n.__("product.invalidBundle"),
+                  };
+
+                  return customResponse.error(response, res);
+                }
+
                 const response = {
                   status: statusCode.httpCreated,
                   data: result,
@@ -434,6 +487,159 @@ class ProductController {
       });
   }
 
+  /**
+   * Import products from a CSV or NDJSON file
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {Request} req the http request
+   * @param {Response} res the http response
+   *
+   * @return {Promise<void>} the eventual completion or failure
+   */
+  public async importProducts(req: Request, res: Response): Promise<void> {
+    const validationRule = {
+      format: "required|in:csv,ndjson",
+      content: "required|string",
+    };
+
+    await validator
+      .validator(
+        req.body,
+        validationRule,
+        {},
+        (err: Errors, status: boolean) => {
+          if (!status) {
+            const response = {
+              status: statusCode.httpPreconditionFailed,
+              errNo: errorNumbers.validator,
+              errMsg: err.errors,
+            };
+
+            return customResponse.error(response, res);
+          } else {
+            // Nothing is written unless dry_run is explicitly false
+            const dryRun = ![false, "false"].includes(req.body.dry_run);
+
+            productImportService
+              .import(
+                req.body.content,
+                req.body.format,
+                req.body.mapping,
+                dryRun,
+                req.user
+              )
+              .then((result) => {
+                const response = {
+                  status: statusCode.httpOk,
+                  data: result,
+                };
+
+                return customResponse.success(response, res);
+              })
+              .catch((error) => {
+                const response = {
+                  status: error?.status || statusCode.httpInternalServerError,
+                  errNo: errorNumbers.genericError,
+                  errMsg: error?.message || error,
+                };
+
+                return customResponse.error(response, res);
+              });
+          }
+        }
+      )
+      .catch((error) => {
+        const response = {
+          status: error?.status || statusCode.httpInternalServerError,
+          errNo: errorNumbers.genericError,
+          errMsg: error?.message || error,
+        };
+
+        return customResponse.error(response, res);
+      });
+  }
+
+  /**
+   * Export the products matching a listing filter as CSV or NDJSON
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {Request} req the http request
+   * @param {Response} res the http response
+   *
+   * @return {Promise<void>} the eventual completion or failure
+   */
+  public async exportProducts(req: Request, res: Response): Promise<void> {
+    const validationRule = {
+      format: "in:csv,ndjson",
+      rows: "in:product,variant",
+    };
+
+    await validator
+      .validator(
+        req.query,
+        validationRule,
+        {},
+        (err: Errors, status: boolean) => {
+          if (!status) {
+            const response = {
+              status: statusCode.httpPreconditionFailed,
+              errNo: errorNumbers.validator,
+              errMsg: err.errors,
+            };
+
+            return customResponse.error(response, res);
+          } else {
+            const format = req.query.format === "ndjson" ? "ndjson" : "csv";
+            const date = new Date().toISOString().slice(0, 10);
+
+            res.setHeader(
+              "Content-Type",
+              format === "csv"
+                ? "text/csv; charset=utf-8"
+                : "application/x-ndjson; charset=utf-8"
+            );
+            res.setHeader(
+              "Content-Disposition",
+              `attachment; filename="products-${date}.${format}"`
+            );
+
+            productExportService
+              .export(req, format, req.query.rows === "variant", res)
+              .then(() => res.end())
+              .catch((error) => {
+                // Once streaming has started the status can't be changed
+                if (res.headersSent) return res.destroy(error);
+
+                // Drop the export headers so the error goes out as JSON
+                res.removeHeader("Content-Type");
+                res.removeHeader("Content-Disposition");
+
+                const response = {
+                  status: error?.status || statusCode.httpInternalServerError,
+                  errNo: errorNumbers.genericError,
+                  errMsg: error?.message || error,
+                };
+
+                return customResponse.error(response, res);
+              });
+          }
+        }
+      )
+      .catch((error) => {
+        const response = {
+          status: error?.status || statusCode.httpInternalServerError,
+          errNo: errorNumbers.genericError,
+          errMsg: error?.message || error,
+        };
+
+        return customResponse.error(response, res);
+      });
+  }
+
   /**
    * Get product details handler
    *
@@ -450,9 +656,17 @@ class ProductController {
 
     if (checkObjectId(productId)) {
       productService
-        .showProductById(productId)
+        .showProductById(productId, req.query.currency as string)
         .then((result) => {
-          if (result === null || result === undefined) {
+          if (result === "INVALID_CURRENCY") {
+            const response = {
+              status: statusCode.httpBadRequest,
+              errNo: errorNumbers.ivalidResource,
+              errMsg: i18n.__("product.invalidCurrency"),
+            };
+
+            return customResponse.error(response, res);
+          } else if (result === null || result === undefined) {
             const response = {
               status: statusCode.httpNotFound,
               errNo: errorNumbers.resourceNotFound,
@@ -501,12 +715,30 @@ class ProductController {
    * @return {Promise<void>} the eventual completion or failure
    */
   public async getProductBySlug(req: Request, res: Response): Promise<void> {
-    const productSlug = req.params.productSlug;
+    const productSlug = req.params.slug;
+
+    if (!productSlug) {
+      const response = {
+        status: statusCode.httpNotFound,
+        errNo: errorNumbers.resourceNotFound,
+        errMsg: i18n.__("product.productNotFound"),
+      };
+
+      return customResponse.error(response, res);
+    }
 
     productService
-      .getProductBySlug(productSlug)
+      .getProductBySlug(productSlug, req.query.currency as string)
       .then((result) => {
-        if (result === null || result === undefined) {
+        if (result === "INVALID_CURRENCY") {
+          const response = {
+            status: statusCode.httpBadRequest,
+            errNo: errorNumbers.ivalidResource,
+            errMsg: i18n.__("product.invalidCurrency"),
+          };
+
+          return customResponse.error(response, res);
+        } else if (result === null || result === undefined) {
           const response = {
             status: statusCode.httpNotFound,
             errNo: errorNumbers.resourceNotFound,
@@ -898,9 +1130,17 @@ class ProductController {
     // check if product id is valid
     if (checkObjectId(productId)) {
       productService
-        .update(productId, req.body)
+        .update(productId, req.body, req.user)
         .then((result) => {
-          if (result === null || result === undefined) {
+          if (result === "INVALID_BUNDLE") {
+            const response = {
+              status: statusCode.httpBadRequest,
+              errNo: errorNumbers.ivalidResource,
+              errMsg: i18n.__("product.invalidBundle"),
+            };
+
+            return customResponse.error(response, res);
+          } else if (result === null || result === undefined) {
             const response = {
               status: statusCode.httpNotFound,
               errNo: errorNumbers.resourceNotFound,
@@ -950,8 +1190,18 @@ class ProductController {
    */
   public async updateMany(req: Request, res: Response): Promise<void> {
     productService
-      .updateMany(req.body)
+      .updateMany(req.body, req.user)
       .then((result) => {
+        if (result === "INVALID_BUNDLE") {
+          const response = {
+            status: statusCode.httpBadRequest,
+            errNo: errorNumbers.ivalidResource,
+            errMsg: i18n.__("product.invalidBundle"),
+          };
+
+          return customResponse.error(response, res);
+        }
+
         const response = {
           status: statusCode.httpOk,
           data: result,
@@ -987,9 +1237,17 @@ class ProductController {
     // check if product id is valid
     if (checkObjectId(productId)) {
       productService
-        .patch(productId, req.body)
+        .patch(productId, req.body, req.user)
         .then((result) => {
-          if (result === null || result === undefined) {
+          if (result === "INVALID_BUNDLE") {
+            const response = {
+              status: statusCode.httpBadRequest,
+              errNo: errorNumbers.ivalidResource,
+              errMsg: i18n.__("product.invalidBundle"),
+            };
+
+            return customResponse.error(response, res);
+          } else if (result === null || result === undefined) {
             const response = {
               status: statusCode.httpNotFound,
               errNo: errorNumbers.resourceNotFound,
@@ -1027,34 +1285,98 @@ class ProductController {
   }
 
   /**
-   * Delete a product by id
+   * Get the revisions of a product
    *
    * @author Valentin Magde <valentinmagde@gmail.com>
-   * @since 2023-08-01
+   * @since 2026-10-19
    *
    * @param {Request} req the http request
    * @param {Response} res the http response
    *
    * @return {Promise<void>} the eventual completion or failure
    */
-  public async delete(req: Request, res: Response): Promise<void> {
+  public async getRevisions(req: Request, res: Response): Promise<void> {
     const productId = req.params.productId;
+    const page: number = Number(req.query.page) || 1;
+    const pageSize: number = Number(req.query.perPage) || 20;
 
     if (checkObjectId(productId)) {
-      productService
-        .delete(productId)
+      productRevisionService
+        .getRevisions(productId, page, pageSize)
+        .then((result) => {
+          const response = {
+            status: statusCode.httpOk,
+            data: result,
+          };
+
+          return customResponse.success(response, res);
+        })
+        .catch((error) => {
+          const response = {
+            status: error?.status || statusCode.httpInternalServerError,
+            errNo: errorNumbers.genericError,
+            errMsg: error?.message || error,
+          };
+
+          return customResponse.error(response, res);
+        });
+    } else {
+      const response = {
+        status: statusCode.httpBadRequest,
+        errNo: errorNumbers.ivalidResource,
+        errMsg: i18n.__("product.invalidProductId"),
+      };
+
+      return customResponse.error(response, res);
+    }
+  }
+
+  /**
+   * Get a revision of a product
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {Request} req the http request
+   * @param {Response} res the http response
+   *
+   * @return {Promise<void>} the eventual completion or failure
+   */
+  public async getRevision(req: Request, res: Response): Promise<void> {
+    const productId = req.params.productId;
+    const revisionId = req.params.revisionId;
+
+    if (!checkObjectId(productId)) {
+      const response = {
+        status: statusCode.httpBadRequest,
+        errNo: errorNumbers.ivalidResource,
+        errMsg: i18n.__("product.invalidProductId"),
+      };
+
+      return customResponse.error(response, res);
+    } else if (!checkObjectId(revisionId)) {
+      const response = {
+        status: statusCode.httpBadRequest,
+        errNo: errorNumbers.ivalidResource,
+        errMsg: i18n.__("product.invalidRevisionId"),
+      };
+
+      return customResponse.error(response, res);
+    } else {
+      productRevisionService
+        .getRevision(productId, revisionId)
         .then((result) => {
           if (result === null || result === undefined) {
             const response = {
               status: statusCode.httpNotFound,
               errNo: errorNumbers.resourceNotFound,
-              errMsg: i18n.__("product.productNotFound"),
+              errMsg: i18n.__("product.revisionNotFound"),
             };
 
             return customResponse.error(response, res);
           } else {
             const response = {
-              status: statusCode.httpNoContent,
+              status: statusCode.httpOk,
               data: result,
             };
 
@@ -1070,49 +1392,1451 @@ class ProductController {
 
           return customResponse.error(response, res);
         });
-    } else {
-      const response = {
-        status: statusCode.httpBadRequest,
-        errNo: errorNumbers.ivalidResource,
-        errMsg: i18n.__("product.invalidProductId"),
-      };
-
-      return customResponse.error(response, res);
     }
   }
 
   /**
-   * Delete many products
+   * Diff two revisions of a product
    *
    * @author Valentin Magde <valentinmagde@gmail.com>
-   * @since 2024-07-21
+   * @since 2026-10-19
    *
    * @param {Request} req the http request
    * @param {Response} res the http response
    *
    * @return {Promise<void>} the eventual completion or failure
    */
-  public async deleteMany(req: Request, res: Response): Promise<void> {
-    const productIds = req.params.productIds.split(",");
-
-    productService
-      .deleteMany(productIds)
-      .then((result) => {
-        if (result === null || result === undefined) {
-          const response = {
-            status: statusCode.httpNotFound,
-            errNo: errorNumbers.resourceNotFound,
-            errMsg: i18n.__("product.productNotFound"),
-          };
+  public async diffRevisions(req: Request, res: Response): Promise<void> {
+    const productId = req.params.productId;
+    const from = (req.query.from as string) || "";
+    const to = (req.query.to as string) || "";
 
-          return customResponse.error(response, res);
-        } else {
-          const response = {
-            status: statusCode.httpNoContent,
-            data: result,
-          };
+    if (!checkObjectId(productId)) {
+      const response = {
+        status: statusCode.httpBadRequest,
+        errNo: errorNumbers.ivalidResource,
+        errMsg: i18n.__("product.invalidProductId"),
+      };
 
-          return customResponse.success(response, res);
+      return customResponse.error(response, res);
+    } else if (!checkObjectId(from) || (to && !checkObjectId(to))) {
+      const response = {
+        status: statusCode.httpBadRequest,
+        errNo: errorNumbers.ivalidResource,
+        errMsg: i18n.__("product.invalidRevisionId"),
+      };
+
+      return customResponse.error(response, res);
+    } else {
+      productRevisionService
+        .diff(productId, from, to || undefined)
+        .then((result) => {
+          if (result === "REVISION_NOT_FOUND") {
+            const response = {
+              status: statusCode.httpNotFound,
+              errNo: errorNumbers.resourceNotFound,
+              errMsg: i18n.__("product.revisionNotFound"),
+            };
+
+            return customResponse.error(response, res);
+          } else {
+            const response = {
+              status: statusCode.httpOk,
+              data: result,
+            };
+
+            return customResponse.success(response, res);
+          }
+        })
+        .catch((error) => {
+          const response = {
+            status: error?.status || statusCode.httpInternalServerError,
+            errNo: errorNumbers.genericError,
+            errMsg: error?.message || error,
+          };
+
+          return customResponse.error(response, res);
+        });
+    }
+  }
+
+  /**
+   * Restore a revision of a product
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {Request} req the http request
+   * @param {Response} res the http response
+   *
+   * @return {Promise<void>} the eventual completion or failure
+   */
+  public async restoreRevision(req: Request, res: Response): Promise<void> {
+    const productId = req.params.productId;
+    const revisionId = req.params.revisionId;
+
+    if (!checkObjectId(productId)) {
+      const response = {
+        status: statusCode.httpBadRequest,
+        errNo: errorNumbers.ivalidResource,
+        errMsg: i18n.__("product.invalidProductId"),
+      };
+
+      return customResponse.error(response, res);
+    } else if (!checkObjectId(revisionId)) {
+      const response = {
+        status: statusCode.httpBadRequest,
+        errNo: errorNumbers.ivalidResource,
+        errMsg: i18n.__("product.invalidRevisionId"),
+      };
+
+      return customResponse.error(response, res);
+    } else {
+      productService
+        .restoreRevision(productId, revisionId, req.user)
+        .then((result) => {
+          if (result === "REVISION_NOT_FOUND") {
+            const response = {
+              status: statusCode.httpNotFound,
+              errNo: errorNumbers.resourceNotFound,
+              errMsg: i18n.__("product.revisionNotFound"),
+            };
+
+            return customResponse.error(response, res);
+          } else if (result === "INVALID_BUNDLE") {
+            const response = {
+              status: statusCode.httpBadRequest,
+              errNo: errorNumbers.ivalidResource,
+              errMsg: i18n.__("product.invalidBundle"),
+            };
+
+            return customResponse.error(response, res);
+          } else if (result === null || result === undefined) {
+            const response = {
+              status: statusCode.httpNotFound,
+              errNo: errorNumbers.resourceNotFound,
+              errMsg: i18n.__("product.productNotFound"),
+            };
+
+            return customResponse.error(response, res);
+          } else {
+            const response = {
+              status: statusCode.httpOk,
+              data: result,
+            };
+
+            return customResponse.success(response, res);
+          }
+        })
+        .catch((error) => {
+          const response = {
+            status: error?.status || statusCode.httpInternalServerError,
+            errNo: errorNumbers.genericError,
+            errMsg: error?.message || error,
+          };
+
+          return customResponse.error(response, res);
+        });
+    }
+  }
+
+  /**
+   * Clone a product into a new hidden draft
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {Request} req the http request
+   * @param {Response} res the http response
+   *
+   * @return {Promise<void>} the eventual completion or failure
+   */
+  public async clone(req: Request, res: Response): Promise<void> {
+    const productId = req.params.productId;
+    const validationRule = {
+      slug: "string",
+      sku: "string",
+      status: "in:show,hide",
+      variants: "boolean",
+      images: "boolean",
+      reviews: "boolean",
+      relations: "boolean",
+      extras: "boolean",
+    };
+
+    if (!checkObjectId(productId)) {
+      const response = {
+        status: statusCode.httpBadRequest,
+        errNo: errorNumbers.ivalidResource,
+        errMsg: i18n.__("product.invalidProductId"),
+      };
+
+      return customResponse.error(response, res);
+    }
+
+    await validator
+      .validator(
+        req.body,
+        validationRule,
+        {},
+        (err: Errors, status: boolean) => {
+          if (!status) {
+            const response = {
+              status: statusCode.httpPreconditionFailed,
+              errNo: errorNumbers.validator,
+              errMsg: err.errors,
+            };
+
+            return customResponse.error(response, res);
+          } else {
+            productService
+              .clone(productId, req.body)
+              .then((result) => {
+                if (result === "INVALID_BUNDLE") {
+                  const response = {
+                    status: statusCode.httpBadRequest,
+                    errNo: errorNumbers.ivalidResource,
+                    errMsg: i18n.__("product.invalidBundle"),
+                  };
+
+                  return customResponse.error(response, res);
+                } else if (result === null || result === undefined) {
+                  const response = {
+                    status: statusCode.httpNotFound,
+                    errNo: errorNumbers.resourceNotFound,
+                    errMsg: i18n.__("product.productNotFound"),
+                  };
+
+                  return customResponse.error(response, res);
+                } else {
+                  const response = {
+                    status: statusCode.httpCreated,
+                    data: result,
+                  };
+
+                  return customResponse.success(response, res);
+                }
+              })
+              .catch((error) => {
+                const response = {
+                  status: error?.status || statusCode.httpInternalServerError,
+                  errNo: errorNumbers.genericError,
+                  errMsg: error?.message || error,
+                };
+
+                return customResponse.error(response, res);
+              });
+          }
+        }
+      )
+      .catch((error) => {
+        const response = {
+          status: error?.status || statusCode.httpInternalServerError,
+          errNo: errorNumbers.genericError,
+          errMsg: error?.message || error,
+        };
+
+        return customResponse.error(response, res);
+      });
+  }
+
+  /**
+   * Move a product to the trash
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2023-08-01
+   *
+   * @param {Request} req the http request
+   * @param {Response} res the http response
+   *
+   * @return {Promise<void>} the eventual completion or failure
+   */
+  public async delete(req: Request, res: Response): Promise<void> {
+    const productId = req.params.productId;
+
+    if (checkObjectId(productId)) {
+      productService
+        .delete(productId)
+        .then((result) => {
+          if (result === null || result === undefined) {
+            const response = {
+              status: statusCode.httpNotFound,
+              errNo: errorNumbers.resourceNotFound,
+              errMsg: i18n.__("product.productNotFound"),
+            };
+
+            return customResponse.error(response, res);
+          } else {
+            const response = {
+              status: statusCode.httpNoContent,
+              data: result,
+            };
+
+            return customResponse.success(response, res);
+          }
+        })
+        .catch((error) => {
+          const response = {
+            status: error?.status || statusCode.httpInternalServerError,
+            errNo: errorNumbers.genericError,
+            errMsg: error?.message || error,
+          };
+
+          return customResponse.error(response, res);
+        });
+    } else {
+      const response = {
+        status: statusCode.httpBadRequest,
+        errNo: errorNumbers.ivalidResource,
+        errMsg: i18n.__("product.invalidProductId"),
+      };
+
+      return customResponse.error(response, res);
+    }
+  }
+
+  /**
+   * Move many products to the trash
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2024-07-21
+   *
+   * @param {Request} req the http request
+   * @param {Response} res the http response
+   *
+   * @return {Promise<void>} the eventual completion or failure
+   */
+  public async deleteMany(req: Request, res: Response): Promise<void> {
+    const productIds = req.params.productIds.split(",");
+
+    productService
+      .deleteMany(productIds)
+      .then((result) => {
+        if (result === null || result === undefined) {
+          const response = {
+            status: statusCode.httpNotFound,
+            errNo: errorNumbers.resourceNotFound,
+            errMsg: i18n.__("product.productNotFound"),
+          };
+
+          return customResponse.error(response, res);
+        } else {
+          const response = {
+            status: statusCode.httpNoContent,
+            data: result,
+          };
+
+          return customResponse.success(response, res);
+        }
+      })
+      .catch((error) => {
+        const response = {
+          status: error?.status || statusCode.httpInternalServerError,
+          errNo: errorNumbers.genericError,
+          errMsg: error?.message || error,
+        };
+
+        return customResponse.error(response, res);
+      });
+  }
+
+  /**
+   * Get the products in the trash
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {Request} req the http request
+   * @param {Response} res the http response
+   *
+   * @return {Promise<void>} the eventual completion or failure
+   */
+  public async getTrash(req: Request, res: Response): Promise<void> {
+    const page: number = Number(req.query.page) || 1;
+    const pageSize: number = Number(req.query.perPage) || 12;
+
+    productService
+      .getTrash(page, pageSize)
+      .then((result) => {
+        const response = {
+          status: statusCode.httpOk,
+          data: result,
+        };
+
+        return customResponse.success(response, res);
+      })
+      .catch((error) => {
+        const response = {
+          status: error?.status || statusCode.httpInternalServerError,
+          errNo: errorNumbers.genericError,
+          errMsg: error?.message || error,
+        };
+
+        return customResponse.error(response, res);
+      });
+  }
+
+  /**
+   * Rebuild the product search index
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {Request} req the http request
+   * @param {Response} res the http response
+   *
+   * @return {Promise<void>} the eventual completion or failure
+   */
+  public async reindexSearch(req: Request, res: Response): Promise<void> {
+    productSearchService
+      .reindexAll()
+      .then((result) => {
+        const response = {
+          status: statusCode.httpOk,
+          data: result,
+        };
+
+        return customResponse.success(response, res);
+      })
+      .catch((error) => {
+        const response = {
+          status: error?.status || statusCode.httpInternalServerError,
+          errNo: errorNumbers.genericError,
+          errMsg: error?.message || error,
+        };
+
+        return customResponse.error(response, res);
+      });
+  }
+
+  /**
+   * Restore many products from the trash
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {Request} req the http request
+   * @param {Response} res the http response
+   *
+   * @return {Promise<void>} the eventual completion or failure
+   */
+  public async restoreFromTrash(req: Request, res: Response): Promise<void> {
+    const productIds = req.params.productIds.split(",");
+
+    productService
+      .restoreFromTrash(productIds)
+      .then((result) => {
+        const response = {
+          status: statusCode.httpOk,
+          data: result,
+        };
+
+        return customResponse.success(response, res);
+      })
+      .catch((error) => {
+        const response = {
+          status: error?.status || statusCode.httpInternalServerError,
+          errNo: errorNumbers.genericError,
+          errMsg: error?.message || error,
+        };
+
+        return customResponse.error(response, res);
+      });
+  }
+
+  /**
+   * Permanently delete many products from the trash
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {Request} req the http request
+   * @param {Response} res the http response
+   *
+   * @return {Promise<void>} the eventual completion or failure
+   */
+  public async purge(req: Request, res: Response): Promise<void> {
+    const productIds = req.params.productIds.split(",");
+
+    productService
+      .purge(productIds)
+      .then((result) => {
+        const response = {
+          status: statusCode.httpNoContent,
+          data: result,
+        };
+
+        return customResponse.success(response, res);
+      })
+      .catch((error) => {
+        const response = {
+          status: error?.status || statusCode.httpInternalServerError,
+          errNo: errorNumbers.genericError,
+          errMsg: error?.message || error,
+        };
+
+        return customResponse.error(response, res);
+      });
+  }
+
+  /**
+   * Hold stock for a cart or an order
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {Request} req the http request
+   * @param {Response} res the http response
+   *
+   * @return {Promise<void>} the eventual completion or failure
+   */
+  public async reserveStock(req: Request, res: Response): Promise<void> {
+    const validationRule = {
+      reference: "required|string",
+      items: "required|array",
+      "items.*.product": "required|string",
+      "items.*.variant_sku": "string",
+      "items.*.quantity": "required|integer|min:1",
+      ttl: "integer|min:60|max:86400",
+    };
+
+    await validator
+      .validator(
+        req.body,
+        validationRule,
+        {},
+        (err: Errors, status: boolean) => {
+          if (!status) {
+            const response = {
+              status: statusCode.httpPreconditionFailed,
+              errNo: errorNumbers.validator,
+              errMsg: err.errors,
+            };
+
+            return customResponse.error(response, res);
+          } else if (
+            !req.body.items.every((item: any) => checkObjectId(item.product))
+          ) {
+            const response = {
+              status: statusCode.httpBadRequest,
+              errNo: errorNumbers.ivalidResource,
+              errMsg: i18n.__("product.invalidProductId"),
+            };
+
+            return customResponse.error(response, res);
+          } else {
+            const items = req.body.items.map((item: any) => ({
+              product: item.product,
+              variant_sku: item.variant_sku,
+              quantity: Number(item.quantity),
+            }));
+
+            stockReservationService
+              .reserve(req.body.reference, items, Number(req.body.ttl) || undefined)
+              .then((result) => {
+                if (result === "INSUFFICIENT_STOCK") {
+                  const response = {
+                    status: statusCode.httpConflict,
+                    errNo: errorNumbers.ivalidResource,
+                    errMsg: i18n.__("product.insufficientStock"),
+                  };
+
+                  return customResponse.error(response, res);
+                } else if (result === "INVALID_ITEMS") {
+                  const response = {
+                    status: statusCode.httpBadRequest,
+                    errNo: errorNumbers.ivalidResource,
+                    errMsg: i18n.__("product.invalidReservationItems"),
+                  };
+
+                  return customResponse.error(response, res);
+                }
+
+                const response = {
+                  status: statusCode.httpCreated,
+                  data: result,
+                };
+
+                return customResponse.success(response, res);
+              })
+              .catch((error) => {
+                const response = {
+                  status: error?.status || statusCode.httpInternalServerError,
+                  errNo: errorNumbers.genericError,
+                  errMsg: error?.message || error,
+                };
+
+                return customResponse.error(response, res);
+              });
+          }
+        }
+      )
+      .catch((error) => {
+        const response = {
+          status: error?.status || statusCode.httpInternalServerError,
+          errNo: errorNumbers.genericError,
+          errMsg: error?.message || error,
+        };
+
+        return customResponse.error(response, res);
+      });
+  }
+
+  /**
+   * Commit a stock reservation
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {Request} req the http request
+   * @param {Response} res the http response
+   *
+   * @return {Promise<void>} the eventual completion or failure
+   */
+  public async commitReservation(req: Request, res: Response): Promise<void> {
+    const reservationId = req.params.reservationId;
+
+    if (checkObjectId(reservationId)) {
+      stockReservationService
+        .commit(reservationId)
+        .then((result) => {
+          if (result === "RESERVATION_NOT_FOUND") {
+            const response = {
+              status: statusCode.httpNotFound,
+              errNo: errorNumbers.resourceNotFound,
+              errMsg: i18n.__("product.reservationNotFound"),
+            };
+
+            return customResponse.error(response, res);
+          } else if (result === "RESERVATION_NOT_ACTIVE") {
+            const response = {
+              status: statusCode.httpConflict,
+              errNo: errorNumbers.ivalidResource,
+              errMsg: i18n.__("product.reservationNotActive"),
+            };
+
+            return customResponse.error(response, res);
+          } else {
+            const response = {
+              status: statusCode.httpOk,
+              data: result,
+            };
+
+            return customResponse.success(response, res);
+          }
+        })
+        .catch((error) => {
+          const response = {
+            status: error?.status || statusCode.httpInternalServerError,
+            errNo: errorNumbers.genericError,
+            errMsg: error?.message || error,
+          };
+
+          return customResponse.error(response, res);
+        });
+    } else {
+      const response = {
+        status: statusCode.httpBadRequest,
+        errNo: errorNumbers.ivalidResource,
+        errMsg: i18n.__("product.invalidReservationId"),
+      };
+
+      return customResponse.error(response, res);
+    }
+  }
+
+  /**
+   * Release a stock reservation
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {Request} req the http request
+   * @param {Response} res the http response
+   *
+   * @return {Promise<void>} the eventual completion or failure
+   */
+  public async releaseReservation(req: Request, res: Response): Promise<void> {
+    const reservationId = req.params.reservationId;
+
+    if (checkObjectId(reservationId)) {
+      stockReservationService
+        .release(reservationId)
+        .then((result) => {
+          if (result === "RESERVATION_NOT_FOUND") {
+            const response = {
+              status: statusCode.httpNotFound,
+              errNo: errorNumbers.resourceNotFound,
+              errMsg: i18n.__("product.reservationNotFound"),
+            };
+
+            return customResponse.error(response, res);
+          } else if (result === "RESERVATION_NOT_ACTIVE") {
+            const response = {
+              status: statusCode.httpConflict,
+              errNo: errorNumbers.ivalidResource,
+              errMsg: i18n.__("product.reservationNotActive"),
+            };
+
+            return customResponse.error(response, res);
+          } else {
+            const response = {
+              status: statusCode.httpOk,
+              data: result,
+            };
+
+            return customResponse.success(response, res);
+          }
+        })
+        .catch((error) => {
+          const response = {
+            status: error?.status || statusCode.httpInternalServerError,
+            errNo: errorNumbers.genericError,
+            errMsg: error?.message || error,
+          };
+
+          return customResponse.error(response, res);
+        });
+    } else {
+      const response = {
+        status: statusCode.httpBadRequest,
+        errNo: errorNumbers.ivalidResource,
+        errMsg: i18n.__("product.invalidReservationId"),
+      };
+
+      return customResponse.error(response, res);
+    }
+  }
+
+  /**
+   * Get the available stock of a product and of its variants
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {Request} req the http request
+   * @param {Response} res the http response
+   *
+   * @return {Promise<void>} the eventual completion or failure
+   */
+  public async getAvailability(req: Request, res: Response): Promise<void> {
+    const productId = req.params.productId;
+
+    if (checkObjectId(productId)) {
+      stockReservationService
+        .getAvailability(productId)
+        .then((result) => {
+          if (result === null || result === undefined) {
+            const response = {
+              status: statusCode.httpNotFound,
+              errNo: errorNumbers.resourceNotFound,
+              errMsg: i18n.__("product.productNotFound"),
+            };
+
+            return customResponse.error(response, res);
+          } else {
+            const response = {
+              status: statusCode.httpOk,
+              data: result,
+            };
+
+            return customResponse.success(response, res);
+          }
+        })
+        .catch((error) => {
+          const response = {
+            status: error?.status || statusCode.httpInternalServerError,
+            errNo: errorNumbers.genericError,
+            errMsg: error?.message || error,
+          };
+
+          return customResponse.error(response, res);
+        });
+    } else {
+      const response = {
+        status: statusCode.httpBadRequest,
+        errNo: errorNumbers.ivalidResource,
+        errMsg: i18n.__("product.invalidProductId"),
+      };
+
+      return customResponse.error(response, res);
+    }
+  }
+
+  /**
+   * Get the products frequently bought with a product
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {Request} req the http request
+   * @param {Response} res the http response
+   *
+   * @return {Promise<void>} the eventual completion or failure
+   */
+  public async getFrequentlyBoughtTogether(
+    req: Request,
+    res: Response
+  ): Promise<void> {
+    const productId = req.params.productId;
+    const limit: number = Math.min(Number(req.query.limit) || 8, 20);
+    const withCrossSells = req.query.fallback !== "false";
+
+    if (checkObjectId(productId)) {
+      coPurchaseService
+        .getFrequentlyBoughtTogether(
+          productId,
+          limit,
+          withCrossSells,
+          req.query.currency as string
+        )
+        .then((result) => {
+          if (result === "INVALID_CURRENCY") {
+            const response = {
+              status: statusCode.httpBadRequest,
+              errNo: errorNumbers.ivalidResource,
+              errMsg: i18n.__("product.invalidCurrency"),
+            };
+
+            return customResponse.error(response, res);
+          } else if (result === null || result === undefined) {
+            const response = {
+              status: statusCode.httpNotFound,
+              errNo: errorNumbers.resourceNotFound,
+              errMsg: i18n.__("product.productNotFound"),
+            };
+
+            return customResponse.error(response, res);
+          } else {
+            const response = {
+              status: statusCode.httpOk,
+              data: result,
+            };
+
+            return customResponse.success(response, res);
+          }
+        })
+        .catch((error) => {
+          const response = {
+            status: error?.status || statusCode.httpInternalServerError,
+            errNo: errorNumbers.genericError,
+            errMsg: error?.message || error,
+          };
+
+          return customResponse.error(response, res);
+        });
+    } else {
+      const response = {
+        status: statusCode.httpBadRequest,
+        errNo: errorNumbers.ivalidResource,
+        errMsg: i18n.__("product.invalidProductId"),
+      };
+
+      return customResponse.error(response, res);
+    }
+  }
+
+  /**
+   * Get the related products of a product, curated then computed
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {Request} req the http request
+   * @param {Response} res the http response
+   *
+   * @return {Promise<void>} the eventual completion or failure
+   */
+  public async getRelated(req: Request, res: Response): Promise<void> {
+    const productId = req.params.productId;
+    const limit: number = Math.min(Number(req.query.limit) || 12, 24);
+
+    if (checkObjectId(productId)) {
+      productSimilarityService
+        .getRelated(productId, limit, req.query.currency as string)
+        .then((result) => {
+          if (result === "INVALID_CURRENCY") {
+            const response = {
+              status: statusCode.httpBadRequest,
+              errNo: errorNumbers.ivalidResource,
+              errMsg: i18n.__("product.invalidCurrency"),
+            };
+
+            return customResponse.error(response, res);
+          } else if (result === null || result === undefined) {
+            const response = {
+              status: statusCode.httpNotFound,
+              errNo: errorNumbers.resourceNotFound,
+              errMsg: i18n.__("product.productNotFound"),
+            };
+
+            return customResponse.error(response, res);
+          } else {
+            const response = {
+              status: statusCode.httpOk,
+              data: result,
+            };
+
+            return customResponse.success(response, res);
+          }
+        })
+        .catch((error) => {
+          const response = {
+            status: error?.status || statusCode.httpInternalServerError,
+            errNo: errorNumbers.genericError,
+            errMsg: error?.message || error,
+          };
+
+          return customResponse.error(response, res);
+        });
+    } else {
+      const response = {
+        status: statusCode.httpBadRequest,
+        errNo: errorNumbers.ivalidResource,
+        errMsg: i18n.__("product.invalidProductId"),
+      };
+
+      return customResponse.error(response, res);
+    }
+  }
+
+  /**
+   * Get the schema.org JSON-LD structured data of a product
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {Request} req the http request
+   * @param {Response} res the http response
+   *
+   * @return {Promise<void>} the eventual completion or failure
+   */
+  public async getStructuredData(req: Request, res: Response): Promise<void> {
+    const productId = req.params.productId;
+
+    if (checkObjectId(productId)) {
+      productStructuredDataService
+        .getStructuredData(
+          { _id: productId },
+          req.params.lang,
+          req.query.currency as string
+        )
+        .then((result) => {
+          if (result === "INVALID_CURRENCY") {
+            const response = {
+              status: statusCode.httpBadRequest,
+              errNo: errorNumbers.ivalidResource,
+              errMsg: i18n.__("product.invalidCurrency"),
+            };
+
+            return customResponse.error(response, res);
+          } else if (result === null || result === undefined) {
+            const response = {
+              status: statusCode.httpNotFound,
+              errNo: errorNumbers.resourceNotFound,
+              errMsg: i18n.__("product.productNotFound"),
+            };
+
+            return customResponse.error(response, res);
+          } else {
+            const response = {
+              status: statusCode.httpOk,
+              data: result,
+            };
+
+            return customResponse.success(response, res);
+          }
+        })
+        .catch((error) => {
+          const response = {
+            status: error?.status || statusCode.httpInternalServerError,
+            errNo: errorNumbers.genericError,
+            errMsg: error?.message || error,
+          };
+
+          return customResponse.error(response, res);
+        });
+    } else {
+      const response = {
+        status: statusCode.httpBadRequest,
+        errNo: errorNumbers.ivalidResource,
+        errMsg: i18n.__("product.invalidProductId"),
+      };
+
+      return customResponse.error(response, res);
+    }
+  }
+
+  /**
+   * Get the schema.org JSON-LD structured data of a product by slug
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {Request} req the http request
+   * @param {Response} res the http response
+   *
+   * @return {Promise<void>} the eventual completion or failure
+   */
+  public async getStructuredDataBySlug(req: Request, res: Response): Promise<void> {
+    productStructuredDataService
+      .getStructuredData(
+        { slug: req.params.slug },
+        req.params.lang,
+        req.query.currency as string
+      )
+      .then((result) => {
+        if (result === "INVALID_CURRENCY") {
+          const response = {
+            status: statusCode.httpBadRequest,
+            errNo: errorNumbers.ivalidResource,
+            errMsg: i18n.__("product.invalidCurrency"),
+          };
+
+          return customResponse.error(response, res);
+        } else if (result === null || result === undefined) {
+          const response = {
+            status: statusCode.httpNotFound,
+            errNo: errorNumbers.resourceNotFound,
+            errMsg: i18n.__("product.productNotFound"),
+          };
+
+          return customResponse.error(response, res);
+        } else {
+          const response = {
+            status: statusCode.httpOk,
+            data: result,
+          };
+
+          return customResponse.success(response, res);
+        }
+      })
+      .catch((error) => {
+        const response = {
+          status: error?.status || statusCode.httpInternalServerError,
+          errNo: errorNumbers.genericError,
+          errMsg: error?.message || error,
+        };
+
+        return customResponse.error(response, res);
+      });
+  }
+
+  /**
+   * Get the stock movements of a product
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {Request} req the http request
+   * @param {Response} res the http response
+   *
+   * @return {Promise<void>} the eventual completion or failure
+   */
+  public async getInventoryMovements(req: Request, res: Response): Promise<void> {
+    const productId = req.params.productId;
+    const page: number = Number(req.query.page) || 1;
+    const pageSize: number = Number(req.query.perPage) || 20;
+    const source = req.query.source ? String(req.query.source) : undefined;
+
+    if (checkObjectId(productId)) {
+      inventoryMovementService
+        .getMovements(productId, page, pageSize, source)
+        .then((result) => {
+          const response = {
+            status: statusCode.httpOk,
+            data: result,
+          };
+
+          return customResponse.success(response, res);
+        })
+        .catch((error) => {
+          const response = {
+            status: error?.status || statusCode.httpInternalServerError,
+            errNo: errorNumbers.genericError,
+            errMsg: error?.message || error,
+          };
+
+          return customResponse.error(response, res);
+        });
+    } else {
+      const response = {
+        status: statusCode.httpBadRequest,
+        errNo: errorNumbers.ivalidResource,
+        errMsg: i18n.__("product.invalidProductId"),
+      };
+
+      return customResponse.error(response, res);
+    }
+  }
+
+  /**
+   * Adjust the stock of a product or of a variant (manual correction or
+   * customer return)
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {Request} req the http request
+   * @param {Response} res the http response
+   *
+   * @return {Promise<void>} the eventual completion or failure
+   */
+  public async adjustStock(req: Request, res: Response): Promise<void> {
+    const productId = req.params.productId;
+    const validationRule = {
+      delta: "required|integer|not_in:0",
+      variant_sku: "string",
+      source: "required|in:manual,return",
+      reason: "string",
+    };
+
+    if (!checkObjectId(productId)) {
+      const response = {
+        status: statusCode.httpBadRequest,
+        errNo: errorNumbers.ivalidResource,
+        errMsg: i18n.__("product.invalidProductId"),
+      };
+
+      return customResponse.error(response, res);
+    }
+
+    await validator
+      .validator(
+        req.body,
+        validationRule,
+        {},
+        (err: Errors, status: boolean) => {
+          if (!status) {
+            const response = {
+              status: statusCode.httpPreconditionFailed,
+              errNo: errorNumbers.validator,
+              errMsg: err.errors,
+            };
+
+            return customResponse.error(response, res);
+          } else {
+            const variantSku = req.body.variant_sku;
+
+            inventoryMovementService
+              .adjust(
+                {
+                  product: productId,
+                  variant_sku: variantSku,
+                  delta: Number(req.body.delta),
+                  source: req.body.source,
+                  reason: req.body.reason,
+                  user: req.user,
+                },
+                {
+                  deleted_at: null,
+                  ...(variantSku && { "variants.sku": variantSku }),
+                }
+              )
+              .then((result) => {
+                if (result === null || result === undefined) {
+                  const response = {
+                    status: statusCode.httpNotFound,
+                    errNo: errorNumbers.resourceNotFound,
+                    errMsg: i18n.__("product.productNotFound"),
+                  };
+
+                  return customResponse.error(response, res);
+                } else {
+                  const response = {
+                    status: statusCode.httpOk,
+                    data: result,
+                  };
+
+                  return customResponse.success(response, res);
+                }
+              })
+              .catch((error) => {
+                const response = {
+                  status: error?.status || statusCode.httpInternalServerError,
+                  errNo: errorNumbers.genericError,
+                  errMsg: error?.message || error,
+                };
+
+                return customResponse.error(response, res);
+              });
+          }
+        }
+      )
+      .catch((error) => {
+        const response = {
+          status: error?.status || statusCode.httpInternalServerError,
+          errNo: errorNumbers.genericError,
+          errMsg: error?.message || error,
+        };
+
+        return customResponse.error(response, res);
+      });
+  }
+
+  /**
+   * Get the stock messages parked as dead letters
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {Request} req the http request
+   * @param {Response} res the http response
+   *
+   * @return {Promise<void>} the eventual completion or failure
+   */
+  public async getStockDeadLetters(req: Request, res: Response): Promise<void> {
+    const page: number = Number(req.query.page) || 1;
+    const pageSize: number = Number(req.query.perPage) || 20;
+    const status = req.query.status === "replayed" ? "replayed" : "parked";
+
+    orderStockService
+      .getDeadLetters(page, pageSize, status)
+      .then((result) => {
+        const response = {
+          status: statusCode.httpOk,
+          data: result,
+        };
+
+        return customResponse.success(response, res);
+      })
+      .catch((error) => {
+        const response = {
+          status: error?.status || statusCode.httpInternalServerError,
+          errNo: errorNumbers.genericError,
+          errMsg: error?.message || error,
+        };
+
+        return customResponse.error(response, res);
+      });
+  }
+
+  /**
+   * Replay the stock messages parked as dead letters
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {Request} req the http request
+   * @param {Response} res the http response
+   *
+   * @return {Promise<void>} the eventual completion or failure
+   */
+  public async replayStockDeadLetters(req: Request, res: Response): Promise<void> {
+    const ids: Array<string> = Array.isArray(req.body?.ids) ? req.body.ids : [];
+
+    if (ids.every((id) => checkObjectId(String(id)))) {
+      orderStockService
+        .replay(ids)
+        .then((result) => {
+          const response = {
+            status: statusCode.httpOk,
+            data: result,
+          };
+
+          return customResponse.success(response, res);
+        })
+        .catch((error) => {
+          const response = {
+            status: error?.status || statusCode.httpInternalServerError,
+            errNo: errorNumbers.genericError,
+            errMsg: error?.message || error,
+          };
+
+          return customResponse.error(response, res);
+        });
+    } else {
+      const response = {
+        status: statusCode.httpBadRequest,
+        errNo: errorNumbers.ivalidResource,
+        errMsg: i18n.__("product.invalidDeadLetterId"),
+      };
+
+      return customResponse.error(response, res);
+    }
+  }
+
+  /**
+   * Get the products whose stock is at or under their low stock threshold
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {Request} req the http request
+   * @param {Response} res the http response
+   *
+   * @return {Promise<void>} the eventual completion or failure
+   */
+  public async getLowStock(req: Request, res: Response): Promise<void> {
+    const page: number = Number(req.query.page) || 1;
+    const pageSize: number = Number(req.query.perPage) || 20;
+    const withOutOfStock = req.query.out_of_stock !== "false";
+    const categoryId = req.query.category as string | undefined;
+
+    if (!categoryId || checkObjectId(categoryId)) {
+      stockAlertService
+        .getLowStock(page, pageSize, withOutOfStock, categoryId)
+        .then((result) => {
+          const response = {
+            status: statusCode.httpOk,
+            data: result,
+          };
+
+          return customResponse.success(response, res);
+        })
+        .catch((error) => {
+          const response = {
+            status: error?.status || statusCode.httpInternalServerError,
+            errNo: errorNumbers.genericError,
+            errMsg: error?.message || error,
+          };
+
+          return customResponse.error(response, res);
+        });
+    } else {
+      const response = {
+        status: statusCode.httpBadRequest,
+        errNo: errorNumbers.ivalidResource,
+        errMsg: i18n.__("category.invalidCategoryId"),
+      };
+
+      return customResponse.error(response, res);
+    }
+  }
+
+  /**
+   * Check whether a product slug is available
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {Request} req the http request
+   * @param {Response} res the http response
+   *
+   * @return {Promise<void>} the eventual completion or failure
+   */
+  public async getSlugAvailability(req: Request, res: Response): Promise<void> {
+    const validationRule = {
+      slug: "required|string",
+      exclude: "string",
+    };
+
+    await validator
+      .validator(
+        req.query,
+        validationRule,
+        {},
+        (err: Errors, status: boolean) => {
+          if (!status) {
+            const response = {
+              status: statusCode.httpPreconditionFailed,
+              errNo: errorNumbers.validator,
+              errMsg: err.errors,
+            };
+
+            return customResponse.error(response, res);
+          } else if (req.query.exclude && !checkObjectId(req.query.exclude as string)) {
+            const response = {
+              status: statusCode.httpBadRequest,
+              errNo: errorNumbers.ivalidResource,
+              errMsg: i18n.__("product.invalidProductId"),
+            };
+
+            return customResponse.error(response, res);
+          } else {
+            productService
+              .getSlugAvailability(
+                req.query.slug as string,
+                req.query.exclude as string | undefined
+              )
+              .then((result) => {
+                const response = {
+                  status: statusCode.httpOk,
+                  data: result,
+                };
+
+                return customResponse.success(response, res);
+              })
+              .catch((error) => {
+                const response = {
+                  status: error?.status || statusCode.httpInternalServerError,
+                  errNo: errorNumbers.genericError,
+                  errMsg: error?.message || error,
+                };
+
+                return customResponse.error(response, res);
+              });
+          }
+        }
+      )
+      .catch((error) => {
+        const response = {
+          status: error?.status || statusCode.httpInternalServerError,
+          errNo: errorNumbers.genericError,
+          errMsg: error?.message || error,
+        };
+
+        return customResponse.error(response, res);
+      });
+  }
+
+  /**
+   * Compare products side by side
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {Request} req the http request
+   * @param {Response} res the http response
+   *
+   * @return {Promise<void>} the eventual completion or failure
+   */
+  public async compare(req: Request, res: Response): Promise<void> {
+    const productIds = String(req.query.ids || "")
+      .split(",")
+      .map((id) => id.trim())
+      .filter((id) => !!id);
+
+    if (!productIds.length || !productIds.every((id) => checkObjectId(id))) {
+      const response = {
+        status: statusCode.httpBadRequest,
+        errNo: errorNumbers.ivalidResource,
+        errMsg: i18n.__("product.invalidProductId"),
+      };
+
+      return customResponse.error(response, res);
+    }
+
+    productCompareService
+      .compare(productIds, req.params.lang, req.query.currency as string)
+      .then((result) => {
+        if (result === "TOO_MANY_PRODUCTS" || result === "INVALID_CURRENCY") {
+          const response = {
+            status: statusCode.httpBadRequest,
+            errNo: errorNumbers.ivalidResource,
+            errMsg: i18n.__(
+              result === "TOO_MANY_PRODUCTS"
+                ? "product.tooManyCompared"
+                : "product.invalidCurrency"
+            ),
+          };
+
+          return customResponse.error(response, res);
+        } else if (result === null || result === undefined) {
+          const response = {
+            status: statusCode.httpNotFound,
+            errNo: errorNumbers.resourceNotFound,
+            errMsg: i18n.__("product.productNotFound"),
+          };
+
+          return customResponse.error(response, res);
+        } else {
+          const response = {
+            status: statusCode.httpOk,
+            data: result,
+          };
+
+          return customResponse.success(response, res);
         }
       })
       .catch((error) => {
@@ -1126,6 +2850,171 @@ class ProductController {
       });
   }
 
+  /**
+   * Subscribe a customer to the back in stock notification of a product
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {Request} req the http request
+   * @param {Response} res the http response
+   *
+   * @return {Promise<void>} the eventual completion or failure
+   */
+  public async subscribeToStock(req: Request, res: Response): Promise<void> {
+    const productId = req.params.productId;
+    const validationRule = {
+      email: "required_without:user_id|email",
+      user_id: "string",
+      variant_sku: "string",
+      locale: "string|in:" + i18n.getLocales().join(","),
+    };
+
+    if (!checkObjectId(productId)) {
+      const response = {
+        status: statusCode.httpBadRequest,
+        errNo: errorNumbers.ivalidResource,
+        errMsg: i18n.__("product.invalidProductId"),
+      };
+
+      return customResponse.error(response, res);
+    }
+
+    await validator
+      .validator(
+        req.body,
+        validationRule,
+        {},
+        (err: Errors, status: boolean) => {
+          if (!status) {
+            const response = {
+              status: statusCode.httpPreconditionFailed,
+              errNo: errorNumbers.validator,
+              errMsg: err.errors,
+            };
+
+            return customResponse.error(response, res);
+          } else if (req.body.user_id && !checkObjectId(req.body.user_id)) {
+            const response = {
+              status: statusCode.httpBadRequest,
+              errNo: errorNumbers.ivalidResource,
+              errMsg: i18n.__("product.invalidUserId"),
+            };
+
+            return customResponse.error(response, res);
+          } else {
+            stockSubscriptionService
+              .subscribe(productId, {
+                email: req.body.email,
+                user: req.body.user_id,
+                variant_sku: req.body.variant_sku,
+                locale: req.body.locale || req.params.lang,
+              })
+              .then((result) => {
+                if (result === null || result === "VARIANT_NOT_FOUND") {
+                  const response = {
+                    status: statusCode.httpNotFound,
+                    errNo: errorNumbers.resourceNotFound,
+                    errMsg: i18n.__(
+                      result === null
+                        ? "product.productNotFound"
+                        : "product.variantNotFound"
+                    ),
+                  };
+
+                  return customResponse.error(response, res);
+                }
+
+                const response = {
+                  status: statusCode.httpCreated,
+                  data: result,
+                };
+
+                return customResponse.success(response, res);
+              })
+              .catch((error) => {
+                const response = {
+                  status: error?.status || statusCode.httpInternalServerError,
+                  errNo: errorNumbers.genericError,
+                  errMsg: error?.message || error,
+                };
+
+                return customResponse.error(response, res);
+              });
+          }
+        }
+      )
+      .catch((error) => {
+        const response = {
+          status: error?.status || statusCode.httpInternalServerError,
+          errNo: errorNumbers.genericError,
+          errMsg: error?.message || error,
+        };
+
+        return customResponse.error(response, res);
+      });
+  }
+
+  /**
+   * Cancel the back in stock subscription of a customer
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {Request} req the http request
+   * @param {Response} res the http response
+   *
+   * @return {Promise<void>} the eventual completion or failure
+   */
+  public async unsubscribeFromStock(req: Request, res: Response): Promise<void> {
+    const productId = req.params.productId;
+    const subscriptionId = req.params.subscriptionId;
+
+    if (checkObjectId(productId) && checkObjectId(subscriptionId)) {
+      stockSubscriptionService
+        .unsubscribe(productId, subscriptionId)
+        .then((result) => {
+          if (result === null || result === undefined) {
+            const response = {
+              status: statusCode.httpNotFound,
+              errNo: errorNumbers.resourceNotFound,
+              errMsg: i18n.__("product.subscriptionNotFound"),
+            };
+
+            return customResponse.error(response, res);
+          } else {
+            const response = {
+              status: statusCode.httpOk,
+              data: result,
+            };
+
+            return customResponse.success(response, res);
+          }
+        })
+        .catch((error) => {
+          const response = {
+            status: error?.status || statusCode.httpInternalServerError,
+            errNo: errorNumbers.genericError,
+            errMsg: error?.message || error,
+          };
+
+          return customResponse.error(response, res);
+        });
+    } else {
+      const response = {
+        status: statusCode.httpBadRequest,
+        errNo: errorNumbers.ivalidResource,
+        errMsg: i18n.__(
+          checkObjectId(productId)
+            ? "product.invalidSubscriptionId"
+            : "product.invalidProductId"
+        ),
+      };
+
+      return customResponse.error(response, res);
+    }
+  }
+
   /**
    * Handle errors
    *
@@ -33,6 +33,76 @@ const shippingSchema = new mongoose.Schema(
   }
 );
 
+// An attribute selection of a variant: the attribute (e.g. Size) and the
+// chosen value, which is the _id of an entry of attribute.variants (e.g. M)
+const variantAttributeSchema = new mongoose.Schema(
+  {
+    attribute: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "attribute",
+      required: true,
+    },
+    value: { type: mongoose.Schema.Types.ObjectId, required: true },
+  },
+  { _id: false }
+);
+
+const variantSchema = new mongoose.Schema(
+  {
+    attributes: { type: [variantAttributeSchema], default: [] },
+    product_id: { type: String, required: false },
+    sku: { type: String, required: false },
+    barcode: { type: String, required: false },
+    image: { type: String, required: false },
+    original_price: { type: Number, required: false },
+    price: { type: Number, required: false },
+    discount: { type: Number, default: 0 },
+    purchase_cost: { type: Number, required: false },
+    quantity: { type: Number, default: 0 },
+    // Quantity held by the active stock reservations
+    reserved: { type: Number, default: 0 },
+    promotional: { type: Boolean, default: false },
+    date_from_promo: { type: Date, required: false },
+    date_to_promo: { type: Date, required: false },
+    // Luxury Distribution metadata
+    ld_stock_id: { type: String, required: false },
+    ld_variant_ref: { type: String, required: false },
+    ld_size: { type: String, required: false },
+    ld_color: { type: String, required: false },
+    ld_attribute_values: { type: Object, required: false },
+    size: { type: String, required: false },
+  },
+  { _id: false }
+);
+
+// A product (or one of its variants) sold in a bundle, with the quantity
+// of it in one bundle
+const bundleComponentSchema = new mongoose.Schema(
+  {
+    product: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "product",
+      required: true,
+    },
+    variant_sku: { type: String, required: false },
+    quantity: { type: Number, default: 1, min: 1 },
+  },
+  { _id: false }
+);
+
+// Normalized (lowercase, accent-free) texts of every supported language,
+// maintained by the product search service and used by the text index.
+const searchSchema = new mongoose.Schema(
+  {
+    title: { type: String, default: "" },
+    brand: { type: String, default: "" },
+    tags: { type: String, default: "" },
+    categories: { type: String, default: "" },
+    description: { type: String, default: "" },
+  },
+  { _id: false }
+);
+
 const productSchema = new mongoose.Schema(
   {
     product_id: { type: String, required: false },
@@ -42,6 +112,8 @@ const productSchema = new mongoose.Schema(
     title: { type: Object, required: true },
     vendor: { type: mongoose.Schema.Types.ObjectId, required: false },
     slug: { type: String, required: true },
+    // Former slugs, redirected to the current one
+    previous_slugs: { type: [String], default: undefined },
     image: { type: [String], required: false },
     brand: { type: String, required: false },
     short_description: { type: Object, required: false },
@@ -69,6 +141,10 @@ const productSchema = new mongoose.Schema(
     discount: { type: Number, required: false },
     initial_stock: { type: Number, required: false },
     current_stock: { type: Number, required: false },
+    // Quantity held by the active stock reservations
+    reserved_stock: { type: Number, default: 0 },
+    // Stock under which the product is low, the category default otherwise
+    low_stock_threshold: { type: Number, required: false, min: 0 },
     sales_count: { type: Number, default: 0, required: false },
     featured: { type: Boolean, default: false },
     promotional: { type: Boolean, default: false },
@@ -85,15 +161,35 @@ const productSchema = new mongoose.Schema(
       ref: "category",
       required: true,
     },
-    variants: [{}],
+    variants: { type: [variantSchema], default: [] },
     is_combination: { type: Boolean, required: true },
+    type: { type: String, default: "simple", enum: ["simple", "bundle"] },
+    // Components of a bundle, whose stock and prices are derived from them
+    bundle_components: { type: [bundleComponentSchema], default: undefined },
+    // Price of a bundle: a fixed price or a percentage off the component total
+    bundle_pricing: {
+      mode: { type: String, enum: ["fixed", "percentage"] },
+      value: { type: Number, min: 0 },
+    },
     status: { type: String, default: "show", enum: ["show", "hide"] },
+    // Publication window, the scheduler flips the status when it opens or closes
+    publish_at: { type: Date, required: false },
+    unpublish_at: { type: Date, required: false },
     related_products: [
       {
         type: mongoose.Schema.Types.ObjectId,
         ref: "product",
       },
     ],
+    // Most similar products, computed by the similarity service and kept
+    // apart from the curated related products
+    computed_related_products: [
+      {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "product",
+      },
+    ],
+    related_computed_at: { type: Date, required: false },
     upsells: [
       {
         type: mongoose.Schema.Types.ObjectId,
@@ -124,6 +220,8 @@ const productSchema = new mongoose.Schema(
     external_id: { type: String, index: true },
     external_sku: { type: String },
     last_synced_at: { type: Date },
+    deleted_at: { type: Date, default: null },
+    search: { type: searchSchema, select: false },
   },
   {
     timestamps: {
@@ -134,6 +232,10 @@ const productSchema = new mongoose.Schema(
 );
 
 productSchema.index({ slug: 1 }, { unique: true });
+productSchema.index(
+  { previous_slugs: 1 },
+  { unique: true, partialFilterExpression: { "previous_slugs.0": { $exists: true } } }
+);
 productSchema.index({ category: 1 });
 productSchema.index({ categories: 1 });
 productSchema.index({ status: 1 });
@@ -141,6 +243,31 @@ productSchema.index({ featured: 1 });
 productSchema.index({ promotional: 1 });
 productSchema.index({ sales_count: -1 });
 productSchema.index({ status: 1, categories: 1 });
+productSchema.index({ deleted_at: 1 });
+productSchema.index({ publish_at: 1 });
+productSchema.index({ unpublish_at: 1 });
+productSchema.index({ "bundle_components.product": 1 });
+productSchema.index({ related_computed_at: 1 });
+productSchema.index(
+  {
+    "search.title": "text",
+    "search.brand": "text",
+    "search.tags": "text",
+    "search.categories": "text",
+    "search.description": "text",
+  },
+  {
+    name: "product_search",
+    default_language: "none",
+    weights: {
+      "search.title": 10,
+      "search.brand": 6,
+      "search.tags": 4,
+      "search.categories": 3,
+      "search.description": 1,
+    },
+  }
+);
 
 const Product = mongoose.model("product", productSchema);
 
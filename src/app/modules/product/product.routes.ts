@@ -81,7 +81,10 @@ class ProductRoutes {
              *        name: name
              *        schema:
              *          type: string
-             *        description: The product's name
+             *          example: echarpe
+             *        description: Full-text search over the title, brand,
+             *          tags, categories and descriptions of the product
+             *          (case and accent insensitive)
              *      - in: query
              *        name: category
              *        schema:
@@ -113,7 +116,8 @@ class ProductRoutes {
              *          type: string
              *          example: newest
              *        description: This value can be newest,
-             *          lowest, highest, toprated
+             *          lowest, highest, toprated, popular or relevance
+             *          (best search matches first, requires name)
              *      - in: query
              *        name: featured
              *        schema:
@@ -126,6 +130,44 @@ class ProductRoutes {
              *          type: string
              *          example: 0
              *        description: Promotional product
+             *      - in: query
+             *        name: facets
+             *        schema:
+             *          type: string
+             *          example: true
+             *        description: Also return the brand, color, category,
+             *          tag, rating and price range counts of the products
+             *          matching the filter
+             *      - in: query
+             *        name: cursor
+             *        schema:
+             *          type: string
+             *          example: true
+             *        description: Use cursor pagination instead of pages.
+             *          The response then contains nextCursor instead of
+             *          the page numbers. Not available for the relevance
+             *          order
+             *      - in: query
+             *        name: after
+             *        schema:
+             *          type: string
+             *        description: The nextCursor of the previous page
+             *          (implies cursor=true)
+             *      - in: query
+             *        name: count
+             *        schema:
+             *          type: string
+             *          example: false
+             *        description: In cursor mode, set to false to skip
+             *          counting the matching products (allProducts is
+             *          then null)
+             *      - in: query
+             *        name: currency
+             *        schema:
+             *          type: string
+             *          example: USD
+             *        description: Currency of the returned prices (store
+             *          currency by default)
              *
              *     responses:
              *       200:
@@ -163,6 +205,13 @@ class ProductRoutes {
              *                      nextPage:
              *                        type: number
              *                        example: 2
+             *                      nextCursor:
+             *                        type: string
+             *                        description: Cursor of the next page
+             *                          (cursor mode only), null on the
+             *                          last page
+             *                      facets:
+             *                        $ref: '#/components/schemas/ProductFacets'
              *
              *       400:
              *         description: Bad Request.
@@ -448,6 +497,82 @@ class ProductRoutes {
              */
             router.get("/brands", productController.getAllBrands);
 
+            /**
+             * @swagger
+             * /v1/{lang}/products/export:
+             *   get:
+             *     security:
+             *      - bearerAuth: []
+             *     tags:
+             *     - Product
+             *     operationId: exportProducts
+             *     summary: Export products as CSV or NDJSON.
+             *     description: Stream the products matching the same
+             *       filters as the products listing (name, category, tag,
+             *       brands, colors, min, max, status...). Texts are
+             *       localized to the requested language, categories and
+             *       tags are exported by name and multi-valued columns
+             *       are separated by "|".
+             *     parameters:
+             *      - in: path
+             *        name: lang
+             *        schema:
+             *          type: string
+             *          example: en
+             *        required: true
+             *        description: Language for the response. Supported
+             *          languages ['en', 'fr']
+             *      - in: query
+             *        name: format
+             *        schema:
+             *          type: string
+             *          enum: [csv, ndjson]
+             *          example: csv
+             *        description: The export format, csv by default
+             *      - in: query
+             *        name: rows
+             *        schema:
+             *          type: string
+             *          enum: [product, variant]
+             *          example: product
+             *        description: One row per product (default) or one
+             *          row per variant
+             *
+             *     responses:
+             *       200:
+             *         description: The exported products.
+             *         content:
+             *           text/csv:
+             *             schema:
+             *               type: string
+             *           application/x-ndjson:
+             *             schema:
+             *               type: string
+             *
+             *       401:
+             *         description: Unauthorized.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/401'
+             *
+             *       412:
+             *         description: Precondition Failed.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/412'
+             *
+             *       500:
+             *         description: Internal Server Error.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/500'
+             *
+             */
+            router.get("/export", productController.exportProducts);
+
             /**
              * @swagger
              * /v1/{lang}/products/showing/store:
@@ -483,6 +608,13 @@ class ProductRoutes {
              *        schema:
              *          type: string
              *        description: The product's slug
+             *      - in: query
+             *        name: currency
+             *        schema:
+             *          type: string
+             *          example: USD
+             *        description: Currency of the returned prices (store
+             *          currency by default)
              *
              *     responses:
              *       200:
@@ -949,6 +1081,104 @@ class ProductRoutes {
              */
             router.post("/many", productController.storeMultiple);
 
+            /**
+             * @swagger
+             * /v1/{lang}/products/import:
+             *   post:
+             *     security:
+             *      - bearerAuth: []
+             *     tags:
+             *     - Product
+             *     operationId: importProducts
+             *     summary: Import products from a CSV or NDJSON file.
+             *     description: Validate every row of the file and report
+             *       the errors (missing title.en, duplicate slug or sku,
+             *       unknown category or tag names, bad prices...). When
+             *       dry_run is false, the valid rows are upserted by sku;
+             *       a trashed product with the sku of a row is restored.
+             *       Categories, tags and images are separated by "|" and
+             *       categories and tags are given by name.
+             *     parameters:
+             *      - in: path
+             *        name: lang
+             *        schema:
+             *          type: string
+             *          example: en
+             *        required: true
+             *        description: Language for the response. Supported
+             *          languages ['en', 'fr']
+             *     requestBody:
+             *       required: true
+             *       content:
+             *         application/json:
+             *           schema:
+             *             type: object
+             *             properties:
+             *               format:
+             *                 type: string
+             *                 enum: [csv, ndjson]
+             *               content:
+             *                 type: string
+             *                 description: The file content. The CSV
+             *                   separator (comma or semicolon) is detected
+             *                   from the header line
+             *                 example: "SKU;Title;Price;Categories\nGG-001;Sac Dionysus;2500;Bags|Women"
+             *               mapping:
+             *                 type: object
+             *                 description: Column to product field mapping.
+             *                   Columns are used as field names when absent
+             *                 example:
+             *                   SKU: sku
+             *                   Title: title.en
+             *                   Price: prices.original_price
+             *                   Categories: categories
+             *               dry_run:
+             *                 type: boolean
+             *                 description: Only validate the rows, true by
+             *                   default
+             *                 example: true
+             *             required:
+             *               - format
+             *               - content
+             *
+             *     responses:
+             *       200:
+             *         description: The validation (and import) report.
+             *         content:
+             *           application/json:
+             *             schema:
+             *                type: object
+             *                properties:
+             *                  status:
+             *                    type: string
+             *                    example: Ok
+             *                  data:
+             *                    $ref: '#/components/schemas/ProductImportReport'
+             *
+             *       401:
+             *         description: Unauthorized.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/401'
+             *
+             *       412:
+             *         description: Precondition Failed.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/412'
+             *
+             *       500:
+             *         description: Internal Server Error.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/500'
+             *
+             */
+            router.post("/import", productController.importProducts);
+
             /**
              * @swagger
              * /v1/{lang}/products/calculate-price:
@@ -1267,7 +1497,7 @@ class ProductRoutes {
              *     - Product
              *     operationId: deleteMany
              *     summary: Delete many products.
-             *     description: Delete many products.
+             *     description: Move many products to the trash.
              *     parameters:
              *      - in: path
              *        name: lang
@@ -1321,23 +1551,19 @@ class ProductRoutes {
              *
              */
             router.delete("/:productIds/many", productController.deleteMany);
-          })
-        );
 
-        router.use(
-          "/product",
-          routesGrouping.group((router) => {
             /**
              * @swagger
-             * /v1/{lang}/product/{productId}:
+             * /v1/{lang}/products/trash:
              *   get:
              *     security:
              *      - bearerAuth: []
              *     tags:
              *     - Product
-             *     operationId: byId
-             *     summary: Get a product by id.
-             *     description: Get a product by id from the system.
+             *     operationId: trash
+             *     summary: Get the products in the trash.
+             *     description: Get the deleted products, most recently
+             *       deleted first.
              *     parameters:
              *      - in: path
              *        name: lang
@@ -1347,16 +1573,24 @@ class ProductRoutes {
              *        required: true
              *        description: Language for the response. Supported
              *          languages ['en', 'fr']
-             *      - in: path
-             *        name: productId
+             *      - in: query
+             *        name: page
              *        schema:
-             *          type: string
-             *        required: true
-             *        description: Product's id
+             *          type: number
+             *          example: 1
+             *        description: Pagination position, this
+             *          position is set to 1 by default
+             *      - in: query
+             *        name: perPage
+             *        schema:
+             *          type: number
+             *          example: 12
+             *        description: The number of items per page, this
+             *          number is set to 12 by default
              *
              *     responses:
              *       200:
-             *         description: The product has been successfully obtained.
+             *         description: Successfully retrieved products.
              *         content:
              *           application/json:
              *             schema:
@@ -1366,30 +1600,24 @@ class ProductRoutes {
              *                    type: string
              *                    example: Ok
              *                  data:
-             *                    $ref: '#/components/schemas/Product'
-             *
-             *       '400':
-             *         description: Bad Request.
-             *         content:
-             *          application/json:
-             *             schema:
-             *              $ref: '#/responses/schemas/400'
+             *                    type: object
+             *                    properties:
+             *                      products:
+             *                        type: array
+             *                        items:
+             *                          $ref: '#/components/schemas/Product'
+             *                      allProducts:
+             *                        type: number
+             *                        example: 12
              *
-             *       '401':
+             *       401:
              *         description: Unauthorized.
              *         content:
              *          application/json:
              *             schema:
              *              $ref: '#/responses/schemas/401'
              *
-             *       '404':
-             *         description: Not Found.
-             *         content:
-             *          application/json:
-             *             schema:
-             *              $ref: '#/responses/schemas/404'
-             *
-             *       '500':
+             *       500:
              *         description: Internal Server Error.
              *         content:
              *          application/json:
@@ -1397,19 +1625,19 @@ class ProductRoutes {
              *              $ref: '#/responses/schemas/500'
              *
              */
-            router.get("/:productId", productController.showProductById);
+            router.get("/trash", productController.getTrash);
 
             /**
              * @swagger
-             * /v1/{lang}/product/slug/{slug}:
-             *   get:
+             * /v1/{lang}/products/trash/{productIds}/restore:
+             *   patch:
              *     security:
              *      - bearerAuth: []
              *     tags:
              *     - Product
-             *     operationId: bySlug
-             *     summary: Get product by slug.
-             *     description: Get a product from the system by name (slug).
+             *     operationId: restoreFromTrash
+             *     summary: Restore products from the trash.
+             *     description: Restore many products from the trash.
              *     parameters:
              *      - in: path
              *        name: lang
@@ -1420,48 +1648,25 @@ class ProductRoutes {
              *        description: Language for the response. Supported
              *          languages ['en', 'fr']
              *      - in: path
-             *        name: slug
+             *        name: productIds
              *        schema:
              *          type: string
              *        required: true
-             *        description: Product's id
+             *        description: The product IDs to be restored. You can enter several identifiers,
+             *          separated by commas
              *
              *     responses:
              *       200:
-             *         description: The product has been successfully obtained.
-             *         content:
-             *           application/json:
-             *             schema:
-             *                type: object
-             *                properties:
-             *                  status:
-             *                    type: string
-             *                    example: Ok
-             *                  data:
-             *                    $ref: '#/components/schemas/Product'
-             *
-             *       '400':
-             *         description: Bad Request.
-             *         content:
-             *          application/json:
-             *             schema:
-             *              $ref: '#/responses/schemas/400'
+             *         description: Products restored successfully.
              *
-             *       '401':
+             *       401:
              *         description: Unauthorized.
              *         content:
              *          application/json:
              *             schema:
              *              $ref: '#/responses/schemas/401'
              *
-             *       '404':
-             *         description: Not Found.
-             *         content:
-             *          application/json:
-             *             schema:
-             *              $ref: '#/responses/schemas/404'
-             *
-             *       '500':
+             *       500:
              *         description: Internal Server Error.
              *         content:
              *          application/json:
@@ -1469,7 +1674,2250 @@ class ProductRoutes {
              *              $ref: '#/responses/schemas/500'
              *
              */
-            router.get("/slug/:slug", productController.getProductBySlug);
+            router.patch(
+              "/trash/:productIds/restore",
+              productController.restoreFromTrash
+            );
+
+            /**
+             * @swagger
+             * /v1/{lang}/products/trash/{productIds}:
+             *   delete:
+             *     security:
+             *      - bearerAuth: []
+             *     tags:
+             *     - Product
+             *     operationId: purge
+             *     summary: Purge products from the trash.
+             *     description: Permanently delete many products from the
+             *       trash. Products which are not in the trash are ignored.
+             *     parameters:
+             *      - in: path
+             *        name: lang
+             *        schema:
+             *          type: string
+             *          example: en
+             *        required: true
+             *        description: Language for the response. Supported
+             *          languages ['en', 'fr']
+             *      - in: path
+             *        name: productIds
+             *        schema:
+             *          type: string
+             *        required: true
+             *        description: The product IDs to be purged. You can enter several identifiers,
+             *          separated by commas
+             *
+             *     responses:
+             *       204:
+             *         description: Products purged successfully.
+             *
+             *       401:
+             *         description: Unauthorized.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/401'
+             *
+             *       500:
+             *         description: Internal Server Error.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/500'
+             *
+             */
+            router.delete("/trash/:productIds", productController.purge);
+
+            /**
+             * @swagger
+             * /v1/{lang}/products/search-index:
+             *   post:
+             *     security:
+             *      - bearerAuth: []
+             *     tags:
+             *     - Product
+             *     operationId: reindexSearch
+             *     summary: Rebuild the product search index.
+             *     description: Recompute the search fields of every product,
+             *       e.g. after a bulk import made directly in the database.
+             *     parameters:
+             *      - in: path
+             *        name: lang
+             *        schema:
+             *          type: string
+             *          example: en
+             *        required: true
+             *        description: Language for the response. Supported
+             *          languages ['en', 'fr']
+             *
+             *     responses:
+             *       200:
+             *         description: The search index has been successfully rebuilt.
+             *         content:
+             *           application/json:
+             *             schema:
+             *                type: object
+             *                properties:
+             *                  status:
+             *                    type: string
+             *                    example: Ok
+             *                  data:
+             *                    type: object
+             *                    properties:
+             *                      indexed:
+             *                        type: number
+             *                        example: 1200
+             *
+             *       401:
+             *         description: Unauthorized.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/401'
+             *
+             *       500:
+             *         description: Internal Server Error.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/500'
+             *
+             */
+            router.post("/search-index", productController.reindexSearch);
+
+            /**
+             * @swagger
+             * /v1/{lang}/products/stock-dead-letters:
+             *   get:
+             *     security:
+             *      - bearerAuth: []
+             *     tags:
+             *     - Product
+             *     operationId: stockDeadLetters
+             *     summary: Get the parked stock messages.
+             *     description: Get the order stock messages which could not
+             *       be processed after all their attempts, most recent first.
+             *     parameters:
+             *      - in: path
+             *        name: lang
+             *        schema:
+             *          type: string
+             *          example: en
+             *        required: true
+             *        description: Language for the response. Supported
+             *          languages ['en', 'fr']
+             *      - in: query
+             *        name: status
+             *        schema:
+             *          type: string
+             *          enum: [parked, replayed]
+             *        description: The status of the messages, parked by default
+             *      - in: query
+             *        name: page
+             *        schema:
+             *          type: number
+             *          example: 1
+             *        description: Pagination position, this
+             *          position is set to 1 by default
+             *      - in: query
+             *        name: perPage
+             *        schema:
+             *          type: number
+             *          example: 20
+             *        description: The number of items per page, this
+             *          number is set to 20 by default
+             *
+             *     responses:
+             *       200:
+             *         description: Successfully retrieved the parked messages.
+             *         content:
+             *           application/json:
+             *             schema:
+             *                type: object
+             *                properties:
+             *                  status:
+             *                    type: string
+             *                    example: Ok
+             *                  data:
+             *                    type: object
+             *                    properties:
+             *                      deadLetters:
+             *                        type: array
+             *                        items:
+             *                          $ref: '#/components/schemas/StockDeadLetter'
+             *                      allDeadLetters:
+             *                        type: number
+             *                        example: 2
+             *
+             *       401:
+             *         description: Unauthorized.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/401'
+             *
+             *       500:
+             *         description: Internal Server Error.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/500'
+             *
+             */
+            router.get(
+              "/stock-dead-letters",
+              productController.getStockDeadLetters
+            );
+
+            /**
+             * @swagger
+             * /v1/{lang}/products/stock-dead-letters/replay:
+             *   post:
+             *     security:
+             *      - bearerAuth: []
+             *     tags:
+             *     - Product
+             *     operationId: replayStockDeadLetters
+             *     summary: Replay the parked stock messages.
+             *     description: Publish the parked messages again on their
+             *       exchange. Every parked message is replayed when no ids
+             *       are given.
+             *     parameters:
+             *      - in: path
+             *        name: lang
+             *        schema:
+             *          type: string
+             *          example: en
+             *        required: true
+             *        description: Language for the response. Supported
+             *          languages ['en', 'fr']
+             *     requestBody:
+             *       required: false
+             *       content:
+             *         application/json:
+             *           schema:
+             *             type: object
+             *             properties:
+             *               ids:
+             *                 type: array
+             *                 items:
+             *                   type: string
+             *                 description: The ids of the messages to replay.
+             *
+             *     responses:
+             *       200:
+             *         description: The messages have been successfully replayed.
+             *         content:
+             *           application/json:
+             *             schema:
+             *                type: object
+             *                properties:
+             *                  status:
+             *                    type: string
+             *                    example: Ok
+             *                  data:
+             *                    type: object
+             *                    properties:
+             *                      replayed:
+             *                        type: number
+             *                        example: 2
+             *                      errors:
+             *                        type: array
+             *                        items:
+             *                          type: object
+             *
+             *       400:
+             *         description: Bad Request.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/400'
+             *
+             *       401:
+             *         description: Unauthorized.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/401'
+             *
+             *       500:
+             *         description: Internal Server Error.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/500'
+             *
+             */
+            router.post(
+              "/stock-dead-letters/replay",
+              productController.replayStockDeadLetters
+            );
+
+            /**
+             * @swagger
+             * /v1/{lang}/products/low-stock:
+             *   get:
+             *     security:
+             *      - bearerAuth: []
+             *     tags:
+             *     - Product
+             *     operationId: lowStockProducts
+             *     summary: Get the products with a low stock.
+             *     description: Get the products whose stock is at or under
+             *       their low stock threshold, lowest stock first. The
+             *       threshold of a product defaults to the one of its category.
+             *     parameters:
+             *      - in: path
+             *        name: lang
+             *        schema:
+             *          type: string
+             *          example: en
+             *        required: true
+             *        description: Language for the response. Supported
+             *          languages ['en', 'fr']
+             *      - in: query
+             *        name: category
+             *        schema:
+             *          type: string
+             *        description: The category of the products
+             *      - in: query
+             *        name: out_of_stock
+             *        schema:
+             *          type: boolean
+             *          example: true
+             *        description: Include the out of stock products, true by
+             *          default
+             *      - in: query
+             *        name: page
+             *        schema:
+             *          type: number
+             *          example: 1
+             *        description: Pagination position, this
+             *          position is set to 1 by default
+             *      - in: query
+             *        name: perPage
+             *        schema:
+             *          type: number
+             *          example: 20
+             *        description: The number of items per page, this
+             *          number is set to 20 by default
+             *
+             *     responses:
+             *       200:
+             *         description: Successfully retrieved the low stock products.
+             *         content:
+             *           application/json:
+             *             schema:
+             *                type: object
+             *                properties:
+             *                  status:
+             *                    type: string
+             *                    example: Ok
+             *                  data:
+             *                    type: object
+             *                    properties:
+             *                      products:
+             *                        type: array
+             *                        items:
+             *                          $ref: '#/components/schemas/LowStockProduct'
+             *                      allProducts:
+             *                        type: number
+             *                        example: 4
+             *
+             *       400:
+             *         description: Bad Request.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/400'
+             *
+             *       401:
+             *         description: Unauthorized.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/401'
+             *
+             *       500:
+             *         description: Internal Server Error.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/500'
+             *
+             */
+            router.get("/low-stock", productController.getLowStock);
+
+            /**
+             * @swagger
+             * /v1/{lang}/products/compare:
+             *   get:
+             *     security:
+             *      - bearerAuth: []
+             *     tags:
+             *     - Product
+             *     operationId: compareProducts
+             *     summary: Compare products.
+             *     description: Get published products side by side, with
+             *       their texts in the requested language and the union of
+             *       their specification rows (brand, material, made in,
+             *       color, size info, variant attributes, price and stock).
+             *       Each row tells whether its values differ.
+             *     parameters:
+             *      - in: path
+             *        name: lang
+             *        schema:
+             *          type: string
+             *          example: en
+             *        required: true
+             *        description: Language for the response. Supported
+             *          languages ['en', 'fr']
+             *      - in: query
+             *        name: ids
+             *        schema:
+             *          type: string
+             *          example: 64b7f0c2a1e4d2f3a8b9c0d1,64b7f0c2a1e4d2f3a8b9c0d2
+             *        required: true
+             *        description: The ids of the products to compare,
+             *          separated by commas (6 at most)
+             *      - in: query
+             *        name: currency
+             *        schema:
+             *          type: string
+             *          example: USD
+             *        description: Currency of the returned prices (store
+             *          currency by default)
+             *
+             *     responses:
+             *       200:
+             *         description: Successfully compared the products.
+             *         content:
+             *           application/json:
+             *             schema:
+             *                type: object
+             *                properties:
+             *                  status:
+             *                    type: string
+             *                    example: Ok
+             *                  data:
+             *                    $ref: '#/components/schemas/ProductComparison'
+             *
+             *       400:
+             *         description: Bad Request.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/400'
+             *
+             *       401:
+             *         description: Unauthorized.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/401'
+             *
+             *       404:
+             *         description: Not Found.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/404'
+             *
+             *       500:
+             *         description: Internal Server Error.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/500'
+             *
+             */
+            router.get("/compare", productController.compare);
+
+            /**
+             * @swagger
+             * /v1/{lang}/products/slug-availability:
+             *   get:
+             *     security:
+             *      - bearerAuth: []
+             *     tags:
+             *     - Product
+             *     operationId: getProductSlugAvailability
+             *     summary: Check a product slug.
+             *     description: Tell whether a slug is free, i.e. no other
+             *       product uses it as its slug or as a former slug, and
+             *       suggest a free slug (the slug followed by -2, -3, ...)
+             *       when it is taken.
+             *     parameters:
+             *      - in: path
+             *        name: lang
+             *        schema:
+             *          type: string
+             *          example: en
+             *        required: true
+             *        description: Language for the response. Supported
+             *          languages ['en', 'fr']
+             *      - in: query
+             *        name: slug
+             *        schema:
+             *          type: string
+             *          example: leather-handbag
+             *        required: true
+             *        description: The wanted slug, slugified before the check
+             *      - in: query
+             *        name: exclude
+             *        schema:
+             *          type: string
+             *          example: 64b7f0c2a1e4d2f3a8b9c0d1
+             *        description: The id of the edited product, whose own
+             *          slugs are not counted
+             *
+             *     responses:
+             *       200:
+             *         description: Successfully checked the slug.
+             *         content:
+             *           application/json:
+             *             schema:
+             *                type: object
+             *                properties:
+             *                  status:
+             *                    type: string
+             *                    example: Ok
+             *                  data:
+             *                    type: object
+             *                    properties:
+             *                      slug:
+             *                        type: string
+             *                        example: leather-handbag
+             *                      available:
+             *                        type: boolean
+             *                        example: false
+             *                      suggestion:
+             *                        type: string
+             *                        example: leather-handbag-2
+             *
+             *       400:
+             *         description: Bad Request.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/400'
+             *
+             *       401:
+             *         description: Unauthorized.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/401'
+             *
+             *       412:
+             *         description: Precondition Failed.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/412'
+             *
+             *       500:
+             *         description: Internal Server Error.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/500'
+             *
+             */
+            router.get(
+              "/slug-availability",
+              productController.getSlugAvailability
+            );
+
+            /**
+             * @swagger
+             * /v1/{lang}/products/reservations:
+             *   post:
+             *     security:
+             *      - bearerAuth: []
+             *     tags:
+             *     - Product
+             *     operationId: reserveStock
+             *     summary: Hold stock for a cart or an order.
+             *     description: Atomically hold the quantities of the items
+             *       against the available stock (current stock minus the
+             *       active holds) of the products and variants. Either every
+             *       item is held or none. The hold is released automatically
+             *       when it expires. Reserving again an active reference
+             *       returns the existing reservation.
+             *     parameters:
+             *      - in: path
+             *        name: lang
+             *        schema:
+             *          type: string
+             *          example: en
+             *        required: true
+             *        description: Language for the response. Supported
+             *          languages ['en', 'fr']
+             *     requestBody:
+             *       required: true
+             *       content:
+             *         application/json:
+             *           schema:
+             *             type: object
+             *             required:
+             *               - reference
+             *               - items
+             *             properties:
+             *               reference:
+             *                 type: string
+             *                 description: The cart or order id.
+             *               items:
+             *                 type: array
+             *                 items:
+             *                   $ref: '#/components/schemas/StockReservationItem'
+             *               ttl:
+             *                 type: number
+             *                 description: Lifetime of the hold in seconds,
+             *                   between 60 and 86400 (900 by default).
+             *                 example: 900
+             *
+             *     responses:
+             *       201:
+             *         description: The stock has been successfully reserved.
+             *         content:
+             *           application/json:
+             *             schema:
+             *                type: object
+             *                properties:
+             *                  status:
+             *                    type: string
+             *                    example: Ok
+             *                  data:
+             *                    $ref: '#/components/schemas/StockReservation'
+             *
+             *       400:
+             *         description: Bad Request.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/400'
+             *
+             *       401:
+             *         description: Unauthorized.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/401'
+             *
+             *       409:
+             *         description: Conflict.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/409'
+             *
+             *       412:
+             *         description: Precondition Failed.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/412'
+             *
+             *       500:
+             *         description: Internal Server Error.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/500'
+             *
+             */
+            router.post("/reservations", productController.reserveStock);
+
+            /**
+             * @swagger
+             * /v1/{lang}/products/reservations/{reservationId}/commit:
+             *   post:
+             *     security:
+             *      - bearerAuth: []
+             *     tags:
+             *     - Product
+             *     operationId: commitReservation
+             *     summary: Commit a stock reservation.
+             *     description: Remove the held quantities from the stock of
+             *       the products and variants and count them as sold.
+             *     parameters:
+             *      - in: path
+             *        name: lang
+             *        schema:
+             *          type: string
+             *          example: en
+             *        required: true
+             *        description: Language for the response. Supported
+             *          languages ['en', 'fr']
+             *      - in: path
+             *        name: reservationId
+             *        schema:
+             *          type: string
+             *        required: true
+             *        description: String ID of the reservation
+             *
+             *     responses:
+             *       200:
+             *         description: The reservation has been successfully committed.
+             *         content:
+             *           application/json:
+             *             schema:
+             *                type: object
+             *                properties:
+             *                  status:
+             *                    type: string
+             *                    example: Ok
+             *                  data:
+             *                    $ref: '#/components/schemas/StockReservation'
+             *
+             *       400:
+             *         description: Bad Request.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/400'
+             *
+             *       401:
+             *         description: Unauthorized.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/401'
+             *
+             *       404:
+             *         description: Not Found.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/404'
+             *
+             *       409:
+             *         description: Conflict.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/409'
+             *
+             *       500:
+             *         description: Internal Server Error.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/500'
+             *
+             */
+            router.post(
+              "/reservations/:reservationId/commit",
+              productController.commitReservation
+            );
+
+            /**
+             * @swagger
+             * /v1/{lang}/products/reservations/{reservationId}/release:
+             *   post:
+             *     security:
+             *      - bearerAuth: []
+             *     tags:
+             *     - Product
+             *     operationId: releaseReservation
+             *     summary: Release a stock reservation.
+             *     description: Make the held quantities available again.
+             *     parameters:
+             *      - in: path
+             *        name: lang
+             *        schema:
+             *          type: string
+             *          example: en
+             *        required: true
+             *        description: Language for the response. Supported
+             *          languages ['en', 'fr']
+             *      - in: path
+             *        name: reservationId
+             *        schema:
+             *          type: string
+             *        required: true
+             *        description: String ID of the reservation
+             *
+             *     responses:
+             *       200:
+             *         description: The reservation has been successfully released.
+             *         content:
+             *           application/json:
+             *             schema:
+             *                type: object
+             *                properties:
+             *                  status:
+             *                    type: string
+             *                    example: Ok
+             *                  data:
+             *                    $ref: '#/components/schemas/StockReservation'
+             *
+             *       400:
+             *         description: Bad Request.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/400'
+             *
+             *       401:
+             *         description: Unauthorized.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/401'
+             *
+             *       404:
+             *         description: Not Found.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/404'
+             *
+             *       409:
+             *         description: Conflict.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/409'
+             *
+             *       500:
+             *         description: Internal Server Error.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/500'
+             *
+             */
+            router.post(
+              "/reservations/:reservationId/release",
+              productController.releaseReservation
+            );
+
+            /**
+             * @swagger
+             * /v1/{lang}/products/{productId}/availability:
+             *   get:
+             *     tags:
+             *     - Product
+             *     operationId: availability
+             *     summary: Get the available stock of a product.
+             *     description: Get the current stock, the quantity held by
+             *       the active reservations and the available quantity of a
+             *       product and of its variants.
+             *     parameters:
+             *      - in: path
+             *        name: lang
+             *        schema:
+             *          type: string
+             *          example: en
+             *        required: true
+             *        description: Language for the response. Supported
+             *          languages ['en', 'fr']
+             *      - in: path
+             *        name: productId
+             *        schema:
+             *          type: string
+             *        required: true
+             *        description: String ID of the product
+             *
+             *     responses:
+             *       200:
+             *         description: Successfully retrieved the available stock.
+             *         content:
+             *           application/json:
+             *             schema:
+             *                type: object
+             *                properties:
+             *                  status:
+             *                    type: string
+             *                    example: Ok
+             *                  data:
+             *                    $ref: '#/components/schemas/StockAvailability'
+             *
+             *       400:
+             *         description: Bad Request.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/400'
+             *
+             *       404:
+             *         description: Not Found.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/404'
+             *
+             *       500:
+             *         description: Internal Server Error.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/500'
+             *
+             */
+            router.get(
+              "/:productId/availability",
+              productController.getAvailability
+            );
+
+            /**
+             * @swagger
+             * /v1/{lang}/products/{productId}/frequently-bought-together:
+             *   get:
+             *     tags:
+             *     - Product
+             *     operationId: frequentlyBoughtTogether
+             *     summary: Get the products frequently bought together.
+             *     description: Get the visible, in stock products most often
+             *       ordered with a product, most bought first. The curated
+             *       cross sells of the product complete the list when there
+             *       are not enough of them.
+             *     parameters:
+             *      - in: path
+             *        name: lang
+             *        schema:
+             *          type: string
+             *          example: en
+             *        required: true
+             *        description: Language for the response. Supported
+             *          languages ['en', 'fr']
+             *      - in: path
+             *        name: productId
+             *        schema:
+             *          type: string
+             *        required: true
+             *        description: String ID of the product
+             *      - in: query
+             *        name: limit
+             *        schema:
+             *          type: number
+             *          example: 8
+             *        description: The maximum number of products, 8 by
+             *          default and 20 at most
+             *      - in: query
+             *        name: fallback
+             *        schema:
+             *          type: boolean
+             *          example: true
+             *        description: Complete the list with the cross sells,
+             *          true by default
+             *      - in: query
+             *        name: currency
+             *        schema:
+             *          type: string
+             *          example: USD
+             *        description: Currency of the returned prices (store
+             *          currency by default)
+             *
+             *     responses:
+             *       200:
+             *         description: Successfully retrieved the products.
+             *         content:
+             *           application/json:
+             *             schema:
+             *                type: object
+             *                properties:
+             *                  status:
+             *                    type: string
+             *                    example: Ok
+             *                  data:
+             *                    type: object
+             *                    properties:
+             *                      products:
+             *                        type: array
+             *                        items:
+             *                          allOf:
+             *                            - $ref: '#/components/schemas/Product'
+             *                            - type: object
+             *                              properties:
+             *                                source:
+             *                                  type: string
+             *                                  enum: [co_purchase, cross_sell]
+             *                                co_purchase_count:
+             *                                  type: number
+             *                                  description: Number of orders
+             *                                    with both products
+             *                                  example: 12
+             *
+             *       400:
+             *         description: Bad Request.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/400'
+             *
+             *       404:
+             *         description: Not Found.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/404'
+             *
+             *       500:
+             *         description: Internal Server Error.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/500'
+             *
+             */
+            router.get(
+              "/:productId/frequently-bought-together",
+              productController.getFrequentlyBoughtTogether
+            );
+
+            /**
+             * @swagger
+             * /v1/{lang}/products/{productId}/related:
+             *   get:
+             *     tags:
+             *     - Product
+             *     operationId: relatedProducts
+             *     summary: Get the related products of a product.
+             *     description: Get the visible curated related products of a
+             *       product, then its computed related products (the most
+             *       similar products by shared categories, tags, brand, color
+             *       and price band, refreshed on a schedule).
+             *     parameters:
+             *      - in: path
+             *        name: lang
+             *        schema:
+             *          type: string
+             *          example: en
+             *        required: true
+             *        description: Language for the response. Supported
+             *          languages ['en', 'fr']
+             *      - in: path
+             *        name: productId
+             *        schema:
+             *          type: string
+             *        required: true
+             *        description: String ID of the product
+             *      - in: query
+             *        name: limit
+             *        schema:
+             *          type: number
+             *          example: 12
+             *        description: The maximum number of products, 12 by
+             *          default and 24 at most
+             *      - in: query
+             *        name: currency
+             *        schema:
+             *          type: string
+             *          example: USD
+             *        description: Currency of the returned prices (store
+             *          currency by default)
+             *
+             *     responses:
+             *       200:
+             *         description: Successfully retrieved the related products.
+             *         content:
+             *           application/json:
+             *             schema:
+             *                type: object
+             *                properties:
+             *                  status:
+             *                    type: string
+             *                    example: Ok
+             *                  data:
+             *                    type: object
+             *                    properties:
+             *                      products:
+             *                        type: array
+             *                        items:
+             *                          allOf:
+             *                            - $ref: '#/components/schemas/Product'
+             *                            - type: object
+             *                              properties:
+             *                                source:
+             *                                  type: string
+             *                                  enum: [curated, computed]
+             *
+             *       400:
+             *         description: Bad Request.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/400'
+             *
+             *       404:
+             *         description: Not Found.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/404'
+             *
+             *       500:
+             *         description: Internal Server Error.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/500'
+             *
+             */
+            router.get("/:productId/related", productController.getRelated);
+
+            /**
+             * @swagger
+             * /v1/{lang}/products/{productId}/structured-data:
+             *   get:
+             *     tags:
+             *     - Product
+             *     operationId: productStructuredData
+             *     summary: Get the structured data of a product.
+             *     description: Get the schema.org Product JSON-LD document of
+             *       a published product for rich snippets, with its texts in
+             *       the requested language, one offer per variant (price,
+             *       availability from the stock, end of promotion), the
+             *       aggregate rating of its reviews and the GTIN of its
+             *       barcode.
+             *     parameters:
+             *      - in: path
+             *        name: lang
+             *        schema:
+             *          type: string
+             *          example: en
+             *        required: true
+             *        description: Language for the response. Supported
+             *          languages ['en', 'fr']
+             *      - in: path
+             *        name: productId
+             *        schema:
+             *          type: string
+             *        required: true
+             *        description: String ID of the product
+             *      - in: query
+             *        name: currency
+             *        schema:
+             *          type: string
+             *          example: USD
+             *        description: Currency of the offer prices (store
+             *          currency by default)
+             *
+             *     responses:
+             *       200:
+             *         description: Successfully retrieved the structured data.
+             *         content:
+             *           application/json:
+             *             schema:
+             *                type: object
+             *                properties:
+             *                  status:
+             *                    type: string
+             *                    example: Ok
+             *                  data:
+             *                    $ref: '#/components/schemas/ProductStructuredData'
+             *
+             *       400:
+             *         description: Bad Request.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/400'
+             *
+             *       404:
+             *         description: Not Found.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/404'
+             *
+             *       500:
+             *         description: Internal Server Error.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/500'
+             *
+             */
+            router.get(
+              "/:productId/structured-data",
+              productController.getStructuredData
+            );
+
+            /**
+             * @swagger
+             * /v1/{lang}/products/{productId}/inventory-movements:
+             *   get:
+             *     security:
+             *      - bearerAuth: []
+             *     tags:
+             *     - Product
+             *     operationId: inventoryMovements
+             *     summary: Get the stock movements of a product.
+             *     description: Get the stock ledger of a product (order
+             *       sales, manual adjustments, LD syncs, returns,
+             *       reservations and imports), most recent first.
+             *     parameters:
+             *      - in: path
+             *        name: lang
+             *        schema:
+             *          type: string
+             *          example: en
+             *        required: true
+             *        description: Language for the response. Supported
+             *          languages ['en', 'fr']
+             *      - in: path
+             *        name: productId
+             *        schema:
+             *          type: string
+             *        required: true
+             *        description: String ID of the product
+             *      - in: query
+             *        name: source
+             *        schema:
+             *          type: string
+             *          enum: [order, manual, ld_sync, return, reservation, import, bundle]
+             *        description: Only return the movements of this source
+             *      - in: query
+             *        name: page
+             *        schema:
+             *          type: number
+             *          example: 1
+             *        description: Pagination position, this
+             *          position is set to 1 by default
+             *      - in: query
+             *        name: perPage
+             *        schema:
+             *          type: number
+             *          example: 20
+             *        description: The number of items per page, this
+             *          number is set to 20 by default
+             *
+             *     responses:
+             *       200:
+             *         description: Successfully retrieved the stock movements.
+             *         content:
+             *           application/json:
+             *             schema:
+             *                type: object
+             *                properties:
+             *                  status:
+             *                    type: string
+             *                    example: Ok
+             *                  data:
+             *                    type: object
+             *                    properties:
+             *                      movements:
+             *                        type: array
+             *                        items:
+             *                          $ref: '#/components/schemas/InventoryMovement'
+             *                      allMovements:
+             *                        type: number
+             *                        example: 42
+             *
+             *       400:
+             *         description: Bad Request.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/400'
+             *
+             *       401:
+             *         description: Unauthorized.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/401'
+             *
+             *       500:
+             *         description: Internal Server Error.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/500'
+             *
+             */
+            router.get(
+              "/:productId/inventory-movements",
+              productController.getInventoryMovements
+            );
+
+            /**
+             * @swagger
+             * /v1/{lang}/products/{productId}/inventory-movements:
+             *   post:
+             *     security:
+             *      - bearerAuth: []
+             *     tags:
+             *     - Product
+             *     operationId: adjustStock
+             *     summary: Adjust the stock of a product.
+             *     description: Move the stock of a product, or of one of its
+             *       variants, for a manual correction or a customer return.
+             *       The movement is recorded in the stock ledger.
+             *     parameters:
+             *      - in: path
+             *        name: lang
+             *        schema:
+             *          type: string
+             *          example: en
+             *        required: true
+             *        description: Language for the response. Supported
+             *          languages ['en', 'fr']
+             *      - in: path
+             *        name: productId
+             *        schema:
+             *          type: string
+             *        required: true
+             *        description: String ID of the product
+             *     requestBody:
+             *       required: true
+             *       content:
+             *         application/json:
+             *           schema:
+             *             type: object
+             *             required:
+             *               - delta
+             *               - source
+             *             properties:
+             *               delta:
+             *                 type: number
+             *                 description: The change of the stock.
+             *                 example: 2
+             *               variant_sku:
+             *                 type: string
+             *                 description: The sku of the variant to move.
+             *               source:
+             *                 type: string
+             *                 enum: [manual, return]
+             *               reason:
+             *                 type: string
+             *
+             *     responses:
+             *       200:
+             *         description: The stock has been successfully adjusted.
+             *         content:
+             *           application/json:
+             *             schema:
+             *                type: object
+             *                properties:
+             *                  status:
+             *                    type: string
+             *                    example: Ok
+             *                  data:
+             *                    $ref: '#/components/schemas/Product'
+             *
+             *       400:
+             *         description: Bad Request.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/400'
+             *
+             *       401:
+             *         description: Unauthorized.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/401'
+             *
+             *       404:
+             *         description: Not Found.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/404'
+             *
+             *       412:
+             *         description: Precondition Failed.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/412'
+             *
+             *       500:
+             *         description: Internal Server Error.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/500'
+             *
+             */
+            router.post(
+              "/:productId/inventory-movements",
+              productController.adjustStock
+            );
+
+            /**
+             * @swagger
+             * /v1/{lang}/products/{productId}/stock-subscriptions:
+             *   post:
+             *     security:
+             *      - bearerAuth: []
+             *     tags:
+             *     - Product
+             *     operationId: subscribeToStock
+             *     summary: Subscribe to the back in stock notification.
+             *     description: Subscribe a customer, by email or user id, to
+             *       be notified when the product, or one of its variants, is
+             *       back in stock. The active subscription is returned when
+             *       the customer is already subscribed.
+             *     parameters:
+             *      - in: path
+             *        name: lang
+             *        schema:
+             *          type: string
+             *          example: en
+             *        required: true
+             *        description: Language for the response. Supported
+             *          languages ['en', 'fr']
+             *      - in: path
+             *        name: productId
+             *        schema:
+             *          type: string
+             *        required: true
+             *        description: String ID of the product
+             *     requestBody:
+             *       required: true
+             *       content:
+             *         application/json:
+             *           schema:
+             *             type: object
+             *             properties:
+             *               email:
+             *                 type: string
+             *                 description: The email of the customer, required
+             *                   without user id.
+             *               user_id:
+             *                 type: string
+             *                 description: The id of the customer.
+             *               variant_sku:
+             *                 type: string
+             *                 description: The sku of the awaited variant.
+             *               locale:
+             *                 type: string
+             *                 enum: [en, fr]
+             *                 description: The locale of the notification, the
+             *                   language of the request by default.
+             *
+             *     responses:
+             *       201:
+             *         description: The subscription has been successfully created.
+             *         content:
+             *           application/json:
+             *             schema:
+             *                type: object
+             *                properties:
+             *                  status:
+             *                    type: string
+             *                    example: Ok
+             *                  data:
+             *                    $ref: '#/components/schemas/StockSubscription'
+             *
+             *       400:
+             *         description: Bad Request.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/400'
+             *
+             *       401:
+             *         description: Unauthorized.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/401'
+             *
+             *       404:
+             *         description: Not Found.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/404'
+             *
+             *       412:
+             *         description: Precondition Failed.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/412'
+             *
+             *       500:
+             *         description: Internal Server Error.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/500'
+             *
+             */
+            router.post(
+              "/:productId/stock-subscriptions",
+              productController.subscribeToStock
+            );
+
+            /**
+             * @swagger
+             * /v1/{lang}/products/{productId}/stock-subscriptions/{subscriptionId}:
+             *   delete:
+             *     security:
+             *      - bearerAuth: []
+             *     tags:
+             *     - Product
+             *     operationId: unsubscribeFromStock
+             *     summary: Cancel a back in stock subscription.
+             *     description: Cancel the active back in stock subscription
+             *       of a customer.
+             *     parameters:
+             *      - in: path
+             *        name: lang
+             *        schema:
+             *          type: string
+             *          example: en
+             *        required: true
+             *        description: Language for the response. Supported
+             *          languages ['en', 'fr']
+             *      - in: path
+             *        name: productId
+             *        schema:
+             *          type: string
+             *        required: true
+             *        description: String ID of the product
+             *      - in: path
+             *        name: subscriptionId
+             *        schema:
+             *          type: string
+             *        required: true
+             *        description: String ID of the subscription
+             *
+             *     responses:
+             *       200:
+             *         description: The subscription has been successfully cancelled.
+             *         content:
+             *           application/json:
+             *             schema:
+             *                type: object
+             *                properties:
+             *                  status:
+             *                    type: string
+             *                    example: Ok
+             *                  data:
+             *                    $ref: '#/components/schemas/StockSubscription'
+             *
+             *       400:
+             *         description: Bad Request.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/400'
+             *
+             *       401:
+             *         description: Unauthorized.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/401'
+             *
+             *       404:
+             *         description: Not Found.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/404'
+             *
+             *       500:
+             *         description: Internal Server Error.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/500'
+             *
+             */
+            router.delete(
+              "/:productId/stock-subscriptions/:subscriptionId",
+              productController.unsubscribeFromStock
+            );
+
+            /**
+             * @swagger
+             * /v1/{lang}/products/{productId}/revisions:
+             *   get:
+             *     security:
+             *      - bearerAuth: []
+             *     tags:
+             *     - Product
+             *     operationId: revisions
+             *     summary: Get the revisions of a product.
+             *     description: Get the revision history of a product, most
+             *       recent first. Snapshots are not included in the list.
+             *     parameters:
+             *      - in: path
+             *        name: lang
+             *        schema:
+             *          type: string
+             *          example: en
+             *        required: true
+             *        description: Language for the response. Supported
+             *          languages ['en', 'fr']
+             *      - in: path
+             *        name: productId
+             *        schema:
+             *          type: string
+             *        required: true
+             *        description: String ID of the product
+             *      - in: query
+             *        name: page
+             *        schema:
+             *          type: number
+             *          example: 1
+             *        description: Pagination position, this
+             *          position is set to 1 by default
+             *      - in: query
+             *        name: perPage
+             *        schema:
+             *          type: number
+             *          example: 20
+             *        description: The number of items per page, this
+             *          number is set to 20 by default
+             *
+             *     responses:
+             *       200:
+             *         description: Successfully retrieved revisions.
+             *         content:
+             *           application/json:
+             *             schema:
+             *                type: object
+             *                properties:
+             *                  status:
+             *                    type: string
+             *                    example: Ok
+             *                  data:
+             *                    type: object
+             *                    properties:
+             *                      revisions:
+             *                        type: array
+             *                        items:
+             *                          $ref: '#/components/schemas/ProductRevision'
+             *                      allRevisions:
+             *                        type: number
+             *                        example: 12
+             *
+             *       400:
+             *         description: Bad Request.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/400'
+             *
+             *       401:
+             *         description: Unauthorized.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/401'
+             *
+             *       500:
+             *         description: Internal Server Error.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/500'
+             *
+             */
+            router.get("/:productId/revisions", productController.getRevisions);
+
+            /**
+             * @swagger
+             * /v1/{lang}/products/{productId}/revisions/diff:
+             *   get:
+             *     security:
+             *      - bearerAuth: []
+             *     tags:
+             *     - Product
+             *     operationId: diffRevisions
+             *     summary: Diff two revisions of a product.
+             *     description: Get the JSON Patch operations turning the
+             *       source revision into the target revision. When no target
+             *       is given, the current product is used.
+             *     parameters:
+             *      - in: path
+             *        name: lang
+             *        schema:
+             *          type: string
+             *          example: en
+             *        required: true
+             *        description: Language for the response. Supported
+             *          languages ['en', 'fr']
+             *      - in: path
+             *        name: productId
+             *        schema:
+             *          type: string
+             *        required: true
+             *        description: String ID of the product
+             *      - in: query
+             *        name: from
+             *        schema:
+             *          type: string
+             *        required: true
+             *        description: String ID of the source revision
+             *      - in: query
+             *        name: to
+             *        schema:
+             *          type: string
+             *        description: String ID of the target revision
+             *
+             *     responses:
+             *       200:
+             *         description: Successfully computed the diff.
+             *         content:
+             *           application/json:
+             *             schema:
+             *                type: object
+             *                properties:
+             *                  status:
+             *                    type: string
+             *                    example: Ok
+             *                  data:
+             *                    type: object
+             *                    properties:
+             *                      changes:
+             *                        $ref: '#/components/schemas/PatchBody'
+             *
+             *       400:
+             *         description: Bad Request.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/400'
+             *
+             *       404:
+             *         description: Not Found.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/404'
+             *
+             *       500:
+             *         description: Internal Server Error.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/500'
+             *
+             */
+            router.get(
+              "/:productId/revisions/diff",
+              productController.diffRevisions
+            );
+
+            /**
+             * @swagger
+             * /v1/{lang}/products/{productId}/revisions/{revisionId}:
+             *   get:
+             *     security:
+             *      - bearerAuth: []
+             *     tags:
+             *     - Product
+             *     operationId: revision
+             *     summary: Get a revision of a product.
+             *     description: Get a revision of a product with its snapshot.
+             *     parameters:
+             *      - in: path
+             *        name: lang
+             *        schema:
+             *          type: string
+             *          example: en
+             *        required: true
+             *        description: Language for the response. Supported
+             *          languages ['en', 'fr']
+             *      - in: path
+             *        name: productId
+             *        schema:
+             *          type: string
+             *        required: true
+             *        description: String ID of the product
+             *      - in: path
+             *        name: revisionId
+             *        schema:
+             *          type: string
+             *        required: true
+             *        description: String ID of the revision
+             *
+             *     responses:
+             *       200:
+             *         description: The revision has been successfully obtained.
+             *         content:
+             *           application/json:
+             *             schema:
+             *                type: object
+             *                properties:
+             *                  status:
+             *                    type: string
+             *                    example: Ok
+             *                  data:
+             *                    $ref: '#/components/schemas/ProductRevision'
+             *
+             *       400:
+             *         description: Bad Request.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/400'
+             *
+             *       404:
+             *         description: Not Found.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/404'
+             *
+             *       500:
+             *         description: Internal Server Error.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/500'
+             *
+             */
+            router.get(
+              "/:productId/revisions/:revisionId",
+              productController.getRevision
+            );
+
+            /**
+             * @swagger
+             * /v1/{lang}/products/{productId}/revisions/{revisionId}/restore:
+             *   post:
+             *     security:
+             *      - bearerAuth: []
+             *     tags:
+             *     - Product
+             *     operationId: restoreRevision
+             *     summary: Restore a revision of a product.
+             *     description: Restore a product to the state stored in a
+             *       revision. The restore is itself recorded as a new revision.
+             *     parameters:
+             *      - in: path
+             *        name: lang
+             *        schema:
+             *          type: string
+             *          example: en
+             *        required: true
+             *        description: Language for the response. Supported
+             *          languages ['en', 'fr']
+             *      - in: path
+             *        name: productId
+             *        schema:
+             *          type: string
+             *        required: true
+             *        description: String ID of the product
+             *      - in: path
+             *        name: revisionId
+             *        schema:
+             *          type: string
+             *        required: true
+             *        description: String ID of the revision to restore
+             *
+             *     responses:
+             *       200:
+             *         description: The revision has been successfully restored.
+             *         content:
+             *           application/json:
+             *             schema:
+             *                type: object
+             *                properties:
+             *                  status:
+             *                    type: string
+             *                    example: Ok
+             *                  data:
+             *                    $ref: '#/components/schemas/Product'
+             *
+             *       400:
+             *         description: Bad Request.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/400'
+             *
+             *       404:
+             *         description: Not Found.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/404'
+             *
+             *       500:
+             *         description: Internal Server Error.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/500'
+             *
+             */
+            router.post(
+              "/:productId/revisions/:revisionId/restore",
+              productController.restoreRevision
+            );
+
+            /**
+             * @swagger
+             * /v1/{lang}/products/{productId}/clone:
+             *   post:
+             *     security:
+             *      - bearerAuth: []
+             *     tags:
+             *     - Product
+             *     operationId: cloneProduct
+             *     summary: Clone a product.
+             *     description: Copy a product into a new draft with a new
+             *       slug and sku. The stock and sales counters are reset and
+             *       the clone is a manual product, hidden by default. The
+             *       variants, images, relations (related products, upsells,
+             *       cross sells) and extras are copied unless excluded, the
+             *       reviews only when included.
+             *     parameters:
+             *      - in: path
+             *        name: lang
+             *        schema:
+             *          type: string
+             *          example: en
+             *        required: true
+             *        description: Language for the response. Supported
+             *          languages ['en', 'fr']
+             *      - in: path
+             *        name: productId
+             *        schema:
+             *          type: string
+             *        required: true
+             *        description: String ID of the product to clone
+             *     requestBody:
+             *       content:
+             *         application/json:
+             *           schema:
+             *             type: object
+             *             properties:
+             *               slug:
+             *                 type: string
+             *                 description: The slug of the clone, made unique
+             *                   (the slug of the product by default)
+             *                 example: leather-tote-bag-fall
+             *               sku:
+             *                 type: string
+             *                 description: The sku of the clone (the sku of
+             *                   the product followed by -COPY by default)
+             *                 example: BAG-001-FW26
+             *               status:
+             *                 type: string
+             *                 enum: ["show", "hide"]
+             *                 default: hide
+             *               variants:
+             *                 type: boolean
+             *                 default: true
+             *               images:
+             *                 type: boolean
+             *                 default: true
+             *               reviews:
+             *                 type: boolean
+             *                 default: false
+             *               relations:
+             *                 type: boolean
+             *                 default: true
+             *               extras:
+             *                 type: boolean
+             *                 default: true
+             *
+             *     responses:
+             *       201:
+             *         description: The product has been successfully cloned.
+             *         content:
+             *           application/json:
+             *             schema:
+             *                type: object
+             *                properties:
+             *                  status:
+             *                    type: string
+             *                    example: Ok
+             *                  data:
+             *                    $ref: '#/components/schemas/Product'
+             *
+             *       400:
+             *         description: Bad Request.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/400'
+             *
+             *       401:
+             *         description: Unauthorized.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/401'
+             *
+             *       404:
+             *         description: Not Found.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/404'
+             *
+             *       412:
+             *         description: Precondition Failed.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/412'
+             *
+             *       500:
+             *         description: Internal Server Error.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/500'
+             *
+             */
+            router.post("/:productId/clone", productController.clone);
+          })
+        );
+
+        router.use(
+          "/product",
+          routesGrouping.group((router) => {
+            /**
+             * @swagger
+             * /v1/{lang}/product/{productId}:
+             *   get:
+             *     security:
+             *      - bearerAuth: []
+             *     tags:
+             *     - Product
+             *     operationId: byId
+             *     summary: Get a product by id.
+             *     description: Get a product by id from the system.
+             *     parameters:
+             *      - in: path
+             *        name: lang
+             *        schema:
+             *          type: string
+             *          example: en
+             *        required: true
+             *        description: Language for the response. Supported
+             *          languages ['en', 'fr']
+             *      - in: path
+             *        name: productId
+             *        schema:
+             *          type: string
+             *        required: true
+             *        description: Product's id
+             *      - in: query
+             *        name: currency
+             *        schema:
+             *          type: string
+             *          example: USD
+             *        description: Currency of the returned prices (store
+             *          currency by default)
+             *
+             *     responses:
+             *       200:
+             *         description: The product has been successfully obtained.
+             *         content:
+             *           application/json:
+             *             schema:
+             *                type: object
+             *                properties:
+             *                  status:
+             *                    type: string
+             *                    example: Ok
+             *                  data:
+             *                    $ref: '#/components/schemas/Product'
+             *
+             *       '400':
+             *         description: Bad Request.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/400'
+             *
+             *       '401':
+             *         description: Unauthorized.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/401'
+             *
+             *       '404':
+             *         description: Not Found.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/404'
+             *
+             *       '500':
+             *         description: Internal Server Error.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/500'
+             *
+             */
+            router.get("/:productId", productController.showProductById);
+
+            /**
+             * @swagger
+             * /v1/{lang}/product/slug/{slug}:
+             *   get:
+             *     security:
+             *      - bearerAuth: []
+             *     tags:
+             *     - Product
+             *     operationId: bySlug
+             *     summary: Get product by slug.
+             *     description: Get a product from the system by name (slug).
+             *       A former slug of a product returns a redirect hint to its
+             *       current slug instead.
+             *     parameters:
+             *      - in: path
+             *        name: lang
+             *        schema:
+             *          type: string
+             *          example: en
+             *        required: true
+             *        description: Language for the response. Supported
+             *          languages ['en', 'fr']
+             *      - in: path
+             *        name: slug
+             *        schema:
+             *          type: string
+             *        required: true
+             *        description: Product's id
+             *      - in: query
+             *        name: currency
+             *        schema:
+             *          type: string
+             *          example: USD
+             *        description: Currency of the returned prices (store
+             *          currency by default)
+             *
+             *     responses:
+             *       200:
+             *         description: The product has been successfully obtained.
+             *         content:
+             *           application/json:
+             *             schema:
+             *                type: object
+             *                properties:
+             *                  status:
+             *                    type: string
+             *                    example: Ok
+             *                  data:
+             *                    oneOf:
+             *                      - $ref: '#/components/schemas/Product'
+             *                      - $ref: '#/components/schemas/SlugRedirect'
+             *
+             *       '400':
+             *         description: Bad Request.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/400'
+             *
+             *       '401':
+             *         description: Unauthorized.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/401'
+             *
+             *       '404':
+             *         description: Not Found.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/404'
+             *
+             *       '500':
+             *         description: Internal Server Error.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/500'
+             *
+             */
+            router.get("/slug/:slug", productController.getProductBySlug);
+
+            /**
+             * @swagger
+             * /v1/{lang}/product/slug/{slug}/structured-data:
+             *   get:
+             *     tags:
+             *     - Product
+             *     operationId: productStructuredDataBySlug
+             *     summary: Get the structured data of a product by slug.
+             *     description: Get the schema.org Product JSON-LD document of
+             *       a published product for rich snippets, with its texts in
+             *       the requested language, one offer per variant (price,
+             *       availability from the stock, end of promotion), the
+             *       aggregate rating of its reviews and the GTIN of its
+             *       barcode. A former slug returns a redirect hint to the
+             *       current slug instead.
+             *     parameters:
+             *      - in: path
+             *        name: lang
+             *        schema:
+             *          type: string
+             *          example: en
+             *        required: true
+             *        description: Language for the response. Supported
+             *          languages ['en', 'fr']
+             *      - in: path
+             *        name: slug
+             *        schema:
+             *          type: string
+             *        required: true
+             *        description: The product's slug
+             *      - in: query
+             *        name: currency
+             *        schema:
+             *          type: string
+             *          example: USD
+             *        description: Currency of the offer prices (store
+             *          currency by default)
+             *
+             *     responses:
+             *       200:
+             *         description: Successfully retrieved the structured data.
+             *         content:
+             *           application/json:
+             *             schema:
+             *                type: object
+             *                properties:
+             *                  status:
+             *                    type: string
+             *                    example: Ok
+             *                  data:
+             *                    oneOf:
+             *                      - $ref: '#/components/schemas/ProductStructuredData'
+             *                      - $ref: '#/components/schemas/SlugRedirect'
+             *
+             *       400:
+             *         description: Bad Request.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/400'
+             *
+             *       404:
+             *         description: Not Found.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/404'
+             *
+             *       500:
+             *         description: Internal Server Error.
+             *         content:
+             *          application/json:
+             *             schema:
+             *              $ref: '#/responses/schemas/500'
+             *
+             */
+            router.get(
+              "/slug/:slug/structured-data",
+              productController.getStructuredDataBySlug
+            );
 
             /**
              * @swagger
@@ -2100,7 +4548,7 @@ class ProductRoutes {
              *     - Product
              *     operationId: delete
              *     summary: Delete a product by ID.
-             *     description: Delete a product by ID.
+             *     description: Move a product to the trash.
              *     parameters:
              *      - in: path
              *        name: lang
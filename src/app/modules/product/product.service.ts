@@ -15,6 +15,22 @@ import facebookCatalog from "../luxury-distribution/facebook-catalog.service";
 import associatedCostsService from "../associated-costs/associated-costs.service";
 import profitGridService from "../profit-grid/profit-grid.service";
 import exchangeRateService from "../exchange-rate/exchange-rate.service";
+import productRevisionService from "./product-revision.service";
+import productSearchService from "./product-search.service";
+import inventoryMovementService from "./inventory-movement.service";
+import priceHistoryService from "./price-history.service";
+import productCurrencyService from "./product-currency.service";
+import bundleService from "./bundle.service";
+import coPurchaseService from "./co-purchase.service";
+import productSimilarityService from "./product-similarity.service";
+import {
+  checkObjectId,
+  normalizeSearchText,
+  publishedFilter,
+  slugify,
+  uniqueSlug,
+  getPreviousSlugs,
+} from "../../utils/helpers.util";
 
 const VALID_LANGS = new Set(languageCodes);
 
@@ -26,6 +42,45 @@ function safeLang(lang: string): string {
   return VALID_LANGS.has(lang) ? lang : "en";
 }
 
+// Lower bounds of the price ranges returned in the listing facets
+const FACET_PRICE_RANGES = [0, 100, 250, 500, 1000, 2500, 5000];
+
+// Key of the listing filter holding the selection of each facet
+const FACET_FILTER_KEYS: Record<string, string> = {
+  brands: "$expr",
+  colors: "variants",
+  categories: "categories",
+  tags: "tags",
+  ratings: "rating",
+  prices: "prices.original_price",
+};
+
+// Attribute keys of the legacy variants are 24 hexadecimal characters ids
+const OBJECT_ID = /^[a-f\d]{24}$/i;
+
+// Legacy promo dates without a time
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Fields of a product which are not copied to its clones: identity, history,
+// computed and synchronisation fields
+const CLONE_OMITTED_FIELDS = [
+  "_id",
+  "__v",
+  "product_id",
+  "previous_slugs",
+  "computed_related_products",
+  "related_computed_at",
+  "external_id",
+  "external_sku",
+  "last_synced_at",
+  "publish_at",
+  "unpublish_at",
+  "barcode",
+  "search",
+  "created_at",
+  "updated_at",
+];
+
 /**
  * @author Valentin Magde <valentinmagde@gmail.com>
  * @since 2023-06-21
@@ -34,7 +89,8 @@ function safeLang(lang: string): string {
  */
 class ProductService {
   /**
-   * Show products details by filter
+   * Show products details by filter. The prices are converted, and the
+   * min and max prices read, in the requested currency.
    *
    * @author Valentin Magde <valentinmagde@gmail.com>
    * @since 2023-06-21
@@ -51,247 +107,44 @@ class ProductService {
           const page: number = Number(req.query.page) || 1;
           const pageSize: number = Number(req.query.perPage) || 12;
 
-          const nameRaw: string = (req.query.name as string) || "";
-          const name: string = escapeRegex(nameRaw);
-          const startDateParam = (req.query.startDate as string) || "";
-          const endDateParam = (req.query.endDate as string) || "";
-          const user: string = (req.query.user as string) || "";
-          const featured: string = (req.query.featured as string) || "";
-          const promotional: string = (req.query.promotional as string) || "";
-          // Variant-level promo dates are stored as raw "YYYY-MM-DD" strings
-          // (variants[] has no Mongoose schema/casting), unlike the root-level
-          // Date fields — compare against a same-format string for $elemMatch.
-          const todayStr = new Date().toISOString().slice(0, 10);
-          const status: string = (req.query.status as string) || "";
-          const categories: string[] = req.query.categories
-            ? (req.query.categories as string[])
-            : [];
-          const brands: string[] = req.query.brands
-            ? (req.query.brands as string[])
-            : [];
-          const colors: string[] = req.query.colors
-            ? (req.query.colors as string[])
-            : [];
-          const vendor: string = (req.query.vendor as string) || "";
+          const search: string = normalizeSearchText(
+            (req.query.name as string) || ""
+          );
           const order: string = (req.query.order as string) || "";
           const min: number = req.query.min ? Number(req.query.min) : 0;
           const max: number = req.query.max ? Number(req.query.max) : 0;
-          const rating: number = req.query.rating
-            ? Number(req.query.rating)
-            : 0;
-
-          let startDateFilter = {};
-          let endDateFilter = {};
-
-          if (startDateParam) {
-            const startDate = new Date(startDateParam);
-            startDate.setHours(0, 0, 0, 0); // Début de journée (00:00:00)
-            startDateFilter = { $gte: startDate };
-          }
-
-          if (endDateParam) {
-            const endDate = new Date(endDateParam);
-            endDate.setHours(23, 59, 59, 999); // Fin de journée (23:59:59.999)
-            endDateFilter = { $lte: endDate };
-          }
-
-          // Fetch category and tag data in parallel
-          const [category, tag] = await Promise.all([
-            req.query.category
-              ? Category.findById(req.query.category as string)
-              : null,
-            req.query.tag
-              ? Tag.findOne({ slug: req.query.tag as string })
-              : null,
-          ]);
-
-          // Fetch color attributes if colors are provided in the filter
-          const colorAttributes = colors.length
-            ? await Attribute.find(
-                {
-                  $or: [
-                    {
-                      "variants.name.en": {
-                        $in: colors.map((c) => new RegExp(`^${escapeRegex(c)}$`, "i")),
-                      },
-                    },
-                    {
-                      "variants.name.fr": {
-                        $in: colors.map((c) => new RegExp(`^${escapeRegex(c)}$`, "i")),
-                      },
-                    },
-                  ],
-                  status: "show",
-                },
-                { _id: 1, name: 1, variants: 1 }
-              )
-            : [];
-
-          const colorAttributeKeys = colorAttributes.map((item) =>
-            item._id.toString()
-          );
-
-          // Extract variant IDs based on color names
-          const variantIds = colorAttributes.flatMap((attribute) =>
-            attribute.variants
-              .filter(
-                (variant) =>
-                  colors.includes(variant.name.en) ||
-                  colors.includes(variant.name.fr)
-              )
-              .map((variant) => variant._id?.toString())
-          );
-
-          // Recherche des tags liés au nom saisi (toutes les langues)
-          let tagIdsFromSearch: string[] = [];
-          if (name) {
-            const matchingTags = await Tag.find(
-              {
-                $or: languageCodes.map((l) => ({
-                  [`name.${l}`]: { $regex: name, $options: "i" },
-                })),
-              },
-              "_id"
-            );
-
-            tagIdsFromSearch = matchingTags.map((tag) => tag._id.toString());
+          const withFacets: boolean = req.query.facets === "true";
+          // Opt-in cursor pagination: "after" is the nextCursor of the
+          // previous page, "cursor=true" asks for the first page
+          const cursorMode: boolean =
+            req.query.cursor === "true" || !!req.query.after;
+          const withCount: boolean = !cursorMode || req.query.count !== "false";
+          const cursor = req.query.after
+            ? this.decodeCursor(req.query.after as string, order)
+            : null;
+
+          if (cursorMode && (order === "relevance" || (req.query.after && !cursor))) {
+            return resolve("INVALID_CURSOR");
           }
 
-          // Recherche des catégories liées au nom saisi (toutes les langues)
-          let categoryIdsFromSearch: string[] = [];
-          if (name) {
-            const matchingCategories = await Category.find(
-              {
-                $or: languageCodes.map((l) => ({
-                  [`name.${l}`]: { $regex: name.trim(), $options: "i" },
-                })),
-              },
-              "_id"
-            );
-
-            categoryIdsFromSearch = matchingCategories.map((cat) =>
-              cat._id.toString()
-            );
-          }
+          const currency = (req.query.currency as string) || undefined;
+          const rate: any = await productCurrencyService.getRate(currency);
+          if (rate === null) return resolve("INVALID_CURRENCY");
 
-          const combinedCategoryIds = [
-            ...(category ? [new Types.ObjectId(category._id)] : []),
-            ...categoryIdsFromSearch.map((id) => new Types.ObjectId(id)),
-            ...categories.map((id) => new Types.ObjectId(id)),
-          ];
-
-          const filter = {
-            ...(vendor ? { vendor } : {}),
-            ...(name
-              ? {
-                  $or: [
-                    ...languageCodes.flatMap((l) => [
-                      { [`title.${l}`]: { $regex: name.trim(), $options: "i" } },
-                      { [`description.${l}`]: { $regex: name.trim(), $options: "i" } },
-                      { [`short_description.${l}`]: { $regex: name.trim(), $options: "i" } },
-                    ]),
-                    { name: { $regex: name.trim(), $options: "i" } },
-                  ],
-                }
-              : {}),
-            ...(featured ? { featured: { $gte: featured } } : {}),
-            ...(promotional === "true"
-              ? {
-                  $or: [
-                    {
-                      promotional: true,
-                      date_from_promo: { $lte: new Date() },
-                      date_to_promo: { $gte: new Date() },
-                    },
-                    {
-                      variants: {
-                        $elemMatch: {
-                          promotional: true,
-                          date_from_promo: { $lte: todayStr },
-                          date_to_promo: { $gte: todayStr },
-                        },
-                      },
-                    },
-                  ],
-                }
-              : {}),
-            ...(min || max
-              ? {
-                  "prices.original_price": {
-                    ...(min ? { $gte: min } : {}),
-                    ...(max > 0 ? { $lte: max } : {}),
-                  },
-                }
-              : {}),
-            ...(rating ? { rating: { $gte: rating } } : {}),
-            ...(combinedCategoryIds.length
-              ? { categories: { $in: combinedCategoryIds } }
-              : {}),
-            ...(brands.length
-              ? {
-                  $expr: {
-                    $in: [
-                      { $toLower: "$brand" },
-                      brands.map((b) => b.toLowerCase()),
-                    ],
-                  },
-                }
-              : {}),
-            ...(colors.length
-              ? {
-                  variants: {
-                    $elemMatch: {
-                      $or: [
-                        // Produits normaux : couleur via attribut TextColor
-                        ...colorAttributeKeys.map((colorKey) => ({
-                          [colorKey.toString()]: { $in: variantIds },
-                        })),
-                        // Produits LD : couleur brute dans ld_color
-                        {
-                          ld_color: {
-                            $in: colors.map((c) => new RegExp(`^${escapeRegex(c)}$`, "i")),
-                          },
-                        },
-                      ],
-                    },
-                  },
-                }
-              : {}),
-            ...(tag || tagIdsFromSearch.length
-              ? {
-                  tags: {
-                    $in: [tag?._id, ...tagIdsFromSearch].filter(Boolean),
-                  },
-                }
-              : {}),
-            ...(user ? { user: user } : {}),
-            ...(startDateParam || endDateParam
-              ? {
-                  created_at: {
-                    ...startDateFilter,
-                    ...endDateFilter,
-                  },
-                }
-              : {}),
-            ...(status === "published"
-              ? { status: "show" }
-              : status === "unPublished"
-              ? { status: "hide" }
-              : status === "status-selling"
-              ? { current_stock: { $gt: 0 } }
-              : status === "status-out-of-stock"
-              ? { current_stock: { $lt: 1 } }
-              : {}),
-          };
+          const filter = await this.buildFilter(req, rate);
 
           let products;
-          let count;
+          let count: any;
+          let sortOrder: any;
 
           if (order === "lowest" || order === "highest") {
+            sortOrder = { finalPrice: order === "highest" ? -1 : 1, _id: 1 };
+
             // Pipeline d'agrégation amélioré
             const aggregationPipeline: any[] = [
               // Étape 1: Appliquer le filtre de base
               { $match: filter },
+              { $project: { search: 0 } },
 
               // Étape 2: Préparer les données de prix
               {
@@ -362,26 +215,28 @@ class ProductService {
                 $match: {
                   $expr: {
                     $and: [
-                      ...(min ? [{ $gte: ["$finalPrice", min] }] : []),
-                      ...(max > 0 ? [{ $lte: ["$finalPrice", max] }] : []),
+                      ...(min ? [{ $gte: ["$finalPrice", min / rate] }] : []),
+                      ...(max > 0 ? [{ $lte: ["$finalPrice", max / rate] }] : []),
                     ],
                   },
                 },
               },
 
-              // Étape 5: Trier les résultats
-              {
-                $sort: {
-                  finalPrice: order === "highest" ? -1 : 1,
-                  _id: 1,
-                },
-              },
+              // Étape 5: Reprendre après le curseur (mode curseur)
+              ...(cursor
+                ? [{ $match: this.getCursorCondition(sortOrder, cursor) }]
+                : []),
+
+              // Étape 6: Trier les résultats
+              { $sort: sortOrder },
 
-              // Étape 6: Pagination
-              { $skip: (page - 1) * pageSize },
-              { $limit: pageSize },
+              // Étape 7: Pagination (un élément de plus en mode curseur pour
+              // savoir s'il reste une page)
+              ...(cursorMode
+                ? [{ $limit: pageSize + 1 }]
+                : [{ $skip: (page - 1) * pageSize }, { $limit: pageSize }]),
 
-              // Étape 7: Peuplement des relations
+              // Étape 8: Peuplement des relations
               {
                 $lookup: {
                   from: "categories",
@@ -403,25 +258,54 @@ class ProductService {
             // Exécuter en parallèle
             const [aggregationResult, totalCount] = await Promise.all([
               Product.aggregate(aggregationPipeline),
-              Product.countDocuments(filter),
+              withCount ? Product.countDocuments(filter) : null,
             ]);
 
             products = aggregationResult;
             count = totalCount;
           } else {
-            // Gestion des autres tris (inchangée)
-            const sortOrder = this.getSortOrder(order);
-            count = await Product.countDocuments(filter);
-            products = await Product.find(filter)
+            // The text score only exists when a search term is given
+            const relevance = order === "relevance" && !!search;
+            sortOrder = relevance
+              ? { score: { $meta: "textScore" }, _id: -1 }
+              : this.getSortOrder(order);
+
+            // Ties on the sort key are broken by _id so the cursor is stable
+            if (cursorMode && !("_id" in sortOrder)) {
+              sortOrder._id = Object.values(sortOrder)[0];
+            }
+
+            count = withCount ? await Product.countDocuments(filter) : null;
+
+            const query = Product.find(
+              cursor
+                ? {
+                    ...filter,
+                    $and: [
+                      ...(filter.$and || []),
+                      this.getCursorCondition(sortOrder, cursor),
+                    ],
+                  }
+                : filter,
+              relevance ? { score: { $meta: "textScore" } } : {}
+            )
               .populate("categories", "_id name slug")
               .populate("category", "_id name slug")
               .populate("tags", "name slug")
-              .sort(sortOrder)
-              .skip(pageSize * (page - 1))
-              .limit(pageSize)
-              .lean();
+              .sort(sortOrder);
+
+            products = cursorMode
+              ? await query.limit(pageSize + 1).lean()
+              : await query
+                  .skip(pageSize * (page - 1))
+                  .limit(pageSize)
+                  .lean();
           }
 
+          // In cursor mode one extra product was fetched to detect a next page
+          const hasMore = cursorMode && products.length > pageSize;
+          if (hasMore) products = products.slice(0, pageSize);
+
           // Group variants for each product
           products.forEach((product: any) => {
             if (product.variants) {
@@ -432,6 +316,23 @@ class ProductService {
             }
           });
 
+          // The cursor is built from the stored prices, before the conversion
+          const nextCursor = hasMore
+            ? this.encodeCursor(order, sortOrder, products[products.length - 1])
+            : null;
+
+          products = productCurrencyService.convertProducts(products, rate, currency);
+
+          if (cursorMode) {
+            return resolve({
+              products,
+              perPage: pageSize,
+              allProducts: count,
+              nextCursor,
+              ...(withFacets ? { facets: await this.getFacets(filter, lang, rate) } : {}),
+            });
+          }
+
           resolve({
             products,
             previousPage: page > 1 ? page - 1 : null,
@@ -440,6 +341,7 @@ class ProductService {
             currentPage: page,
             pages: Math.ceil(count / pageSize),
             nextPage: page < Math.ceil(count / pageSize) ? page + 1 : null,
+            ...(withFacets ? { facets: await this.getFacets(filter, lang, rate) } : {}),
           });
         } catch (error) {
           reject(error);
@@ -448,6 +350,202 @@ class ProductService {
     });
   }
 
+  /**
+   * Build the MongoDB filter of the products listing from the query
+   * parameters (search, categories, tags, brands, colors, prices, status...)
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {Request} req the http request
+   * @param {number} rate the conversion rate of the min and max prices
+   * @return {Promise<any>} the filter
+   */
+  public async buildFilter(req: Request, rate = 1): Promise<any> {
+    const nameRaw: string = (req.query.name as string) || "";
+    const search: string = normalizeSearchText(nameRaw);
+    const startDateParam = (req.query.startDate as string) || "";
+    const endDateParam = (req.query.endDate as string) || "";
+    const user: string = (req.query.user as string) || "";
+    const featured: string = (req.query.featured as string) || "";
+    const promotional: string = (req.query.promotional as string) || "";
+    const status: string = (req.query.status as string) || "";
+    const categories: string[] = req.query.categories
+      ? (req.query.categories as string[])
+      : [];
+    const brands: string[] = req.query.brands
+      ? (req.query.brands as string[])
+      : [];
+    const colors: string[] = req.query.colors
+      ? (req.query.colors as string[])
+      : [];
+    const vendor: string = (req.query.vendor as string) || "";
+    const min: number = req.query.min ? Number(req.query.min) : 0;
+    const max: number = req.query.max ? Number(req.query.max) : 0;
+    const rating: number = req.query.rating
+      ? Number(req.query.rating)
+      : 0;
+
+    let startDateFilter = {};
+    let endDateFilter = {};
+
+    if (startDateParam) {
+      const startDate = new Date(startDateParam);
+      startDate.setHours(0, 0, 0, 0); // Début de journée (00:00:00)
+      startDateFilter = { $gte: startDate };
+    }
+
+    if (endDateParam) {
+      const endDate = new Date(endDateParam);
+      endDate.setHours(23, 59, 59, 999); // Fin de journée (23:59:59.999)
+      endDateFilter = { $lte: endDate };
+    }
+
+    // Fetch category and tag data in parallel
+    const [category, tag] = await Promise.all([
+      req.query.category
+        ? Category.findById(req.query.category as string)
+        : null,
+      req.query.tag
+        ? Tag.findOne({ slug: req.query.tag as string })
+        : null,
+    ]);
+
+    // Fetch color attributes if colors are provided in the filter
+    const colorAttributes = colors.length
+      ? await Attribute.find(
+          {
+            $or: [
+              {
+                "variants.name.en": {
+                  $in: colors.map((c) => new RegExp(`^${escapeRegex(c)}$`, "i")),
+                },
+              },
+              {
+                "variants.name.fr": {
+                  $in: colors.map((c) => new RegExp(`^${escapeRegex(c)}$`, "i")),
+                },
+              },
+            ],
+            status: "show",
+          },
+          { _id: 1, name: 1, variants: 1 }
+        )
+      : [];
+
+    const colorAttributeKeys = colorAttributes.map((item) => item._id);
+
+    // Extract variant IDs based on color names
+    const variantIds = colorAttributes.flatMap((attribute) =>
+      attribute.variants
+        .filter(
+          (variant) =>
+            colors.includes(variant.name.en) ||
+            colors.includes(variant.name.fr)
+        )
+        .map((variant) => variant._id)
+    );
+
+    const combinedCategoryIds = [
+      ...(category ? [new Types.ObjectId(category._id)] : []),
+      ...categories.map((id) => new Types.ObjectId(id)),
+    ];
+
+    // Full-text search over title, brand, tags, categories and
+    // descriptions of the supported languages (see product_search index)
+    return {
+      deleted_at: null,
+      ...(vendor ? { vendor } : {}),
+      ...(search ? { $text: { $search: search } } : {}),
+      ...(featured ? { featured: { $gte: featured } } : {}),
+      ...(promotional === "true"
+        ? {
+            $or: [
+              {
+                promotional: true,
+                date_from_promo: { $lte: new Date() },
+                date_to_promo: { $gte: new Date() },
+              },
+              {
+                variants: {
+                  $elemMatch: {
+                    promotional: true,
+                    date_from_promo: { $lte: new Date() },
+                    date_to_promo: { $gte: new Date() },
+                  },
+                },
+              },
+            ],
+          }
+        : {}),
+      ...(min || max
+        ? {
+            "prices.original_price": {
+              ...(min ? { $gte: min / rate } : {}),
+              ...(max > 0 ? { $lte: max / rate } : {}),
+            },
+          }
+        : {}),
+      ...(rating ? { rating: { $gte: rating } } : {}),
+      ...(combinedCategoryIds.length
+        ? { categories: { $in: combinedCategoryIds } }
+        : {}),
+      ...(brands.length
+        ? {
+            $expr: {
+              $in: [
+                { $toLower: "$brand" },
+                brands.map((b) => b.toLowerCase()),
+              ],
+            },
+          }
+        : {}),
+      ...(colors.length
+        ? {
+            variants: {
+              $elemMatch: {
+                $or: [
+                  // Produits normaux : couleur via attribut TextColor
+                  {
+                    attributes: {
+                      $elemMatch: {
+                        attribute: { $in: colorAttributeKeys },
+                        value: { $in: variantIds },
+                      },
+                    },
+                  },
+                  // Produits LD : couleur brute dans ld_color
+                  {
+                    ld_color: {
+                      $in: colors.map((c) => new RegExp(`^${escapeRegex(c)}$`, "i")),
+                    },
+                  },
+                ],
+              },
+            },
+          }
+        : {}),
+      ...(tag ? { tags: { $in: [tag._id] } } : {}),
+      ...(user ? { user: user } : {}),
+      ...(startDateParam || endDateParam
+        ? {
+            created_at: {
+              ...startDateFilter,
+              ...endDateFilter,
+            },
+          }
+        : {}),
+      ...(status === "published"
+        ? publishedFilter()
+        : status === "unPublished"
+        ? { status: "hide" }
+        : status === "status-selling"
+        ? { current_stock: { $gt: 0 } }
+        : status === "status-out-of-stock"
+        ? { current_stock: { $lt: 1 } }
+        : {}),
+    };
+  }
   /**
    * get all products shown
    *
@@ -460,7 +558,10 @@ class ProductService {
     return new Promise((resolve, reject) => {
       (async () => {
         try {
-          const products = await Product.find({ status: "show" }).sort({
+          const products = await Product.find({
+            ...publishedFilter(),
+            deleted_at: null,
+          }).sort({
             _id: -1,
           });
 
@@ -490,7 +591,8 @@ class ProductService {
           const bestSellers = await Product.find({
             updated_at: { $gte: startDate, $lte: endDate },
             sales_count: { $gt: 0 },
-            status: "show",
+            ...publishedFilter(),
+            deleted_at: null,
           })
             .sort({ sales_count: -1 }) // Trier par nombre de ventes décroissant
             .limit(10)
@@ -513,17 +615,22 @@ class ProductService {
    * @param {string} category - The product default category.
    * @param {string} title - The product title.
    * @param {string} slug - The product slug.
+   * @param {string} currency - The currency of the prices.
    * @return {Promise<any>} the eventual completion or failure
    */
   public getShowingStoreProducts(
     category: string,
     title: string,
-    slug: string
+    slug: string,
+    currency?: string
   ): Promise<any> {
     return new Promise((resolve, reject) => {
       (async () => {
         try {
-          const queryObject: any = { status: "show" };
+          const rate: any = await productCurrencyService.getRate(currency);
+          if (rate === null) return resolve("INVALID_CURRENCY");
+
+          const queryObject: any = { ...publishedFilter(), deleted_at: null };
 
           if (category) {
             queryObject.categories = {
@@ -531,13 +638,8 @@ class ProductService {
             };
           }
 
-          if (title) {
-            const safeTitle = escapeRegex(title);
-            const titleQueries = languageCodes.map((lang) => ({
-              [`title.${lang}`]: { $regex: safeTitle, $options: "i" },
-            }));
-
-            queryObject.$or = titleQueries;
+          if (normalizeSearchText(title)) {
+            queryObject.$text = { $search: normalizeSearchText(title) };
           }
           if (slug) {
             queryObject.slug = { $regex: escapeRegex(slug), $options: "i" };
@@ -552,61 +654,89 @@ class ProductService {
             products = await Product.find(queryObject)
               .populate({ path: "category", select: "name _id" })
               .sort({ _id: -1 })
-              .limit(100);
-            relatedProducts = await Product.find({
-              category: products[0]?.category,
-            }).populate({ path: "category", select: "_id name" });
+              .limit(100)
+              .lean();
+            relatedProducts = products[0]
+              ? (await productSimilarityService.findRelated(products[0]._id)) || []
+              : [];
           } else if (title || category) {
             products = await Product.find(queryObject)
               .populate({ path: "category", select: "name _id" })
-              .sort({ _id: -1 })
-              .limit(100);
+              .sort(
+                queryObject.$text
+                  ? { score: { $meta: "textScore" }, _id: -1 }
+                  : { _id: -1 }
+              )
+              .limit(100)
+              .lean();
           } else {
-            popularProducts = await Product.find({ status: "show" })
+            popularProducts = await Product.find({
+              ...publishedFilter(),
+              deleted_at: null,
+            })
               .populate({ path: "category", select: "name _id" })
               .sort({ sales: -1 })
-              .limit(20);
+              .limit(20)
+              .lean();
 
             discountedProducts = await Product.find({
-              status: "show", // Ensure status "show" for discounted products
+              ...publishedFilter(), // Only the published discounted products
+              deleted_at: null,
+              // The promotion engine keeps the prices of the running promotions
               $or: [
                 {
-                  $and: [
-                    { isCombination: true },
-                    {
-                      variants: {
-                        $elemMatch: {
-                          discount: { $gt: "0.00" },
+                  is_combination: true,
+                  $expr: {
+                    $anyElementTrue: [
+                      {
+                        $map: {
+                          input: { $ifNull: ["$variants", []] },
+                          as: "variant",
+                          in: {
+                            $and: [
+                              { $gt: ["$$variant.price", 0] },
+                              { $lt: ["$$variant.price", "$$variant.original_price"] },
+                            ],
+                          },
                         },
                       },
-                    },
-                  ],
+                    ],
+                  },
                 },
                 {
-                  $and: [
-                    { isCombination: false },
-                    {
-                      $expr: {
-                        $gt: [
-                          { $toDouble: "$prices.discount" }, // Convert the discount field to a double
-                          0,
-                        ],
-                      },
-                    },
-                  ],
+                  is_combination: { $ne: true },
+                  $expr: {
+                    $and: [
+                      { $gt: ["$prices.price", 0] },
+                      { $lt: ["$prices.price", "$prices.original_price"] },
+                    ],
+                  },
                 },
               ],
             })
               .populate({ path: "category", select: "name _id" })
               .sort({ _id: -1 })
-              .limit(20);
+              .limit(20)
+              .lean();
           }
 
           resolve({
-            products,
-            popularProducts,
-            relatedProducts,
-            discountedProducts,
+            products: productCurrencyService.convertProducts(products, rate, currency),
+            popularProducts: productCurrencyService.convertProducts(
+              popularProducts,
+              rate,
+              currency
+            ),
+            relatedProducts: productCurrencyService.convertProducts(
+              relatedProducts,
+              rate,
+              currency
+            ),
+            discountedProducts: productCurrencyService.convertProducts(
+              discountedProducts,
+              rate,
+              currency
+            ),
           });
         } catch (error) {
           reject(error);
@@ -631,7 +761,8 @@ class ProductService {
             {
               $match: {
                 brand: { $ne: "" },
-                status: "show",
+                ...publishedFilter(),
+                deleted_at: null,
               },
             },
             {
@@ -669,21 +800,37 @@ class ProductService {
   }
 
   /**
-   * Create a products
+   * Create a products. The slug is derived from the title when not given
+   * and made unique. The stock and the prices of a bundle are derived
+   * from its components.
    *
    * @author Valentin Magde <valentinmagde@gmail.com>
    * @since 2023-06-24
    *
    * @param {any} data the request body
    *
-   * @return {Promise<void>} the eventual completion or failure
+   * @return {Promise<unknown>} the eventual completion or failure
    */
-  public async store(data: any): Promise<void> {
+  public async store(data: any): Promise<unknown> {
     return new Promise((resolve, reject) => {
       (async () => {
         try {
+          let derived: any = {};
+
+          if (data.type === "bundle") {
+            derived = await bundleService.derive(data);
+            if (typeof derived === "string") return resolve(derived);
+          }
+
           const product = new Product({
             ...data,
+            ...derived,
+            slug: await uniqueSlug(
+              Product,
+              data.slug || data.title?.en || data.title?.fr,
+              { fallback: "product" }
+            ),
+            variants: this.normalizeVariants(data.variants),
             name: data.title.en || data.title.fr,
             // productId: cname + (count + 1),
             product_id: data.product_id
@@ -693,6 +840,14 @@ class ProductService {
 
           const createdProduct: any = await product.save();
 
+          await inventoryMovementService
+            .recordChanges(null, createdProduct, "manual")
+            .catch((err) => console.error("[InventoryMovement] store:", err));
+
+          await productSearchService
+            .refresh({ _id: createdProduct._id })
+            .catch((err) => console.error("[ProductSearch] store:", err));
+
           if (config.env === "production") {
             await this.syncProductToFacebook(createdProduct);
           }
@@ -705,6 +860,146 @@ class ProductService {
     });
   }
 
+  /**
+   * Copy a product into a new draft with a new slug and sku, its variants
+   * with new skus too, and without barcodes. The variants, images,
+   * relations (related products, upsells and cross sells) and extras are
+   * copied unless excluded, the reviews only when included. The stock and
+   * the sales are reset, the variant stock included, and the clone is a
+   * manual product, hidden unless another status is given. The stock of a
+   * bundle is derived from its components.
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {string} productId the id of the copied product
+   * @param {any} options the options ({ slug, sku, status, variants,
+   *                      images, reviews, relations, extras })
+   * @return {Promise<unknown>} the clone, "INVALID_BUNDLE" when a component
+   *                            of the bundle is gone, null when the product
+   *                            is not found
+   */
+  public clone(productId: string, options: any = {}): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          const source: any = await Product.findOne({
+            _id: productId,
+            deleted_at: null,
+          }).lean();
+
+          if (!source) return resolve(null);
+
+          const withImages = this.isIncluded(options.images, true);
+          const withReviews = this.isIncluded(options.reviews, false);
+          const withRelations = this.isIncluded(options.relations, true);
+          const data: any = { ...source };
+          CLONE_OMITTED_FIELDS.forEach((key) => delete data[key]);
+
+          let derived: any = {};
+
+          if (source.type === "bundle") {
+            derived = await bundleService.derive(source);
+            if (typeof derived === "string") return resolve(derived);
+          }
+
+          const copied: any[] = this.isIncluded(options.variants, true)
+            ? source.variants || []
+            : [];
+          const variants: any[] = [];
+
+          // The variant skus and barcodes identify the variants of the source
+          for (const variant of copied) {
+            variants.push({
+              ...variant,
+              sku: await this.getCloneSku(variant.sku, "variants.sku"),
+              barcode: undefined,
+              image: withImages ? variant.image : undefined,
+              quantity: 0,
+              reserved: 0,
+              ld_stock_id: undefined,
+              ld_variant_ref: undefined,
+            });
+          }
+
+          const product = new Product({
+            ...data,
+            slug: await uniqueSlug(Product, options.slug || source.slug, {
+              fallback: "product",
+            }),
+            sku: options.sku || (await this.getCloneSku(source.sku)),
+            product_id: new mongoose.Types.ObjectId(),
+            image: withImages ? source.image : [],
+            variants: this.normalizeVariants(variants),
+            is_combination: variants.length > 0 && source.is_combination,
+            reviews: withReviews ? source.reviews : [],
+            rating: withReviews ? source.rating : 0,
+            num_reviews: withReviews ? source.num_reviews : 0,
+            related_products: withRelations ? source.related_products : [],
+            upsells: withRelations ? source.upsells : [],
+            cross_sells: withRelations ? source.cross_sells : [],
+            extras: this.isIncluded(options.extras, true) ? source.extras : [],
+            initial_stock: 0,
+            current_stock: 0,
+            reserved_stock: 0,
+            sales_count: 0,
+            source: "manual",
+            status: options.status || "hide",
+            deleted_at: null,
+            ...derived,
+          });
+
+          const createdProduct: any = await product.save();
+
+          await inventoryMovementService
+            .recordChanges(null, createdProduct, "manual", {
+              reason: `clone of ${source._id}`,
+            })
+            .catch((err) => console.error("[InventoryMovement] clone:", err));
+
+          await productSearchService
+            .refresh({ _id: createdProduct._id })
+            .catch((err) => console.error("[ProductSearch] clone:", err));
+
+          resolve(createdProduct);
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /**
+   * Check whether a slug is available for a product, i.e. no other
+   * product uses it as its slug or as a previous slug. A free slug is
+   * suggested when it is taken.
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {string} slug the wanted slug
+   * @param {string} productId the edited product, if any
+   * @return {Promise<unknown>} the slugified value, its availability and
+   *                            the suggested slug
+   */
+  public getSlugAvailability(slug: string, productId?: string): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          const wanted = slugify(slug);
+          const suggestion = await uniqueSlug(Product, wanted, {
+            excludeId: productId,
+            fallback: "product",
+          });
+
+          resolve({ slug: wanted, available: suggestion === wanted, suggestion });
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
   /**
    * Create a review
    *
@@ -719,7 +1014,7 @@ class ProductService {
     return new Promise((resolve, reject) => {
       (async () => {
         try {
-          const product = await Product.findById(productId);
+          const product = await Product.findOne({ _id: productId, deleted_at: null });
 
           if (product) {
             let updatedProduct: any = null;
@@ -774,7 +1069,23 @@ class ProductService {
     return new Promise((resolve, reject) => {
       (async () => {
         try {
-          const createdProducts: any = await Product.insertMany(data);
+          const createdProducts: any = await Product.insertMany(
+            data.map((item) => ({
+              ...item,
+              variants: this.normalizeVariants(item.variants),
+            }))
+          );
+
+          await Promise.all(
+            createdProducts.map((product: any) =>
+              inventoryMovementService.recordChanges(null, product, "manual")
+            )
+          ).catch((err) => console.error("[InventoryMovement] storeMultiple:", err));
+
+          await productSearchService
+            .refresh({ _id: { $in: createdProducts.map((x: any) => x._id) } })
+            .catch((err) => console.error("[ProductSearch] storeMultiple:", err));
+
           resolve(createdProducts);
         } catch (error) {
           reject(error);
@@ -790,19 +1101,27 @@ class ProductService {
    * @since 2023-06-24
    *
    * @param {string} productId the product's id
+   * @param {string} currency the currency of the prices
    * @return {Promise<unknown>} the eventual completion or failure
    */
-  public showProductById(productId: string): Promise<unknown> {
+  public showProductById(productId: string, currency?: string): Promise<unknown> {
     return new Promise((resolve, reject) => {
       (async () => {
         try {
-          const product: any = await Product.findById(productId)
+          const rate: any = await productCurrencyService.getRate(currency);
+          if (rate === null) return resolve("INVALID_CURRENCY");
+
+          const product: any = await Product.findOne({
+            _id: productId,
+            deleted_at: null,
+          })
             .populate("categories", "_id name")
             .populate("tags", "name slug")
             .populate("category", "_id name")
             .populate("upsells")
             .populate("cross_sells")
             .populate("related_products")
+            .populate("bundle_components.product", "title slug image prices")
             .populate({
               path: "extras",
               populate: [
@@ -841,7 +1160,13 @@ class ProductService {
             product.grouped_variants = groupedVariants;
           }
 
-          resolve(product);
+          resolve(
+            productCurrencyService.convertProduct(
+              await priceHistoryService.withLowestPrices(product),
+              rate,
+              currency
+            )
+          );
         } catch (error) {
           reject(error);
         }
@@ -850,24 +1175,52 @@ class ProductService {
   }
 
   /**
-   * Get product by slug
+   * Get product by slug. A former slug of a product gives a redirect
+   * hint ({ redirect: { status: 301, slug } }) to its current slug.
    *
    * @author Valentin Magde <valentinmagde@gmail.com>
    * @since 2024-07-21
    *
    * @param {string} productSlug the product's slug.
+   * @param {string} currency the currency of the prices.
    * @return {Promise<unknown>} the eventual completion or failure
    */
-  public getProductBySlug(productSlug: string): Promise<unknown> {
+  public getProductBySlug(productSlug: string, currency?: string): Promise<unknown> {
     return new Promise((resolve, reject) => {
       (async () => {
         try {
-          const product = await Product.findOne({ slug: productSlug })
+          const rate: any = await productCurrencyService.getRate(currency);
+          if (rate === null) return resolve("INVALID_CURRENCY");
+
+          const product = await Product.findOne({
+            slug: productSlug,
+            deleted_at: null,
+          })
             .populate("categories", "name slug")
             .populate("tags", "name slug")
-            .populate("related_products");
+            .populate("related_products")
+            .populate("bundle_components.product", "title slug image prices")
+            .lean();
+
+          // An empty slug would match every product without previous slugs
+          if (!product && productSlug) {
+            const renamed = await Product.findOne(
+              { previous_slugs: productSlug, deleted_at: null },
+              { slug: 1 }
+            ).lean();
+
+            if (renamed) {
+              return resolve({ redirect: { status: 301, slug: renamed.slug } });
+            }
+          }
 
-          resolve(product);
+          resolve(
+            productCurrencyService.convertProduct(
+              await priceHistoryService.withLowestPrices(product),
+              rate,
+              currency
+            )
+          );
         } catch (error) {
           reject(error);
         }
@@ -904,6 +1257,7 @@ class ProductService {
               else {
                 product.categories = [...product.categories, category._id];
                 await product.save();
+                await productSearchService.refresh({ _id: product._id });
 
                 category.products = [...category.products, product._id];
                 await category.save();
@@ -955,6 +1309,7 @@ class ProductService {
                 );
 
                 await product.save();
+                await productSearchService.refresh({ _id: product._id });
 
                 category.products = category.products.filter(
                   (x: any) => x.toString() != product._id.toString()
@@ -1002,6 +1357,7 @@ class ProductService {
               else {
                 product.tags = [...product.tags, tag._id];
                 await product.save();
+                await productSearchService.refresh({ _id: product._id });
 
                 tag.products = [...tag.products, product._id];
                 await tag.save();
@@ -1049,6 +1405,7 @@ class ProductService {
                 );
 
                 await product.save();
+                await productSearchService.refresh({ _id: product._id });
 
                 tag.products = tag.products.filter(
                   (x: any) => x.toString() != product._id.toString()
@@ -1099,29 +1456,39 @@ class ProductService {
     return {
       totalCostEUR,
       grossProfit,
-      finalPrice: conversion.convertedAmount,
+      finalPrice: conversion?.converted_amount,
       conversionDetails: conversion
     };
   }
 
   /**
-   * Update a product
+   * Update a product. The stock and the prices of a bundle are derived
+   * from its components.
    *
    * @author Valentin Magde <valentinmagde@gmail.com>
    * @since 2024-07-21
    *
    * @param {string} productId the product id.
    * @param {any} data the product data.
+   * @param {any} user the acting user.
+   * @param {string} restoredFrom the restored revision id, if any.
    * @return {Promise<unknown>} the eventual completion or failure
    */
-  public async update(productId: string, data: ProductType): Promise<unknown> {
+  public async update(
+    productId: string,
+    data: ProductType,
+    user?: any,
+    restoredFrom?: string
+  ): Promise<unknown> {
     return new Promise((resolve, reject) => {
       (async () => {
         try {
-          const product = await Product.findById(productId);
+          const product = await Product.findOne({ _id: productId, deleted_at: null });
           // console.log("product", product);
 
           if (product) {
+            const before = product.toObject();
+
             product.title = { ...product.title, ...data.title };
             product.short_description = {
               ...product.short_description,
@@ -1135,14 +1502,35 @@ class ProductService {
             product.product_id = data.product_id || product.product_id;
             product.sku = data.sku || product.sku;
             product.barcode = data.barcode;
-            product.slug = data.slug || product.slug;
+            // A new slug is made unique, the product may take back a previous one
+            const slug =
+              data.slug && data.slug !== product.slug
+                ? await uniqueSlug(Product, data.slug, {
+                    excludeId: product._id,
+                    fallback: "product",
+                  })
+                : product.slug;
+            product.previous_slugs = (await getPreviousSlugs(Product, before, slug)) as any;
+            product.slug = slug;
             product.categories = data.categories || product.categories;
             product.category = data.category || product.category;
             product.status = data.status || product.status;
+            product.publish_at = this.pendingPublishAt(product.status, data.publish_at);
+            product.unpublish_at = data.unpublish_at;
             product.is_combination = data.is_combination;
-            product.variants = data.variants;
+            product.type = data.type || product.type;
+            product.bundle_components = data.bundle_components as any;
+            product.bundle_pricing = data.bundle_pricing as any;
+            // The held quantities are owned by the stock reservations
+            const reserved = new Map(
+              product.variants.map((variant: any) => [variant.sku, variant.reserved])
+            );
+            product.variants = this.normalizeVariants(data.variants).map(
+              (variant) => ({ ...variant, reserved: reserved.get(variant.sku) || 0 })
+            ) as any;
             product.initial_stock = data.initial_stock;
             product.current_stock = data.current_stock;
+            product.low_stock_threshold = data.low_stock_threshold;
             product.prices = data.prices;
             product.promotional = data.promotional;
             product.date_from_promo = data.date_from_promo;
@@ -1155,15 +1543,46 @@ class ProductService {
             product.cross_sells = data.cross_sells;
             product.extras = data.extras;
 
-            await product.save();
+            if (product.type === "bundle") {
+              const derived: any = await bundleService.derive(product);
+              if (typeof derived === "string") return resolve(derived);
 
-            if (config.env === "production") {
-              await this.syncProductToFacebook(product as any);
+              product.current_stock = derived.current_stock;
+              product.prices = derived.prices;
             }
 
-            resolve(product);
-          } else {
-            resolve(product);
+            await product.save();
+
+            await productRevisionService
+              .record(
+                productId,
+                before,
+                product,
+                restoredFrom ? "restore" : "update",
+                user,
+                restoredFrom
+              )
+              .catch((err) => console.error("[ProductRevision] update:", err));
+
+            await inventoryMovementService
+              .recordChanges(before, product, "manual", { user })
+              .catch((err) => console.error("[InventoryMovement] update:", err));
+
+            await priceHistoryService
+              .recordChanges(before, product, "manual", { user })
+              .catch((err) => console.error("[PriceHistory] update:", err));
+
+            await productSearchService
+              .refresh({ _id: product._id })
+              .catch((err) => console.error("[ProductSearch] update:", err));
+
+            if (config.env === "production") {
+              await this.syncProductToFacebook(product as any);
+            }
+
+            resolve(product);
+          } else {
+            resolve(product);
           }
         } catch (error) {
           reject(error);
@@ -1173,15 +1592,17 @@ class ProductService {
   }
 
   /**
-   * Update many products
+   * Update many products. The stock and the prices of the bundles are
+   * derived from their components.
    *
    * @author Valentin Magde <valentinmagde@gmail.com>
    * @since 2024-07-21
    *
    * @param {any} data the product data.
+   * @param {any} user the acting user.
    * @return {Promise<unknown>} the eventual completion or failure
    */
-  public async updateMany(data: any): Promise<unknown> {
+  public async updateMany(data: any, user?: any): Promise<unknown> {
     return new Promise((resolve, reject) => {
       (async () => {
         try {
@@ -1197,10 +1618,39 @@ class ProductService {
             }
           }
 
+          if (updatedData.variants) {
+            updatedData.variants = this.normalizeVariants(updatedData.variants);
+          }
+
+          if (updatedData.status === "hide" && !updatedData.publish_at) {
+            await Product.updateMany(
+              { _id: { $in: data.ids }, deleted_at: null, publish_at: { $lte: new Date() } },
+              { $set: { publish_at: null } }
+            );
+          }
+
           // console.log("updated data", updatedData);
 
+          const ids = data.ids.map((x: string) => x);
+          const before: any[] = await Product.find({
+            _id: { $in: ids },
+            deleted_at: null,
+          }).lean();
+
+          // Every bundle is validated before any product is written
+          const bundles: any[] = [];
+          for (const product of before) {
+            const updated = { ...product, ...updatedData };
+            if (updated.type !== "bundle") continue;
+
+            const derived: any = await bundleService.derive(updated);
+            if (typeof derived === "string") return resolve(derived);
+
+            bundles.push({ _id: product._id, ...derived });
+          }
+
           const products = await Product.updateMany(
-            { _id: { $in: data.ids.map((x: string) => x) } },
+            { _id: { $in: ids }, deleted_at: null },
             {
               $set: updatedData,
             },
@@ -1209,6 +1659,61 @@ class ProductService {
             }
           );
 
+          if (bundles.length) {
+            await Product.bulkWrite(
+              bundles.map((bundle) => ({
+                updateOne: {
+                  filter: { _id: bundle._id },
+                  update: {
+                    $set: { current_stock: bundle.current_stock, prices: bundle.prices },
+                  },
+                },
+              }))
+            );
+          }
+
+          const after: any[] = await Product.find({
+            _id: { $in: ids },
+            deleted_at: null,
+          }).lean();
+          await Promise.all(
+            after.map((product) =>
+              productRevisionService.record(
+                product._id.toString(),
+                before.find((x) => x._id.toString() === product._id.toString()),
+                product,
+                "update_many",
+                user
+              )
+            )
+          ).catch((err) => console.error("[ProductRevision] updateMany:", err));
+
+          await Promise.all(
+            after.map((product) =>
+              inventoryMovementService.recordChanges(
+                before.find((x) => x._id.toString() === product._id.toString()),
+                product,
+                "manual",
+                { user }
+              )
+            )
+          ).catch((err) => console.error("[InventoryMovement] updateMany:", err));
+
+          await Promise.all(
+            after.map((product) =>
+              priceHistoryService.recordChanges(
+                before.find((x) => x._id.toString() === product._id.toString()),
+                product,
+                "manual",
+                { user }
+              )
+            )
+          ).catch((err) => console.error("[PriceHistory] updateMany:", err));
+
+          await productSearchService
+            .refresh({ _id: { $in: ids } })
+            .catch((err) => console.error("[ProductSearch] updateMany:", err));
+
           resolve(products);
         } catch (error) {
           reject(error);
@@ -1218,20 +1723,22 @@ class ProductService {
   }
 
   /**
-   * Patch a product
+   * Patch a product. The stock and the prices of a bundle are derived
+   * from its components.
    *
    * @author Valentin Magde <valentinmagde@gmail.com>
    * @since 2023-08-22
    *
    * @param {string} productId the product id
    * @param {any} data the update object
+   * @param {any} user the acting user
    * @return {Promise<unknown>} the eventual completion or failure
    */
-  public async patch(productId: string, data: any): Promise<unknown> {
+  public async patch(productId: string, data: any, user?: any): Promise<unknown> {
     return new Promise((resolve, reject) => {
       (async () => {
         try {
-          const product = await Product.findById(productId);
+          const product = await Product.findOne({ _id: productId, deleted_at: null });
 
           if (product) {
             const PROTECTED = /^\/((_id|__v|source|external_id)(\/|$))/;
@@ -1244,9 +1751,54 @@ class ProductService {
               false,
               true
             ).newDocument;
+            updateObject.variants = this.normalizeVariants(updateObject.variants) as any;
+            updateObject.publish_at = this.pendingPublishAt(
+              updateObject.status,
+              updateObject.publish_at
+            );
+            // A new slug is made unique, the product may take back a previous one
+            updateObject.slug =
+              updateObject.slug && updateObject.slug !== product.slug
+                ? await uniqueSlug(Product, updateObject.slug, {
+                    excludeId: product._id,
+                    fallback: "product",
+                  })
+                : product.slug;
+            updateObject.previous_slugs = (await getPreviousSlugs(
+              Product,
+              product,
+              updateObject.slug
+            )) as any;
+
+            if (updateObject.type === "bundle") {
+              const derived: any = await bundleService.derive({
+                ...updateObject,
+                _id: product._id,
+              });
+              if (typeof derived === "string") return resolve(derived);
+
+              updateObject.current_stock = derived.current_stock;
+              updateObject.prices = derived.prices;
+            }
 
             await Product.updateOne({ _id: productId }, { $set: updateObject });
 
+            await productRevisionService
+              .record(productId, product, updateObject, "patch", user)
+              .catch((err) => console.error("[ProductRevision] patch:", err));
+
+            await inventoryMovementService
+              .recordChanges(product, { ...updateObject, _id: product._id }, "manual", { user })
+              .catch((err) => console.error("[InventoryMovement] patch:", err));
+
+            await priceHistoryService
+              .recordChanges(product, { ...updateObject, _id: product._id }, "manual", { user })
+              .catch((err) => console.error("[PriceHistory] patch:", err));
+
+            await productSearchService
+              .refresh({ _id: productId })
+              .catch((err) => console.error("[ProductSearch] patch:", err));
+
             if (config.env === "production") {
               this.syncProductToFacebook({ ...updateObject, _id: productId } as any)
                 .catch((err) => console.error("[FacebookCatalog] patch:", err));
@@ -1264,7 +1816,72 @@ class ProductService {
   }
 
   /**
-   * Delete a product by id
+   * Restore a product revision. The restore goes through the update
+   * code path so the Facebook catalog is synced as well. The stock of the
+   * product and of its variants is not restored, the live one is kept.
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {string} productId the product id
+   * @param {string} revisionId the revision id
+   * @param {any} user the acting user
+   * @return {Promise<unknown>} the eventual completion or failure
+   */
+  public restoreRevision(
+    productId: string,
+    revisionId: string,
+    user?: any
+  ): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          const revision: any = await productRevisionService.getRevision(
+            productId,
+            revisionId
+          );
+
+          const live: any = await Product.findOne(
+            { _id: productId, deleted_at: null },
+            { current_stock: 1, initial_stock: 1, variants: 1 }
+          ).lean();
+
+          if (revision && live) {
+            // The stock is owned by the stock movements, the live one is kept
+            const quantities = new Map(
+              (live.variants || []).map((variant: any) => [variant.sku, variant.quantity])
+            );
+
+            const product = await this.update(
+              productId,
+              {
+                ...revision.snapshot,
+                current_stock: live.current_stock,
+                initial_stock: live.initial_stock,
+                variants: (revision.snapshot.variants || []).map((variant: any) => ({
+                  ...variant,
+                  quantity: quantities.get(variant.sku) || 0,
+                })),
+              },
+              user,
+              revisionId
+            );
+
+            resolve(product);
+          } else if (live) {
+            resolve("REVISION_NOT_FOUND");
+          } else {
+            resolve(null);
+          }
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /**
+   * Move a product to the trash
    *
    * @author Valentin Magde <valentinmagde@gmail.com>
    * @since 2023-08-01
@@ -1276,13 +1893,23 @@ class ProductService {
     return new Promise((resolve, reject) => {
       (async () => {
         try {
-          const product: any = await Product.findById(productId);
+          const product: any = await Product.findOne({
+            _id: productId,
+            deleted_at: null,
+          });
 
           if (product) {
-            const deleteProduct = await product.deleteOne();
+            product.deleted_at = new Date();
+            const deleteProduct = await product.save();
+
+            // The bundles containing the product are out of stock
+            await bundleService
+              .refresh([product._id])
+              .catch((err) => console.error("[Bundle] delete:", err));
 
+            // Hide the item from the catalog, it is only removed on purge
             if (config.env === "production" && product.sku) {
-              facebookCatalog.delete(product.sku)
+              this.syncProductToFacebook({ ...product.toObject(), status: "hide" })
                 .catch((err) => console.error("[FacebookCatalog] delete:", err));
             }
 
@@ -1298,7 +1925,7 @@ class ProductService {
   }
 
   /**
-   * Delete many products
+   * Move many products to the trash
    *
    * @author Valentin Magde <valentinmagde@gmail.com>
    * @since 2024-07-21
@@ -1310,25 +1937,154 @@ class ProductService {
     return new Promise((resolve, reject) => {
       (async () => {
         try {
-          let skus: string[] = [];
+          const docs = await Product.find({
+            _id: { $in: productIds },
+            deleted_at: null,
+          }).lean() as any[];
+
+          const deleteProducts = await Product.updateMany(
+            { _id: { $in: docs.map((d) => d._id) } },
+            { $set: { deleted_at: new Date() } }
+          );
+
+          await bundleService
+            .refresh(docs.map((d) => d._id))
+            .catch((err) => console.error("[Bundle] deleteMany:", err));
+
           if (config.env === "production") {
-            const docs = await Product.find(
-              { _id: { $in: productIds } },
-              { sku: 1 }
-            ).lean() as any[];
-            skus = docs.map((d) => d.sku).filter(Boolean);
+            Promise.all(
+              docs
+                .filter((d) => d.sku)
+                .map((d) => this.syncProductToFacebook({ ...d, status: "hide" }))
+            ).catch((err) => console.error("[FacebookCatalog] deleteMany:", err));
           }
 
-          const deleteProducts = await Product.deleteMany({
+          resolve(deleteProducts);
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /**
+   * Get the products in the trash
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {number} page the page number
+   * @param {number} pageSize the number of items per page
+   * @return {Promise<unknown>} the eventual completion or failure
+   */
+  public getTrash(page: number, pageSize: number): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          const filter = { deleted_at: { $ne: null } };
+
+          const [products, count] = await Promise.all([
+            Product.find(filter)
+              .populate("categories", "_id name slug")
+              .populate("category", "_id name slug")
+              .sort({ deleted_at: -1 })
+              .skip(pageSize * (page - 1))
+              .limit(pageSize)
+              .lean(),
+            Product.countDocuments(filter),
+          ]);
+
+          resolve({
+            products,
+            previousPage: page > 1 ? page - 1 : null,
+            perPage: pageSize,
+            allProducts: count,
+            currentPage: page,
+            pages: Math.ceil(count / pageSize),
+            nextPage: page < Math.ceil(count / pageSize) ? page + 1 : null,
+          });
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /**
+   * Restore many products from the trash
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {Array<string>} productIds the product ids
+   * @return {Promise<unknown>} the eventual completion or failure
+   */
+  public restoreFromTrash(productIds: Array<string>): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          const docs = await Product.find({
             _id: { $in: productIds },
+            deleted_at: { $ne: null },
+          }).lean() as any[];
+
+          const restoredProducts = await Product.updateMany(
+            { _id: { $in: docs.map((d) => d._id) } },
+            { $set: { deleted_at: null } }
+          );
+
+          await bundleService
+            .refresh(docs.map((d) => d._id))
+            .catch((err) => console.error("[Bundle] restore:", err));
+
+          if (config.env === "production") {
+            Promise.all(
+              docs
+                .filter((d) => d.sku)
+                .map((d) => this.syncProductToFacebook(d))
+            ).catch((err) => console.error("[FacebookCatalog] restore:", err));
+          }
+
+          resolve(restoredProducts);
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /**
+   * Permanently delete many products from the trash
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {Array<string>} productIds the product ids
+   * @return {Promise<unknown>} the eventual completion or failure
+   */
+  public purge(productIds: Array<any>): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          const docs = await Product.find(
+            { _id: { $in: productIds }, deleted_at: { $ne: null } },
+            { sku: 1 }
+          ).lean() as any[];
+          const ids = docs.map((d) => d._id);
+
+          const deletedProducts = await Product.deleteMany({
+            _id: { $in: ids },
           });
+          await productRevisionService.removeForProducts(ids);
+          await coPurchaseService.removeForProducts(ids);
 
-          if (skus.length > 0) {
+          const skus: string[] = docs.map((d) => d.sku).filter(Boolean);
+          if (config.env === "production" && skus.length > 0) {
             Promise.all(skus.map((sku) => facebookCatalog.delete(sku)))
-              .catch((err) => console.error("[FacebookCatalog] deleteMany:", err));
+              .catch((err) => console.error("[FacebookCatalog] purge:", err));
           }
 
-          resolve(deleteProducts);
+          resolve(deletedProducts);
         } catch (error) {
           reject(error);
         }
@@ -1336,9 +2092,246 @@ class ProductService {
     });
   }
 
+  /**
+   * Permanently delete the products which have been in the trash for
+   * more than the given number of days
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {number} days the retention period in days
+   * @return {Promise<unknown>} the eventual completion or failure
+   */
+  public purgeTrash(days: number): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          const limit = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+          const docs = await Product.find(
+            { deleted_at: { $ne: null, $lte: limit } },
+            { _id: 1 }
+          ).lean();
+
+          const result = await this.purge(docs.map((d) => d._id));
+
+          resolve(result);
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /**
+   * Sync products to the Facebook catalog, in production only. Failures
+   * are logged.
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {Array<any>} products the products to sync
+   * @return {void}
+   */
+  public syncToFacebook(products: Array<any>): void {
+    if (config.env !== "production") return;
+
+    Promise.all(
+      products
+        .filter((product) => product.sku)
+        .map((product) => this.syncProductToFacebook(product))
+    ).catch((err) => console.error("[FacebookCatalog] sync:", err));
+  }
+
+  /**
+   * Apply the publication schedule: show the products whose publish_at
+   * has passed and hide those whose unpublish_at has passed. The applied
+   * dates are cleared, so a later manual status change is kept, and the
+   * flipped products are synced to the Facebook catalog.
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @return {Promise<unknown>} the number of published and unpublished products
+   */
+  public applyPublishSchedule(): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          const now = new Date();
+
+          const toPublish = (await Product.find({
+            deleted_at: null,
+            publish_at: { $lte: now },
+            $or: [{ unpublish_at: null }, { unpublish_at: { $gt: now } }],
+          }).lean()) as any[];
+
+          await Product.updateMany(
+            { _id: { $in: toPublish.map((d) => d._id) } },
+            { $set: { status: "show", publish_at: null } }
+          );
+
+          const toUnpublish = (await Product.find({
+            deleted_at: null,
+            unpublish_at: { $lte: now },
+          }).lean()) as any[];
+
+          // A publish_at still to come opens a new window, it is kept
+          await Product.updateMany(
+            { _id: { $in: toUnpublish.map((d) => d._id) } },
+            [
+              {
+                $set: {
+                  status: "hide",
+                  unpublish_at: null,
+                  publish_at: {
+                    $cond: [{ $gt: ["$publish_at", now] }, "$publish_at", null],
+                  },
+                },
+              },
+            ]
+          );
+
+          if (config.env === "production") {
+            Promise.all([
+              ...toPublish
+                .filter((d) => d.sku)
+                .map((d) =>
+                  this.syncProductToFacebook({ ...d, status: "show", publish_at: null })
+                ),
+              ...toUnpublish
+                .filter((d) => d.sku)
+                .map((d) => this.syncProductToFacebook({ ...d, status: "hide" })),
+            ]).catch((err) => console.error("[FacebookCatalog] schedule:", err));
+          }
+
+          resolve({
+            published: toPublish.length,
+            unpublished: toUnpublish.length,
+          });
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /**
+   * Convert variants to the typed variant schema. Legacy variants store
+   * their attribute selections as { [attributeId]: valueId } keys, their
+   * prices as strings and their promo dates as "YYYY-MM-DD" strings; a
+   * promotion ends at the end of its last day.
+   * Variants already in the typed shape are returned as they are.
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {Array<any>} variants the variants
+   * @return {Array<any>} the typed variants
+   */
+  public normalizeVariants(variants: Array<any>): Array<any> {
+    if (!Array.isArray(variants)) return [];
+
+    return variants.map((variant) => {
+      const plain =
+        typeof variant?.toObject === "function" ? variant.toObject() : { ...variant };
+      const attributes = Array.isArray(plain.attributes) ? plain.attributes : [];
+
+      Object.keys(plain)
+        .filter((key) => OBJECT_ID.test(key))
+        .forEach((key) => {
+          if (OBJECT_ID.test(String(plain[key]))) {
+            attributes.push({ attribute: key, value: String(plain[key]) });
+          }
+          delete plain[key];
+        });
+
+      ["original_price", "price", "purchase_cost", "discount", "quantity"]
+        .filter((key) => typeof plain[key] === "string")
+        .forEach((key) => {
+          const value = parseFloat(plain[key].replace(",", "."));
+          plain[key] = Number.isNaN(value) ? undefined : value;
+        });
+
+      ["date_from_promo", "date_to_promo"]
+        .filter((key) => typeof plain[key] === "string")
+        .forEach((key) => {
+          const endOfDay = key === "date_to_promo" && DATE_ONLY.test(plain[key]);
+          plain[key] = plain[key]
+            ? new Date(endOfDay ? `${plain[key]}T23:59:59.999Z` : plain[key])
+            : undefined;
+        });
+
+      if (typeof plain.promotional === "string") {
+        plain.promotional = plain.promotional === "true";
+      }
+
+      return { ...plain, attributes };
+    });
+  }
+
   /*-----------------------------------------------------------------------------------------------
   //  PRIVATE METHODS
   -----------------------------------------------------------------------------------------------*/
+  /**
+   * Get a sku for the clone of a product, or of a variant, which no
+   * product, or no variant, uses: the sku followed by -COPY, then
+   * -COPY-2, -COPY-3...
+   *
+   * @param {string} sku the sku of the copied product or variant
+   * @param {string} path the sku field ("sku" or "variants.sku")
+   * @returns {Promise<string|undefined>} the sku, undefined when the copied
+   *                                      product or variant has none
+   */
+  private async getCloneSku(
+    sku?: string,
+    path: "sku" | "variants.sku" = "sku"
+  ): Promise<string | undefined> {
+    if (!sku) return undefined;
+
+    const base = `${sku}-COPY`;
+    const pattern = new RegExp(`^${escapeRegex(base)}(-\\d+)?$`);
+    const docs: any[] = await Product.find({ [path]: pattern }, { [path]: 1 }).lean();
+
+    const taken = new Set(
+      docs.flatMap((doc) =>
+        path === "sku" ? [doc.sku] : (doc.variants || []).map((variant: any) => variant.sku)
+      )
+    );
+
+    let clone = base;
+    for (let suffix = 2; taken.has(clone); suffix += 1) clone = `${base}-${suffix}`;
+
+    return clone;
+  }
+
+  /**
+   * Get the publish_at to store with a status. A hidden product whose
+   * publish_at has passed was hidden by hand, its publish_at is cleared
+   * so the published filter does not show it again.
+   *
+   * @param {string} status the product status
+   * @param {any} publishAt the publish_at
+   * @returns {any} the publish_at, null when it is cleared
+   */
+  private pendingPublishAt(status: string, publishAt: any): any {
+    if (status !== "hide" || !publishAt) return publishAt;
+
+    return new Date(publishAt) > new Date() ? publishAt : null;
+  }
+
+  /**
+   * Read a clone option, given as a boolean or as a boolean string
+   *
+   * @param {any} value the option value
+   * @param {boolean} fallback the value when the option is not given
+   * @returns {boolean} true when the part is copied
+   */
+  private isIncluded(value: any, fallback: boolean): boolean {
+    if (value === undefined || value === null || value === "") return fallback;
+
+    return value === true || value === "true" || value === 1 || value === "1";
+  }
+
   /**
    * Synchronizes a product with the Facebook catalog.
    * This function formats the product data according to Facebook's product feed specifications
@@ -1366,6 +2359,8 @@ class ProductService {
     sku: string;
     current_stock: number;
     status?: string;
+    publish_at?: Date | null;
+    unpublish_at?: Date | null;
     description: {
       en: string;
       fr: string;
@@ -1380,7 +2375,6 @@ class ProductService {
       original_price: number;
       price: number;
     };
-    is_promotional: boolean;
     brand: string;
   }): Promise<void> {
     return new Promise((resolve, reject) => {
@@ -1394,7 +2388,13 @@ class ProductService {
           const productData = {
             // id: product?.sku.toString() || product?._id.toString(),
             retailer_id: product?.sku.toString(),
-            availability: product?.current_stock > 0 && product?.status !== "hide" ? "in stock" : "out of stock",
+            availability:
+              product?.current_stock > 0 &&
+              product?.status !== "hide" &&
+              !(product?.publish_at && new Date(product.publish_at) > new Date()) &&
+              !(product?.unpublish_at && new Date(product.unpublish_at) <= new Date())
+                ? "in stock"
+                : "out of stock",
             condition: "new",
             description: (
               product?.description?.en || product?.description?.fr
@@ -1403,10 +2403,11 @@ class ProductService {
             url: `${config.storeUrl}/shop/${product._id}`,
             name: product?.title?.en || product?.title?.fr,
             price: Math.round(product?.prices?.original_price * 100),
-            sale_price: product?.is_promotional
-              ? Math.round(product?.prices?.price * 100)
-              : null,
-            currency: "USD",
+            sale_price:
+              product?.prices?.price < product?.prices?.original_price
+                ? Math.round(product?.prices?.price * 100)
+                : null,
+            currency: config.storeCurrency,
             brand: product?.brand,
           };
 
@@ -1478,7 +2479,241 @@ class ProductService {
   }
 
   /**
-   * Groups product variants by their ID keys (24-character keys)
+   * Computes the filter sidebar facets (brands, colors, categories, tags,
+   * ratings and price ranges) of the products matching a filter in a
+   * single aggregation. Each facet is counted without its own selection,
+   * so the other values of a selected dimension stay available. The price
+   * ranges are bucketed on the stored prices and their bounds converted
+   * with the rate of the response currency.
+   *
+   * @param {any} filter the products filter
+   * @param {string} lang the response language
+   * @param {number} rate the conversion rate of the prices
+   * @returns {Promise<any>} the facets
+   */
+  private async getFacets(filter: any, lang: string, rate = 1): Promise<any> {
+    const colorAttributes: any[] = await Attribute.find(
+      { type: "TextColor", status: "show" },
+      { _id: 1, variants: 1 }
+    ).lean();
+
+    const colorKeys = colorAttributes.map((attribute) => attribute._id);
+    const colorValues = colorAttributes.flatMap((attribute) =>
+      attribute.variants.map((variant: any) => ({
+        id: variant._id,
+        label: variant.name?.[lang] || variant.name?.en || "",
+      }))
+    );
+
+    // Localized name and slug of the counted categories and tags
+    const localized = {
+      $project: {
+        _id: 1,
+        name: `$doc.name.${lang}`,
+        slug: { $ifNull: [`$doc.slug.${lang}`, "$doc.slug"] },
+        count: 1,
+      },
+    };
+
+    // The selections are matched in the facets, the rest of the filter
+    // (the text search included) before them
+    const base = { ...filter };
+    const selections: any = {};
+    Object.values(FACET_FILTER_KEYS).forEach((key) => {
+      if (key in base) {
+        selections[key] = base[key];
+        delete base[key];
+      }
+    });
+
+    /**
+     * Matches the selections of the other facets
+     *
+     * @param {string} facet the facet name
+     * @returns {any} the $match stage
+     */
+    const others = (facet: string) => ({
+      $match: Object.fromEntries(
+        Object.entries(selections).filter(
+          ([key]) => key !== FACET_FILTER_KEYS[facet]
+        )
+      ),
+    });
+
+    const [result] = await Product.aggregate([
+      { $match: base },
+      {
+        $facet: {
+          brands: [
+            others("brands"),
+            { $match: { brand: { $nin: [null, ""] } } },
+            {
+              $group: {
+                _id: { $toLower: "$brand" },
+                name: { $first: "$brand" },
+                count: { $sum: 1 },
+              },
+            },
+            { $sort: { count: -1, _id: 1 } },
+          ],
+          colors: [
+            others("colors"),
+            { $unwind: "$variants" },
+            {
+              $project: {
+                values: {
+                  $concatArrays: [
+                    // Produits normaux : couleur via attribut TextColor
+                    {
+                      $map: {
+                        input: {
+                          $filter: {
+                            input: { $ifNull: ["$variants.attributes", []] },
+                            as: "field",
+                            cond: {
+                              $and: [
+                                { $in: ["$$field.attribute", colorKeys] },
+                                { $in: ["$$field.value", colorValues.map((x) => x.id)] },
+                              ],
+                            },
+                          },
+                        },
+                        as: "field",
+                        in: {
+                          $arrayElemAt: [
+                            colorValues.map((x) => x.label),
+                            {
+                              $indexOfArray: [
+                                colorValues.map((x) => x.id),
+                                "$$field.value",
+                              ],
+                            },
+                          ],
+                        },
+                      },
+                    },
+                    // Produits LD : couleur brute dans ld_color
+                    {
+                      $cond: [
+                        { $eq: [{ $type: "$variants.ld_color" }, "string"] },
+                        ["$variants.ld_color"],
+                        [],
+                      ],
+                    },
+                  ],
+                },
+              },
+            },
+            { $unwind: "$values" },
+            { $match: { values: { $ne: "" } } },
+            {
+              $group: {
+                _id: { product: "$_id", color: { $toLower: "$values" } },
+                name: { $first: "$values" },
+              },
+            },
+            {
+              $group: {
+                _id: "$_id.color",
+                name: { $first: "$name" },
+                count: { $sum: 1 },
+              },
+            },
+            { $sort: { count: -1, _id: 1 } },
+          ],
+          categories: [
+            others("categories"),
+            { $unwind: "$categories" },
+            { $group: { _id: { product: "$_id", value: "$categories" } } },
+            { $group: { _id: "$_id.value", count: { $sum: 1 } } },
+            {
+              $lookup: {
+                from: "categories",
+                localField: "_id",
+                foreignField: "_id",
+                as: "doc",
+              },
+            },
+            { $unwind: "$doc" },
+            { $sort: { count: -1, _id: 1 } },
+            localized,
+          ],
+          tags: [
+            others("tags"),
+            { $unwind: "$tags" },
+            { $group: { _id: { product: "$_id", value: "$tags" } } },
+            { $group: { _id: "$_id.value", count: { $sum: 1 } } },
+            {
+              $lookup: {
+                from: "tags",
+                localField: "_id",
+                foreignField: "_id",
+                as: "doc",
+              },
+            },
+            { $unwind: "$doc" },
+            { $sort: { count: -1, _id: 1 } },
+            localized,
+          ],
+          ratings: [
+            others("ratings"),
+            {
+              $bucket: {
+                groupBy: { $ifNull: ["$rating", 0] },
+                boundaries: [0, 1, 2, 3, 4, 5],
+                default: 5,
+                output: { count: { $sum: 1 } },
+              },
+            },
+          ],
+          prices: [
+            others("prices"),
+            {
+              $bucket: {
+                groupBy: {
+                  $convert: {
+                    input: "$prices.original_price",
+                    to: "double",
+                    onError: 0,
+                    onNull: 0,
+                  },
+                },
+                boundaries: FACET_PRICE_RANGES,
+                default: FACET_PRICE_RANGES[FACET_PRICE_RANGES.length - 1],
+                output: { count: { $sum: 1 } },
+              },
+            },
+          ],
+        },
+      },
+    ]);
+
+    return {
+      brands: result.brands.map((x: any) => ({ name: x.name, count: x.count })),
+      colors: result.colors.map((x: any) => ({ name: x.name, count: x.count })),
+      categories: result.categories,
+      tags: result.tags,
+      ratings: result.ratings.map((x: any) => ({
+        rating: x._id,
+        count: x.count,
+      })),
+      prices: result.prices.map((x: any) => {
+        const max = FACET_PRICE_RANGES[FACET_PRICE_RANGES.indexOf(x._id) + 1];
+
+        return {
+          min: productCurrencyService.convertPrice(x._id, rate),
+          max: max === undefined ? null : productCurrencyService.convertPrice(max, rate),
+          count: x.count,
+        };
+      }),
+    };
+  }
+
+  /**
+   * Groups product variants by their attributes. Each variant is flattened
+   * to { [attributeId]: valueId, ...fields } so the storefront keeps the
+   * same grouped shape; the attribute ids are read from the attributes of
+   * the variants.
    *
    * @author valentin Magde <valentinmagde@gmail.com>
    * @since 2025-05-01
@@ -1488,15 +2723,18 @@ class ProductService {
    */
   private groupVariantsByKeys(variants: any[]): any[] {
     const result: any = {};
+    const attributeKeys = new Set<string>();
 
-    // Trouver toutes les clés d'ID (24 caractères)
-    const idKeys = Array.from(
-      new Set(
-        variants.flatMap((variant) =>
-          Object.keys(variant).filter((key) => key.length === 24)
-        )
-      )
-    );
+    variants = this.normalizeVariants(variants).map(({ attributes, ...fields }) => {
+      attributes.forEach((item: any) => {
+        attributeKeys.add(String(item.attribute));
+        fields[String(item.attribute)] = String(item.value);
+      });
+
+      return fields;
+    });
+
+    const idKeys = Array.from(attributeKeys);
 
     idKeys.map((idKey) => {
       const grouped: Record<string, any> = {};
@@ -1522,7 +2760,7 @@ class ProductService {
           const val = variant[key];
           if (val === undefined) return;
 
-          if (key.length === 24) {
+          if (attributeKeys.has(key)) {
             if (!grouped[keyValue][key]) {
               grouped[keyValue][key] = [val];
             } else if (!grouped[keyValue][key].includes(val)) {
@@ -1550,7 +2788,13 @@ class ProductService {
    */
   public async getLdColors(): Promise<string[]> {
     const result = await Product.aggregate([
-      { $match: { source: "luxury_distribution", status: "show" } },
+      {
+        $match: {
+          source: "luxury_distribution",
+          ...publishedFilter(),
+          deleted_at: null,
+        },
+      },
       { $unwind: "$variants" },
       { $match: { "variants.ld_color": { $exists: true, $ne: "" } } },
       { $group: { _id: "$variants.ld_color" } },
@@ -1559,6 +2803,88 @@ class ProductService {
     return result.map((r) => r._id as string);
   }
 
+  /**
+   * Builds the opaque cursor pointing after the given product: the sort
+   * key value and _id of the product, encoded in base64url.
+   *
+   * @param {string} order the requested order
+   * @param {any} sortOrder the MongoDB sort object
+   * @param {any} product the last product of the page
+   * @returns {string} the cursor
+   */
+  private encodeCursor(order: string, sortOrder: any, product: any): string {
+    const field = Object.keys(sortOrder)[0];
+    const value = product[field] ?? null;
+
+    return Buffer.from(
+      JSON.stringify({
+        o: order,
+        v: value,
+        d: value instanceof Date,
+        id: product._id.toString(),
+      })
+    ).toString("base64url");
+  }
+
+  /**
+   * Decodes a cursor built by encodeCursor. Returns null when the cursor
+   * is malformed or was built for another order.
+   *
+   * @param {string} token the cursor
+   * @param {string} order the requested order
+   * @returns {any} the decoded cursor or null
+   */
+  private decodeCursor(token: string, order: string): any {
+    try {
+      const cursor = JSON.parse(Buffer.from(token, "base64url").toString());
+
+      if (cursor.o !== order || !checkObjectId(cursor.id)) return null;
+
+      return {
+        value: cursor.d ? new Date(cursor.v) : cursor.v,
+        id: new Types.ObjectId(cursor.id),
+      };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Returns the condition matching the products after the cursor for the
+   * given sort. Products without sort value (e.g. no rating yet) come
+   * last in descending order and first in ascending order.
+   *
+   * @param {any} sortOrder the MongoDB sort object ({ field: 1|-1, _id: 1|-1 })
+   * @param {any} cursor the decoded cursor
+   * @returns {any} the MongoDB condition
+   */
+  private getCursorCondition(sortOrder: any, cursor: any): any {
+    const [field, direction] = Object.entries(sortOrder)[0];
+    const op = direction === 1 ? "$gt" : "$lt";
+    const idOp = sortOrder._id === 1 ? "$gt" : "$lt";
+
+    if (field === "_id") return { _id: { [op]: cursor.id } };
+
+    if (cursor.value === null) {
+      return direction === 1
+        ? {
+            $or: [
+              { [field]: { $ne: null } },
+              { [field]: null, _id: { [idOp]: cursor.id } },
+            ],
+          }
+        : { [field]: null, _id: { [idOp]: cursor.id } };
+    }
+
+    return {
+      $or: [
+        { [field]: { [op]: cursor.value } },
+        { [field]: cursor.value, _id: { [idOp]: cursor.id } },
+        ...(direction === -1 ? [{ [field]: null }] : []),
+      ],
+    };
+  }
+
   private getSortOrder(order: string): any {
     switch (order) {
       case "newest":
@@ -0,0 +1,116 @@
+import rabbitmqManager from "../../../core/rabbitmq";
+import orderStockService from "./order-stock.service";
+import productSubscribe from "./product.subscribe";
+
+jest.mock("../../../core/db", () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => ({ asyncOnConnect: jest.fn() })),
+}));
+jest.mock("../../../core/rabbitmq", () => ({
+  __esModule: true,
+  default: { channel: null, createChannel: jest.fn(), publishMessage: jest.fn() },
+}));
+jest.mock("./order-stock.service", () => ({
+  __esModule: true,
+  default: { applyOrder: jest.fn(), park: jest.fn() },
+}));
+jest.mock("./co-purchase.service", () => ({ __esModule: true, default: {} }));
+jest.mock("./stock-reservation.service", () => ({ __esModule: true, default: {} }));
+
+const message = {
+  content: Buffer.from(JSON.stringify({ message: { orderId: "order-1", productItems: [] } })),
+};
+
+describe("ProductSubscribe.updateProductStock", () => {
+  let channel: any;
+  let consumer: any;
+  const applyOrder = orderStockService.applyOrder as jest.Mock;
+  const park = orderStockService.park as jest.Mock;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.spyOn(productSubscribe as any, "wait").mockResolvedValue(undefined);
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+
+    channel = {
+      assertExchange: jest.fn(),
+      assertQueue: jest.fn().mockResolvedValue({ queue: "updateProductStockQueue" }),
+      bindQueue: jest.fn(),
+      consume: jest.fn((queue: string, handler: any) => (consumer = handler)),
+      ack: jest.fn(),
+      nack: jest.fn(),
+    };
+    (rabbitmqManager as any).channel = channel;
+
+    await productSubscribe.updateProductStock();
+  });
+
+  it("uses the shared channel", () => {
+    expect(rabbitmqManager.createChannel).not.toHaveBeenCalled();
+    expect(channel.consume).toHaveBeenCalledTimes(1);
+  });
+
+  it("acknowledges an applied order", async () => {
+    applyOrder.mockResolvedValue({ status: "done" });
+
+    await consumer(message);
+
+    expect(applyOrder).toHaveBeenCalledTimes(1);
+    expect(channel.ack).toHaveBeenCalledWith(message);
+    expect(park).not.toHaveBeenCalled();
+  });
+
+  it("retries a failed order until it is applied", async () => {
+    applyOrder
+      .mockRejectedValueOnce(new Error("timeout"))
+      .mockRejectedValueOnce(new Error("timeout"))
+      .mockResolvedValue({ status: "done" });
+
+    await consumer(message);
+
+    expect(applyOrder).toHaveBeenCalledTimes(3);
+    expect(channel.ack).toHaveBeenCalledWith(message);
+    expect(park).not.toHaveBeenCalled();
+  });
+
+  it("parks the message after the last attempt", async () => {
+    applyOrder.mockRejectedValue(new Error("timeout"));
+
+    await consumer(message);
+
+    expect(applyOrder).toHaveBeenCalledTimes(4);
+    expect(park).toHaveBeenCalledWith(
+      "eluxe.order.updateProductStock",
+      "updateProductStock",
+      message.content.toString(),
+      expect.any(Error),
+      4
+    );
+    expect(channel.ack).toHaveBeenCalledWith(message);
+  });
+
+  it("parks an invalid message right away", async () => {
+    applyOrder.mockResolvedValue("INVALID_MESSAGE");
+
+    await consumer(message);
+
+    expect(applyOrder).toHaveBeenCalledTimes(1);
+    expect(park).toHaveBeenCalledWith(
+      "eluxe.order.updateProductStock",
+      "updateProductStock",
+      message.content.toString(),
+      expect.any(Error),
+      1
+    );
+  });
+
+  it("requeues the message when it cannot be parked", async () => {
+    applyOrder.mockRejectedValue(new Error("timeout"));
+    park.mockRejectedValue(new Error("down"));
+
+    await consumer(message);
+
+    expect(channel.ack).not.toHaveBeenCalled();
+    expect(channel.nack).toHaveBeenCalledWith(message, false, true);
+  });
+});
@@ -1,6 +1,16 @@
 import DBManager from "../../../core/db";
 import rabbitmqManager from "../../../core/rabbitmq";
-import productService from "./product.service";
+import orderStockService from "./order-stock.service";
+import coPurchaseService from "./co-purchase.service";
+import stockReservationService from "./stock-reservation.service";
+
+// Attempts of an order stock update before it is parked as a dead letter,
+// waiting 1s, 4s then 16s between them
+const STOCK_MAX_ATTEMPTS = 4;
+const STOCK_RETRY_DELAY_MS = 1000;
+
+// Exchange on which the outcome of the reservation messages is published
+const RESERVATION_RESULT_EXCHANGE = "eluxe.product.stockReservation";
 
 /**
  * @author Valentin Magde <valentinmagde@gmail.com>
@@ -10,7 +20,10 @@ import productService from "./product.service";
  */
 class ProductSubscribe {
   /**
-   * Update product stock
+   * Update product stock. The message is acknowledged once the stock of
+   * the order has been decremented, the components of the bundles in
+   * place of the bundles; failures are retried with backoff
+   * and the message is parked as a dead letter after the last attempt.
    *
    * @author Valentin Magde <valentinmagde@gmail.com>
    * @since 2023-08-27
@@ -25,56 +38,226 @@ class ProductSubscribe {
       const routingKey = "updateProductStock";
       const queueName = "updateProductStockQueue";
 
-      await rabbitmqManager.createChannel();
       const channel = rabbitmqManager.channel;
       await channel.assertExchange(exchangeName, "direct");
       const q = await channel.assertQueue(queueName);
       await channel.bindQueue(q.queue, exchangeName, routingKey);
 
-      channel.consume(q.queue, (msg: any) => {
-        const data: any = JSON.parse(msg.content);
-
-        data.message.productItems.forEach((e: any) => {
-          dbManager
-            .asyncOnConnect()
-            .then((dbConenction) => {
-              productService
-                .showProductById(e._id)
-                .then((result: any) => {
-                  if (result !== null && result !== undefined) {
-                    productService
-                      .patch(result._id, [
-                        {
-                          op: "replace",
-                          path: "/current_stock",
-                          value: result.current_stock - e.qty,
-                        },
-                        {
-                          op: "replace",
-                          path: "/sales_count",
-                          value: result.sales_count + e.qty,
-                        },
-                      ])
-                      .then((product) => {
-                        console.log(product);
-                      })
-                      .catch((error) => {
-                        console.log(error);
-                        dbConenction.disconnect();
-                      });
-                  }
-                })
-                .catch((err) => {
-                  console.log(err);
-                  dbConenction.disconnect();
-                });
-            })
-            .catch((err) => {
-              console.log(err);
-            });
-        });
-
-        channel.ack(msg);
+      channel.consume(q.queue, async (msg: any) => {
+        const content = msg.content.toString();
+        let attempts = 0;
+        let lastError: any;
+
+        while (attempts < STOCK_MAX_ATTEMPTS) {
+          attempts += 1;
+
+          try {
+            const data: any = JSON.parse(content);
+
+            await dbManager.asyncOnConnect();
+            const result = await orderStockService.applyOrder(data.message);
+
+            // A malformed message will never succeed, park it right away
+            if (result === "INVALID_MESSAGE") {
+              lastError = new Error("Invalid order message");
+              break;
+            }
+
+            return channel.ack(msg);
+          } catch (error) {
+            lastError = error;
+            console.log(error);
+
+            if (error instanceof SyntaxError) break;
+            if (attempts < STOCK_MAX_ATTEMPTS) {
+              await this.wait(STOCK_RETRY_DELAY_MS * 4 ** (attempts - 1));
+            }
+          }
+        }
+
+        try {
+          await orderStockService.park(
+            exchangeName,
+            routingKey,
+            content,
+            lastError,
+            attempts
+          );
+          channel.ack(msg);
+        } catch (error) {
+          // Keep the message in the queue when it cannot be parked
+          console.log(error);
+          channel.nack(msg, false, true);
+        }
+      });
+    } catch (error) {
+      console.log(error);
+    }
+  }
+
+  /**
+   * Count the products bought together from the order events, on a queue
+   * of its own bound to the stock update exchange
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @return {Promise<void>} the eventual completion or failure
+   */
+  public async recordCoPurchases(): Promise<void> {
+    try {
+      const dbManager = new DBManager();
+
+      const exchangeName = "eluxe.order.updateProductStock";
+      const routingKey = "updateProductStock";
+      const queueName = "coPurchaseQueue";
+
+      const channel = rabbitmqManager.channel;
+      await channel.assertExchange(exchangeName, "direct");
+      const q = await channel.assertQueue(queueName);
+      await channel.bindQueue(q.queue, exchangeName, routingKey);
+
+      channel.consume(q.queue, async (msg: any) => {
+        try {
+          const data: any = JSON.parse(msg.content);
+
+          await dbManager.asyncOnConnect();
+          await coPurchaseService.recordOrder(data.message);
+
+          channel.ack(msg);
+        } catch (error) {
+          // The recommendations do not need every order, drop the message
+          console.log(error);
+          channel.nack(msg, false, false);
+        }
+      });
+    } catch (error) {
+      console.log(error);
+    }
+  }
+
+  /**
+   * Hold stock for an order ({ reference, items, ttl })
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @return {Promise<void>} the eventual completion or failure
+   */
+  public async reserveStock(): Promise<void> {
+    await this.consumeReservation("reserveStock", async (message: any) => {
+      const result: any = await stockReservationService.reserve(
+        message.reference,
+        message.items || [],
+        message.ttl
+      );
+
+      return typeof result === "string"
+        ? { reference: message.reference, status: "rejected", reason: result }
+        : { reference: message.reference, status: "reserved", reservation: result };
+    });
+  }
+
+  /**
+   * Commit the active stock reservation of an order ({ reference })
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @return {Promise<void>} the eventual completion or failure
+   */
+  public async commitStock(): Promise<void> {
+    await this.consumeReservation("commitStock", async (message: any) => {
+      const reservation: any = await stockReservationService.findCommittable(
+        message.reference
+      );
+      const result: any = reservation
+        ? await stockReservationService.commit(reservation._id)
+        : "RESERVATION_NOT_FOUND";
+
+      return typeof result === "string"
+        ? { reference: message.reference, status: "rejected", reason: result }
+        : { reference: message.reference, status: "committed" };
+    });
+  }
+
+  /**
+   * Release the active stock reservation of an order ({ reference })
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @return {Promise<void>} the eventual completion or failure
+   */
+  public async releaseStock(): Promise<void> {
+    await this.consumeReservation("releaseStock", async (message: any) => {
+      const reservation: any = await stockReservationService.findActive(
+        message.reference
+      );
+      const result: any = reservation
+        ? await stockReservationService.release(reservation._id)
+        : "RESERVATION_NOT_FOUND";
+
+      return typeof result === "string"
+        ? { reference: message.reference, status: "rejected", reason: result }
+        : { reference: message.reference, status: "released" };
+    });
+  }
+
+  /*-----------------------------------------------------------------------------------------------
+  //  PRIVATE METHODS
+  -----------------------------------------------------------------------------------------------*/
+  /**
+   * Wait before retrying
+   *
+   * @param {number} ms the delay in milliseconds
+   * @returns {Promise<void>} resolved after the delay
+   */
+  private wait(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+
+  /**
+   * Consume a stock reservation message of the order service and publish
+   * its outcome. The message is acknowledged once it has been handled.
+   *
+   * @param {string} routingKey the routing key (reserveStock, commitStock, releaseStock)
+   * @param {Function} handler the handler returning the outcome
+   * @returns {Promise<void>} the eventual completion or failure
+   */
+  private async consumeReservation(
+    routingKey: string,
+    handler: (message: any) => Promise<any>
+  ): Promise<void> {
+    try {
+      const dbManager = new DBManager();
+
+      const exchangeName = `eluxe.order.${routingKey}`;
+      const queueName = `${routingKey}Queue`;
+
+      const channel = rabbitmqManager.channel;
+      await channel.assertExchange(exchangeName, "direct");
+      const q = await channel.assertQueue(queueName);
+      await channel.bindQueue(q.queue, exchangeName, routingKey);
+
+      channel.consume(q.queue, async (msg: any) => {
+        try {
+          const data: any = JSON.parse(msg.content);
+
+          await dbManager.asyncOnConnect();
+          const outcome = await handler(data.message);
+
+          await rabbitmqManager.publishMessage(
+            RESERVATION_RESULT_EXCHANGE,
+            "stockReservationResult",
+            outcome
+          );
+
+          channel.ack(msg);
+        } catch (error) {
+          console.log(error);
+          channel.nack(msg, false, false);
+        }
       });
     } catch (error) {
       console.log(error);
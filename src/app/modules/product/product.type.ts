@@ -4,6 +4,7 @@ export default interface ProductType {
   sku: string;
   barcode: string;
   slug: string;
+  previous_slugs?: Array<string>;
   name: string;
   title: object;
   vendor: string;
@@ -17,6 +18,8 @@ export default interface ProductType {
   promotional_price: number;
   initial_stock: number;
   current_stock: number;
+  reserved_stock?: number;
+  low_stock_threshold?: number;
   featured: number;
   promotional: boolean;
   date_from_promo: Date;
@@ -28,15 +31,57 @@ export default interface ProductType {
   tag: Array<string>;
   categories: Array<any>;
   category: any;
-  variants: Array<any>;
+  variants: Array<ProductVariant>;
   is_combination: boolean;
+  type?: "simple" | "bundle";
+  bundle_components?: Array<BundleComponent>;
+  bundle_pricing?: BundlePricing;
   status: "show" | "hide";
+  publish_at?: Date;
+  unpublish_at?: Date;
   related_products: Array<any>;
+  computed_related_products?: Array<any>;
+  related_computed_at?: Date;
   store: string;
   shipping: Shipping;
   upsells: Array<any>;
   cross_sells: Array<any>;
   extras: Array<any>;
+  deleted_at?: Date | null;
+}
+
+export interface ProductVariant {
+  attributes: Array<{ attribute: any; value: any }>;
+  product_id?: string;
+  sku?: string;
+  barcode?: string;
+  image?: string;
+  original_price?: number;
+  price?: number;
+  discount?: number;
+  purchase_cost?: number;
+  quantity?: number;
+  reserved?: number;
+  promotional?: boolean;
+  date_from_promo?: Date;
+  date_to_promo?: Date;
+  ld_stock_id?: string;
+  ld_variant_ref?: string;
+  ld_size?: string;
+  ld_color?: string;
+  ld_attribute_values?: Record<string, string>;
+  size?: string;
+}
+
+export interface BundleComponent {
+  product: any;
+  variant_sku?: string;
+  quantity: number;
+}
+
+export interface BundlePricing {
+  mode: "fixed" | "percentage";
+  value: number;
 }
 
 interface Review {
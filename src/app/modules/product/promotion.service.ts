@@ -0,0 +1,197 @@
+import rabbitmqManager from "../../../core/rabbitmq";
+import Product from "./product.model";
+import productService from "./product.service";
+import priceHistoryService from "./price-history.service";
+
+// Exchange on which the price changes are published
+const PRICE_EXCHANGE = "eluxe.product.price";
+
+/**
+ * @author Valentin Magde <valentinmagde@gmail.com>
+ * @since 2026-10-19
+ *
+ * Class PromotionService
+ */
+class PromotionService {
+  /**
+   * Check if the promotion of a product, or of a variant, is running: it
+   * is flagged as promotional and the date is inside its promotion dates
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {any} promo the promotion fields ({ promotional, date_from_promo,
+   *                    date_to_promo })
+   * @param {Date} date the date to check
+   * @return {boolean} true when the promotion is running
+   */
+  public isActive(promo: any, date: Date = new Date()): boolean {
+    if (!promo?.promotional) return false;
+    if (promo.date_from_promo && new Date(promo.date_from_promo) > date) return false;
+    if (promo.date_to_promo && new Date(promo.date_to_promo) < date) return false;
+
+    return true;
+  }
+
+  /**
+   * Compute the selling price of a product, or of a variant. A promotional
+   * discount only applies while its promotion is running, any other
+   * discount always applies.
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {number} originalPrice the original price
+   * @param {number} discount the discount in percent
+   * @param {any} promo the promotion fields ({ promotional, date_from_promo,
+   *                    date_to_promo })
+   * @param {Date} date the date of the price
+   * @return {number} the selling price
+   */
+  public priceOf(
+    originalPrice: number,
+    discount: number,
+    promo: any,
+    date: Date = new Date()
+  ): number {
+    const rate = Number(discount) || 0;
+    const applies = promo?.promotional ? this.isActive(promo, date) : rate > 0;
+
+    return applies && rate > 0
+      ? Math.round(originalPrice * (1 - rate / 100) * 100) / 100
+      : originalPrice;
+  }
+
+  /**
+   * Apply the promotions: set the price of the promotional products and
+   * variants to their discounted price while their promotion is running
+   * and back to their original price otherwise. A price change event is
+   * published for every product whose price changed, and the product is
+   * synced to the Facebook catalog.
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {Array<string>} productIds the products to apply, every
+   *                                   promotional product by default
+   * @return {Promise<unknown>} the number of repriced products
+   */
+  public apply(productIds?: Array<string>): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          const now = new Date();
+          const filter: any = {
+            deleted_at: null,
+            $or: [{ promotional: true }, { "variants.promotional": true }],
+          };
+          if (productIds) filter._id = { $in: productIds };
+
+          const cursor = Product.find(filter).lean().cursor();
+          let repriced = 0;
+
+          for await (const product of cursor as any) {
+            const set: any = {};
+            const arrayFilters: any[] = [];
+            const variants: any[] = [];
+            let price = product.prices?.price;
+
+            if (product.promotional && product.prices?.original_price !== undefined) {
+              price = this.priceOf(
+                product.prices.original_price,
+                product.prices.discount,
+                product,
+                now
+              );
+              if (price !== product.prices.price) set["prices.price"] = price;
+            }
+
+            (product.variants || []).forEach((variant: any) => {
+              if (!variant.promotional || variant.original_price === undefined) return;
+              if (!variant.sku) return;
+
+              const variantPrice = this.priceOf(
+                variant.original_price,
+                variant.discount,
+                variant,
+                now
+              );
+
+              // The variant is matched on its sku, its position may have changed
+              if (variantPrice !== variant.price) {
+                const identifier = `variant${arrayFilters.length}`;
+
+                set[`variants.$[${identifier}].price`] = variantPrice;
+                arrayFilters.push({ [`${identifier}.sku`]: variant.sku });
+                variants.push({
+                  sku: variant.sku,
+                  previous_price: variant.price,
+                  price: variantPrice,
+                  promotion_active: this.isActive(variant, now),
+                });
+              }
+            });
+
+            if (!Object.keys(set).length) continue;
+
+            await Product.updateOne(
+              { _id: product._id },
+              { $set: set },
+              arrayFilters.length ? { arrayFilters } : {}
+            );
+
+            const repricedVariants = new Map<string, number>(
+              variants.map((variant) => [variant.sku, variant.price])
+            );
+
+            await priceHistoryService
+              .recordChanges(
+                product,
+                {
+                  ...product,
+                  prices: { ...product.prices, price },
+                  variants: (product.variants || []).map((variant: any) =>
+                    repricedVariants.has(variant.sku)
+                      ? { ...variant, price: repricedVariants.get(variant.sku) }
+                      : variant
+                  ),
+                },
+                "promotion"
+              )
+              .catch((err) => console.error("[PriceHistory] promotion:", err));
+
+            await rabbitmqManager.publishMessage(
+              PRICE_EXCHANGE,
+              "product.price.changed",
+              {
+                product: product._id,
+                sku: product.sku,
+                source: product.source,
+                external_id: product.external_id,
+                original_price: product.prices?.original_price,
+                previous_price: product.prices?.price,
+                price,
+                promotion_active: this.isActive(product, now),
+                variants,
+                reason: "promotion",
+              }
+            );
+
+            productService.syncToFacebook([
+              { ...product, prices: { ...product.prices, price } },
+            ]);
+
+            repriced += 1;
+          }
+
+          resolve({ repriced });
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+}
+
+const promotionService = new PromotionService();
+export default promotionService;
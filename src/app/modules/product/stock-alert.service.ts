@@ -0,0 +1,224 @@
+import mongoose from "mongoose";
+import rabbitmqManager from "../../../core/rabbitmq";
+import Product from "./product.model";
+
+// Exchange on which the stock level events are published
+const STOCK_EXCHANGE = "eluxe.product.stock";
+
+/**
+ * @author Valentin Magde <valentinmagde@gmail.com>
+ * @since 2026-10-19
+ *
+ * Class StockAlertService
+ */
+class StockAlertService {
+  /**
+   * Publish a stock level event when the stock of a product crosses its
+   * low stock threshold (the product threshold, or the default threshold
+   * of its category): product.stock.low when it falls to the threshold,
+   * product.stock.out when it runs out and product.stock.restored when
+   * it goes back above the threshold.
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {string} productId the product id
+   * @param {number} previousStock the stock before the change
+   * @param {number} currentStock the stock after the change
+   * @return {Promise<unknown>} the published event name, null when the
+   *                            stock level did not change
+   */
+  public check(
+    productId: any,
+    previousStock: number,
+    currentStock: number
+  ): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          if (previousStock === currentStock) return resolve(null);
+
+          const [product] = await Product.aggregate([
+            { $match: { _id: new mongoose.Types.ObjectId(String(productId)) } },
+            {
+              $lookup: {
+                from: "categories",
+                localField: "category",
+                foreignField: "_id",
+                as: "category",
+              },
+            },
+            {
+              $project: {
+                sku: 1,
+                slug: 1,
+                title: 1,
+                threshold: {
+                  $ifNull: [
+                    "$low_stock_threshold",
+                    {
+                      $ifNull: [
+                        { $arrayElemAt: ["$category.low_stock_threshold", 0] },
+                        0,
+                      ],
+                    },
+                  ],
+                },
+              },
+            },
+          ]);
+
+          if (!product) return resolve(null);
+
+          const previous = this.level(previousStock, product.threshold);
+          const current = this.level(currentStock, product.threshold);
+
+          if (previous === current) return resolve(null);
+
+          const event =
+            current === "ok" ? "product.stock.restored" : `product.stock.${current}`;
+
+          await rabbitmqManager.publishMessage(STOCK_EXCHANGE, event, {
+            product: product._id,
+            sku: product.sku,
+            slug: product.slug,
+            title: product.title,
+            threshold: product.threshold,
+            previous_stock: previousStock,
+            current_stock: currentStock,
+          });
+
+          resolve(event);
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /**
+   * Get the products whose stock is at or under their low stock
+   * threshold, lowest stock first
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {number} page the page number
+   * @param {number} pageSize the number of items per page
+   * @param {boolean} withOutOfStock include the out of stock products
+   * @param {string} categoryId the category to filter on, if any
+   * @return {Promise<unknown>} the eventual completion or failure
+   */
+  public getLowStock(
+    page: number,
+    pageSize: number,
+    withOutOfStock: boolean,
+    categoryId?: string
+  ): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          const match: any = { deleted_at: null };
+          if (categoryId) {
+            match.categories = new mongoose.Types.ObjectId(categoryId);
+          }
+
+          const stock = { $ifNull: ["$current_stock", 0] };
+
+          const [result] = await Product.aggregate([
+            { $match: match },
+            {
+              $lookup: {
+                from: "categories",
+                localField: "category",
+                foreignField: "_id",
+                as: "category",
+              },
+            },
+            { $unwind: { path: "$category", preserveNullAndEmptyArrays: true } },
+            {
+              $addFields: {
+                threshold: {
+                  $ifNull: [
+                    "$low_stock_threshold",
+                    { $ifNull: ["$category.low_stock_threshold", 0] },
+                  ],
+                },
+              },
+            },
+            {
+              $match: {
+                $expr: withOutOfStock
+                  ? { $lte: [stock, "$threshold"] }
+                  : {
+                      $and: [
+                        { $gt: [stock, 0] },
+                        { $lte: [stock, "$threshold"] },
+                      ],
+                    },
+              },
+            },
+            {
+              $facet: {
+                products: [
+                  { $sort: { current_stock: 1, _id: 1 } },
+                  { $skip: pageSize * (page - 1) },
+                  { $limit: pageSize },
+                  {
+                    $project: {
+                      sku: 1,
+                      slug: 1,
+                      title: 1,
+                      image: 1,
+                      brand: 1,
+                      status: 1,
+                      current_stock: 1,
+                      reserved_stock: 1,
+                      threshold: 1,
+                      "category._id": 1,
+                      "category.name": 1,
+                    },
+                  },
+                ],
+                count: [{ $count: "total" }],
+              },
+            },
+          ]);
+
+          const count = result.count[0]?.total || 0;
+
+          resolve({
+            products: result.products,
+            previousPage: page > 1 ? page - 1 : null,
+            perPage: pageSize,
+            allProducts: count,
+            currentPage: page,
+            pages: Math.ceil(count / pageSize),
+            nextPage: page < Math.ceil(count / pageSize) ? page + 1 : null,
+          });
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /*-----------------------------------------------------------------------------------------------
+  //  PRIVATE METHODS
+  -----------------------------------------------------------------------------------------------*/
+  /**
+   * Get the stock level of a quantity
+   *
+   * @param {number} stock the stock
+   * @param {number} threshold the low stock threshold
+   * @returns {string} out, low or ok
+   */
+  private level(stock: number, threshold: number): string {
+    if ((stock || 0) <= 0) return "out";
+
+    return stock <= threshold ? "low" : "ok";
+  }
+}
+
+const stockAlertService = new StockAlertService();
+export default stockAlertService;
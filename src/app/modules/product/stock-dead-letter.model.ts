@@ -0,0 +1,35 @@
+import mongoose from "mongoose";
+
+// Stock message which could not be processed after all its attempts,
+// parked until an admin inspects and replays it
+const stockDeadLetterSchema = new mongoose.Schema(
+  {
+    exchange: { type: String, required: true },
+    routing_key: { type: String, required: true },
+    // Raw content of the message, kept as received
+    content: { type: String, required: true },
+    error: { type: String, required: false },
+    attempts: { type: Number, default: 0 },
+    status: {
+      type: String,
+      enum: ["parked", "replayed"],
+      default: "parked",
+    },
+    replayed_at: { type: Date, required: false },
+  },
+  {
+    timestamps: {
+      createdAt: "created_at",
+      updatedAt: "updated_at",
+    },
+  }
+);
+
+stockDeadLetterSchema.index({ status: 1, created_at: -1 });
+
+const StockDeadLetter = mongoose.model(
+  "stock_dead_letter",
+  stockDeadLetterSchema
+);
+
+export default StockDeadLetter;
@@ -0,0 +1,39 @@
+import stockReservationService from "./stock-reservation.service";
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+let running = false;
+
+/**
+ * Release the expired stock reservations, skipping the run when the
+ * previous one is still in progress
+ *
+ * @return {Promise<void>} the eventual completion
+ */
+async function sweep(): Promise<void> {
+  if (running) return;
+
+  running = true;
+
+  try {
+    const result: any = await stockReservationService.releaseExpired();
+    if (result.released > 0) {
+      console.log(`[StockReservationSweeper] Released ${result.released} expired reservations`);
+    }
+  } catch (err) {
+    console.error("[StockReservationSweeper] Unexpected error:", err);
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Start the sweeper releasing the expired stock reservations every minute
+ *
+ * @return {void}
+ */
+export function startStockReservationSweeper(): void {
+  console.log("[StockReservationSweeper] Scheduled — every minute");
+
+  setInterval(sweep, SWEEP_INTERVAL_MS);
+}
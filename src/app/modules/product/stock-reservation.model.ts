@@ -0,0 +1,55 @@
+import mongoose from "mongoose";
+
+const reservationItemSchema = new mongoose.Schema(
+  {
+    product: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "product",
+      required: true,
+    },
+    // Sku of the reserved variant, empty for a product level hold
+    variant_sku: { type: String, required: false },
+    quantity: { type: Number, required: true, min: 1 },
+  },
+  { _id: false }
+);
+
+const stockReservationSchema = new mongoose.Schema(
+  {
+    // Caller reference of the hold (cart or order id)
+    reference: { type: String, required: true },
+    items: { type: [reservationItemSchema], required: true },
+    status: {
+      type: String,
+      enum: ["active", "committed", "released", "expired"],
+      default: "active",
+    },
+    expires_at: { type: Date, required: true },
+    committed_at: { type: Date, required: false },
+    // False while the items of a committed reservation are consumed, a
+    // commit interrupted before the end is resumed
+    consumed: { type: Boolean, required: false },
+    released_at: { type: Date, required: false },
+  },
+  {
+    timestamps: {
+      createdAt: "created_at",
+      updatedAt: "updated_at",
+    },
+  }
+);
+
+stockReservationSchema.index({ status: 1, expires_at: 1 });
+stockReservationSchema.index({ reference: 1, status: 1 });
+// A reference has one active reservation at most
+stockReservationSchema.index(
+  { reference: 1 },
+  { unique: true, partialFilterExpression: { status: "active" } }
+);
+
+const StockReservation = mongoose.model(
+  "stock_reservation",
+  stockReservationSchema
+);
+
+export default StockReservation;
@@ -0,0 +1,169 @@
+import inventoryMovementService from "./inventory-movement.service";
+import bundleService from "./bundle.service";
+import StockReservation from "./stock-reservation.model";
+import stockReservationService from "./stock-reservation.service";
+
+jest.mock("./inventory-movement.service", () => ({
+  __esModule: true,
+  default: { adjust: jest.fn() },
+}));
+jest.mock("./bundle.service", () => ({
+  __esModule: true,
+  default: { expandItems: jest.fn() },
+}));
+jest.mock("./product.model", () => ({ __esModule: true, default: {} }));
+jest.mock("./stock-reservation.model", () => ({
+  __esModule: true,
+  default: {
+    findOne: jest.fn(),
+    findById: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    findByIdAndUpdate: jest.fn(),
+    create: jest.fn(),
+    updateOne: jest.fn(),
+  },
+}));
+
+/**
+ * Mock a mongoose query resolving to a value
+ *
+ * @param {any} value the query result
+ * @returns {any} the query
+ */
+function query(value: any): any {
+  return { lean: () => Promise.resolve(value) };
+}
+
+const items = [
+  { product: "64b7f0c2a1e4d2f3a8b9c0d1", quantity: 1 },
+  { product: "64b7f0c2a1e4d2f3a8b9c0d2", quantity: 2 },
+];
+
+describe("StockReservationService.reserve", () => {
+  const adjust = inventoryMovementService.adjust as jest.Mock;
+  const findOneAndUpdate = StockReservation.findOneAndUpdate as jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    (StockReservation.findOne as jest.Mock).mockReturnValue(query(null));
+    (StockReservation.create as jest.Mock).mockResolvedValue({ _id: "reservation-1" });
+    (bundleService.expandItems as jest.Mock).mockResolvedValue(items);
+  });
+
+  it("adds every held item to the reservation", async () => {
+    adjust.mockResolvedValue({ _id: "product" });
+    (StockReservation.findById as jest.Mock).mockReturnValue(
+      query({ _id: "reservation-1", items })
+    );
+
+    await expect(stockReservationService.reserve("cart-1", items)).resolves.toEqual({
+      _id: "reservation-1",
+      items,
+    });
+    expect(StockReservation.updateOne).toHaveBeenCalledTimes(2);
+  });
+
+  it("releases the held items when the stock is insufficient", async () => {
+    adjust.mockResolvedValueOnce({ _id: "product" }).mockResolvedValue(null);
+    findOneAndUpdate.mockResolvedValue({ reference: "cart-1", items: [items[0]] });
+
+    await expect(stockReservationService.reserve("cart-1", items)).resolves.toBe(
+      "INSUFFICIENT_STOCK"
+    );
+    expect(findOneAndUpdate.mock.calls[0][0]).toEqual({
+      _id: "reservation-1",
+      status: "active",
+    });
+    expect(adjust).toHaveBeenLastCalledWith(
+      expect.objectContaining({ product: items[0].product, reserved_delta: -1 })
+    );
+  });
+
+  it("releases the held items when a hold fails", async () => {
+    adjust.mockResolvedValueOnce({ _id: "product" }).mockRejectedValueOnce(new Error("down"));
+    findOneAndUpdate.mockResolvedValue({ reference: "cart-1", items: [items[0]] });
+
+    await expect(stockReservationService.reserve("cart-1", items)).rejects.toThrow("down");
+    expect(adjust).toHaveBeenLastCalledWith(
+      expect.objectContaining({ product: items[0].product, reserved_delta: -1 })
+    );
+  });
+
+  it("returns the reservation of a concurrent reserve without holding", async () => {
+    const existing = { _id: "reservation-0", items };
+    (StockReservation.create as jest.Mock).mockRejectedValue({ code: 11000 });
+    (StockReservation.findOne as jest.Mock)
+      .mockReturnValueOnce(query(null))
+      .mockReturnValueOnce(query(existing));
+
+    await expect(stockReservationService.reserve("cart-1", items)).resolves.toBe(existing);
+    expect(adjust).not.toHaveBeenCalled();
+  });
+
+  it("rejects an item with a negative quantity or a bad product id", async () => {
+    await expect(
+      stockReservationService.reserve("cart-1", [{ product: items[0].product, quantity: -2 }])
+    ).resolves.toBe("INVALID_ITEMS");
+    await expect(
+      stockReservationService.reserve("cart-1", [{ product: "abc", quantity: 1 }])
+    ).resolves.toBe("INVALID_ITEMS");
+    expect(StockReservation.create).not.toHaveBeenCalled();
+    expect(adjust).not.toHaveBeenCalled();
+  });
+});
+
+describe("StockReservationService.commit", () => {
+  const adjust = inventoryMovementService.adjust as jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    adjust.mockResolvedValue({ _id: "product" });
+    (StockReservation.findByIdAndUpdate as jest.Mock).mockResolvedValue({
+      _id: "reservation-1",
+      status: "committed",
+      consumed: true,
+    });
+  });
+
+  it("consumes every item with a movement key of its own", async () => {
+    (StockReservation.findOneAndUpdate as jest.Mock).mockResolvedValue({
+      _id: "reservation-1",
+      reference: "order-1",
+      items,
+    });
+
+    await stockReservationService.commit("reservation-1");
+
+    expect(adjust.mock.calls.map((call) => call[0].key)).toEqual([
+      "reservation:reservation-1:0",
+      "reservation:reservation-1:1",
+    ]);
+    expect(StockReservation.findByIdAndUpdate).toHaveBeenCalledWith(
+      "reservation-1",
+      { $set: { consumed: true } },
+      { new: true }
+    );
+  });
+
+  it("resumes an interrupted commit with the same keys", async () => {
+    (StockReservation.findOneAndUpdate as jest.Mock).mockResolvedValue(null);
+    (StockReservation.findOne as jest.Mock).mockResolvedValue({
+      _id: "reservation-1",
+      reference: "order-1",
+      status: "committed",
+      consumed: false,
+      items,
+    });
+
+    await stockReservationService.commit("reservation-1");
+
+    expect((StockReservation.findOne as jest.Mock).mock.calls[0][0]).toEqual({
+      _id: "reservation-1",
+      status: "committed",
+      consumed: false,
+    });
+    expect(adjust.mock.calls[0][0].key).toBe("reservation:reservation-1:0");
+  });
+});
@@ -0,0 +1,484 @@
+import inventoryMovementService from "./inventory-movement.service";
+import bundleService from "./bundle.service";
+import Product from "./product.model";
+import StockReservation from "./stock-reservation.model";
+import { checkObjectId } from "../../utils/helpers.util";
+
+// Lifetime of a hold when the caller does not give one, in seconds.
+const DEFAULT_TTL = 15 * 60;
+
+// Maximum number of expired reservations released per sweep.
+const SWEEP_LIMIT = 500;
+
+/**
+ * @author Valentin Magde <valentinmagde@gmail.com>
+ * @since 2026-10-19
+ *
+ * Class StockReservationService
+ */
+class StockReservationService {
+  /**
+   * Hold stock for a cart or an order. Every item is held atomically
+   * against the available quantity (current stock minus the active
+   * holds) of the product and of the variant. Either all the items are
+   * held or none of them. The components of a bundle are held in place
+   * of the bundle. Reserving again an active reference returns the
+   * existing reservation. The reservation is created before the stock is
+   * held, so two concurrent reserves of a reference cannot both hold
+   * stock, and every held item is added to it, so the sweeper frees them
+   * if the reserve is interrupted. The held items are freed when a hold
+   * fails.
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {string} reference the caller reference (cart or order id)
+   * @param {Array<any>} items the items ({ product, variant_sku, quantity })
+   * @param {number} ttl the lifetime of the hold in seconds
+   * @return {Promise<unknown>} the reservation, "INVALID_ITEMS" when an
+   *                            item has no valid product id or quantity,
+   *                            "INSUFFICIENT_STOCK" when an item cannot
+   *                            be held
+   */
+  public reserve(
+    reference: string,
+    items: Array<any>,
+    ttl?: number
+  ): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          if (!items.length || !items.every((item) => this.isValidItem(item))) {
+            return resolve("INVALID_ITEMS");
+          }
+
+          const existing = await StockReservation.findOne({
+            reference,
+            status: "active",
+          }).lean();
+
+          if (existing && existing.expires_at > new Date()) return resolve(existing);
+
+          // An expired hold not swept yet is released before holding again
+          if (existing) await this.release(String(existing._id));
+
+          const expanded: any = await bundleService.expandItems(items);
+
+          let reservation: any;
+          try {
+            reservation = await StockReservation.create({
+              reference,
+              items: [],
+              expires_at: new Date(Date.now() + (ttl || DEFAULT_TTL) * 1000),
+            });
+          } catch (error: any) {
+            // A concurrent reserve of the same reference created it first
+            if (error?.code !== 11000) throw error;
+
+            return resolve(
+              await StockReservation.findOne({ reference, status: "active" }).lean()
+            );
+          }
+
+          try {
+            for (const item of expanded) {
+              if (!(await this.hold(item, reference))) {
+                throw Object.assign(new Error("Insufficient stock"), {
+                  reason: "INSUFFICIENT_STOCK",
+                });
+              }
+
+              await StockReservation.updateOne(
+                { _id: reservation._id },
+                { $push: { items: item } }
+              );
+            }
+          } catch (error: any) {
+            // Frees the items held so far, which are the reservation items
+            await this.release(String(reservation._id));
+
+            if (error?.reason) return resolve(error.reason);
+            throw error;
+          }
+
+          resolve(await StockReservation.findById(reservation._id).lean());
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /**
+   * Commit an active reservation: the held quantities are removed from
+   * the stock of the products and variants and counted as sold. Every
+   * item is consumed once, with a movement key of its own, and a commit
+   * interrupted before the end is resumed by committing again.
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {string} reservationId the reservation id
+   * @return {Promise<unknown>} the eventual completion or failure
+   */
+  public commit(reservationId: string): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          const reservation: any =
+            (await StockReservation.findOneAndUpdate(
+              {
+                _id: reservationId,
+                status: "active",
+                expires_at: { $gt: new Date() },
+              },
+              { $set: { status: "committed", committed_at: new Date(), consumed: false } },
+              { new: true }
+            )) ||
+            (await StockReservation.findOne({
+              _id: reservationId,
+              status: "committed",
+              consumed: false,
+            }));
+
+          if (!reservation) return resolve(await this.notActive(reservationId));
+
+          for (const [index, item] of reservation.items.entries()) {
+            await this.consume(item, reservation.reference, `${reservation._id}:${index}`);
+          }
+
+          resolve(
+            await StockReservation.findByIdAndUpdate(
+              reservation._id,
+              { $set: { consumed: true } },
+              { new: true }
+            )
+          );
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /**
+   * Release an active reservation, making the held quantities available
+   * again
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {string} reservationId the reservation id
+   * @return {Promise<unknown>} the eventual completion or failure
+   */
+  public release(reservationId: string): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          const reservation: any = await StockReservation.findOneAndUpdate(
+            { _id: reservationId, status: "active" },
+            { $set: { status: "released", released_at: new Date() } },
+            { new: true }
+          );
+
+          if (!reservation) return resolve(await this.notActive(reservationId));
+
+          for (const item of reservation.items) {
+            await this.unhold(item, reservation.reference);
+          }
+
+          resolve(reservation);
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /**
+   * Get the active reservation of a reference
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {string} reference the caller reference (cart or order id)
+   * @return {Promise<unknown>} the eventual completion or failure
+   */
+  public findActive(reference: string): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          const reservation = await StockReservation.findOne({
+            reference,
+            status: "active",
+          }).lean();
+
+          resolve(reservation);
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /**
+   * Get the reservation of a reference which can be committed: the
+   * active one, or a committed one whose commit was interrupted
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {string} reference the caller reference (cart or order id)
+   * @return {Promise<unknown>} the eventual completion or failure
+   */
+  public findCommittable(reference: string): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          const reservation = await StockReservation.findOne({
+            reference,
+            $or: [{ status: "active" }, { status: "committed", consumed: false }],
+          })
+            .sort({ created_at: -1 })
+            .lean();
+
+          resolve(reservation);
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /**
+   * Release the reservations whose hold has expired
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @return {Promise<unknown>} the eventual completion or failure
+   */
+  public releaseExpired(): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          let released = 0;
+
+          while (released < SWEEP_LIMIT) {
+            // Flipping the status first guarantees a concurrent commit or
+            // release cannot free the same hold twice
+            const reservation: any = await StockReservation.findOneAndUpdate(
+              { status: "active", expires_at: { $lte: new Date() } },
+              { $set: { status: "expired", released_at: new Date() } },
+              { new: true }
+            );
+
+            if (!reservation) break;
+
+            for (const item of reservation.items) {
+              await this.unhold(item, reservation.reference);
+            }
+
+            released += 1;
+          }
+
+          resolve({ released });
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /**
+   * Get the stock of a product and of its variants, with the quantities
+   * held by the active reservations and the available quantities
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {string} productId the product id
+   * @return {Promise<unknown>} the eventual completion or failure
+   */
+  public getAvailability(productId: string): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          const product: any = await Product.findOne(
+            { _id: productId, deleted_at: null },
+            { current_stock: 1, reserved_stock: 1, variants: 1 }
+          ).lean();
+
+          if (!product) return resolve(product);
+
+          const reserved = product.reserved_stock || 0;
+
+          resolve({
+            product: product._id,
+            current_stock: product.current_stock || 0,
+            reserved,
+            available: Math.max((product.current_stock || 0) - reserved, 0),
+            variants: (product.variants || []).map((variant: any) => ({
+              sku: variant.sku,
+              quantity: variant.quantity || 0,
+              reserved: variant.reserved || 0,
+              available: Math.max(
+                (variant.quantity || 0) - (variant.reserved || 0),
+                0
+              ),
+            })),
+          });
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /*-----------------------------------------------------------------------------------------------
+  //  PRIVATE METHODS
+  -----------------------------------------------------------------------------------------------*/
+  /**
+   * Check a reserved item has a product id and a positive integer
+   * quantity: a negative hold would free the stock held by others
+   *
+   * @param {any} item the item ({ product, variant_sku, quantity })
+   * @returns {boolean} true when the item is valid
+   */
+  private isValidItem(item: any): boolean {
+    return (
+      !!checkObjectId(String(item?.product ?? "")) &&
+      Number.isInteger(item.quantity) &&
+      item.quantity > 0 &&
+      (item.variant_sku === undefined ||
+        item.variant_sku === null ||
+        typeof item.variant_sku === "string")
+    );
+  }
+
+  /**
+   * Hold the quantity of an item if the product, and the variant when
+   * given, have enough available stock. The check and the hold are a
+   * single update so two concurrent holds cannot oversell.
+   *
+   * @param {any} item the item ({ product, variant_sku, quantity })
+   * @param {string} reference the reservation reference
+   * @returns {Promise<boolean>} whether the quantity has been held
+   */
+  private async hold(item: any, reference: string): Promise<boolean> {
+    const conditions: any[] = [
+      {
+        $gte: [
+          this.availableExpr("$current_stock", "$reserved_stock"),
+          item.quantity,
+        ],
+      },
+    ];
+
+    if (item.variant_sku) {
+      conditions.push({
+        $gte: [
+          {
+            $let: {
+              vars: {
+                variant: {
+                  $arrayElemAt: [
+                    {
+                      $filter: {
+                        input: "$variants",
+                        as: "variant",
+                        cond: { $eq: ["$$variant.sku", item.variant_sku] },
+                      },
+                    },
+                    0,
+                  ],
+                },
+              },
+              in: this.availableExpr("$$variant.quantity", "$$variant.reserved"),
+            },
+          },
+          item.quantity,
+        ],
+      });
+    }
+
+    const product = await inventoryMovementService.adjust(
+      {
+        product: item.product,
+        variant_sku: item.variant_sku,
+        reserved_delta: item.quantity,
+        source: "reservation",
+        reference,
+      },
+      { deleted_at: null, $expr: { $and: conditions } }
+    );
+
+    return !!product;
+  }
+
+  /**
+   * Build the expression of an available quantity (stock minus holds)
+   *
+   * @param {string} stock the stock field path
+   * @param {string} reserved the held quantity field path
+   * @returns {any} the aggregation expression
+   */
+  private availableExpr(stock: string, reserved: string): any {
+    return {
+      $subtract: [{ $ifNull: [stock, 0] }, { $ifNull: [reserved, 0] }],
+    };
+  }
+
+  /**
+   * Free the quantity held for an item
+   *
+   * @param {any} item the item ({ product, variant_sku, quantity })
+   * @param {string} reference the reservation reference
+   * @returns {Promise<void>} the eventual completion
+   */
+  private async unhold(item: any, reference: string): Promise<void> {
+    await inventoryMovementService.adjust({
+      product: item.product,
+      variant_sku: item.variant_sku,
+      reserved_delta: -item.quantity,
+      source: "reservation",
+      reference,
+    });
+  }
+
+  /**
+   * Turn the quantity held for an item into a sale, once per key
+   *
+   * @param {any} item the item ({ product, variant_sku, quantity })
+   * @param {string} reference the reservation reference
+   * @param {string} key the key of the item in the reservation
+   * @returns {Promise<void>} the eventual completion
+   */
+  private async consume(item: any, reference: string, key: string): Promise<void> {
+    await inventoryMovementService.adjust({
+      product: item.product,
+      variant_sku: item.variant_sku,
+      delta: -item.quantity,
+      reserved_delta: -item.quantity,
+      sales_delta: item.quantity,
+      source: "reservation",
+      reference,
+      key: `reservation:${key}`,
+    });
+  }
+
+  /**
+   * Tell why a reservation cannot be committed or released
+   *
+   * @param {string} reservationId the reservation id
+   * @returns {Promise<string>} the reason
+   */
+  private async notActive(reservationId: string): Promise<string> {
+    const exists = await StockReservation.exists({ _id: reservationId });
+
+    return exists ? "RESERVATION_NOT_ACTIVE" : "RESERVATION_NOT_FOUND";
+  }
+}
+
+const stockReservationService = new StockReservationService();
+export default stockReservationService;
@@ -0,0 +1,42 @@
+import mongoose from "mongoose";
+
+// Request of a customer to be notified when a sold out product, or one of
+// its variants, is back in stock
+const stockSubscriptionSchema = new mongoose.Schema(
+  {
+    // Email of the customer, or the id of the user when logged in
+    email: { type: String, required: false, lowercase: true, trim: true },
+    user: { type: mongoose.Schema.Types.ObjectId, required: false },
+    product: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "product",
+      required: true,
+    },
+    // Sku of the awaited variant, empty for the product itself
+    variant_sku: { type: String, required: false },
+    // Locale in which the customer is notified
+    locale: { type: String, default: "en" },
+    status: {
+      type: String,
+      enum: ["active", "fulfilled", "cancelled"],
+      default: "active",
+    },
+    fulfilled_at: { type: Date, required: false },
+    cancelled_at: { type: Date, required: false },
+  },
+  {
+    timestamps: {
+      createdAt: "created_at",
+      updatedAt: "updated_at",
+    },
+  }
+);
+
+stockSubscriptionSchema.index({ product: 1, status: 1 });
+
+const StockSubscription = mongoose.model(
+  "stock_subscription",
+  stockSubscriptionSchema
+);
+
+export default StockSubscription;
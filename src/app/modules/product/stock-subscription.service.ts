@@ -0,0 +1,198 @@
+import rabbitmqManager from "../../../core/rabbitmq";
+import Product from "./product.model";
+import StockSubscription from "./stock-subscription.model";
+
+/**
+ * @author Valentin Magde <valentinmagde@gmail.com>
+ * @since 2026-10-19
+ *
+ * Class StockSubscriptionService
+ */
+class StockSubscriptionService {
+  /**
+   * Subscribe a customer to the back in stock notification of a product,
+   * or of one of its variants. The active subscription of the customer is
+   * returned when they are already subscribed.
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {string} productId the product id
+   * @param {any} data the subscription ({ email, user, variant_sku, locale })
+   * @return {Promise<unknown>} null when the product does not exist,
+   *                            "VARIANT_NOT_FOUND" when the variant does
+   *                            not exist, the subscription otherwise
+   */
+  public subscribe(productId: string, data: any): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          const product: any = await Product.findOne(
+            { _id: productId, deleted_at: null },
+            { "variants.sku": 1 }
+          ).lean();
+
+          if (!product) return resolve(null);
+
+          if (
+            data.variant_sku &&
+            !(product.variants || []).some(
+              (variant: any) => variant.sku === data.variant_sku
+            )
+          ) {
+            return resolve("VARIANT_NOT_FOUND");
+          }
+
+          const filter: any = {
+            product: product._id,
+            variant_sku: data.variant_sku || null,
+            status: "active",
+            ...(data.user
+              ? { user: data.user }
+              : { email: String(data.email).toLowerCase().trim() }),
+          };
+
+          const subscription = await StockSubscription.findOneAndUpdate(
+            filter,
+            {
+              $set: { locale: data.locale || "en" },
+              $setOnInsert: {
+                email: data.email,
+                user: data.user,
+              },
+            },
+            { upsert: true, new: true }
+          ).lean();
+
+          resolve(subscription);
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /**
+   * Cancel an active subscription of a product
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {string} productId the product id
+   * @param {string} subscriptionId the subscription id
+   * @return {Promise<unknown>} the cancelled subscription, null when there
+   *                            is no active subscription with this id
+   */
+  public unsubscribe(productId: string, subscriptionId: string): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          const subscription = await StockSubscription.findOneAndUpdate(
+            { _id: subscriptionId, product: productId, status: "active" },
+            { $set: { status: "cancelled", cancelled_at: new Date() } },
+            { new: true }
+          ).lean();
+
+          resolve(subscription);
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+
+  /**
+   * Publish a back in stock notification for every active subscriber of
+   * a product which is back in stock. Each subscription is marked as
+   * fulfilled before its notification is published, so a subscriber is
+   * notified once even by concurrent restocks; it is active again when
+   * the notification could not be published. The subscribers of the
+   * product itself are notified when its stock is back, those of a variant
+   * when the variant is back.
+   *
+   * @author Valentin Magde <valentinmagde@gmail.com>
+   * @since 2026-10-19
+   *
+   * @param {string} productId the product id
+   * @param {boolean} productRestocked the product stock is back
+   * @param {Array<string>} variantSkus the skus of the variants back in stock
+   * @return {Promise<unknown>} the number of notified subscribers
+   */
+  public notifyBackInStock(
+    productId: any,
+    productRestocked: boolean,
+    variantSkus: Array<string> = []
+  ): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      (async () => {
+        try {
+          const targets: any[] = [];
+          if (productRestocked) targets.push({ variant_sku: null });
+          if (variantSkus.length) targets.push({ variant_sku: { $in: variantSkus } });
+
+          if (!targets.length) return resolve(0);
+
+          const subscriptions: any[] = await StockSubscription.find({
+            product: productId,
+            status: "active",
+            $or: targets,
+          }).lean();
+
+          if (!subscriptions.length) return resolve(0);
+
+          const product: any = await Product.findById(productId, {
+            sku: 1,
+            slug: 1,
+            title: 1,
+            image: 1,
+            prices: 1,
+          }).lean();
+
+          let notified = 0;
+
+          for (const subscription of subscriptions) {
+            const claimed = await StockSubscription.findOneAndUpdate(
+              { _id: subscription._id, status: "active" },
+              { $set: { status: "fulfilled", fulfilled_at: new Date() } }
+            ).lean();
+
+            // Another restock notified it first
+            if (!claimed) continue;
+
+            try {
+              await rabbitmqManager.publishMessage(
+                "eluxe.product.backInStockNotification",
+                "backInStockNotification",
+                {
+                  subscription_id: subscription._id,
+                  email: subscription.email,
+                  user: subscription.user,
+                  locale: subscription.locale,
+                  variant_sku: subscription.variant_sku,
+                  product,
+                  type: "back_in_stock",
+                }
+              );
+            } catch (error) {
+              await StockSubscription.updateOne(
+                { _id: subscription._id, status: "fulfilled" },
+                { $set: { status: "active" }, $unset: { fulfilled_at: 1 } }
+              );
+
+              throw error;
+            }
+
+            notified += 1;
+          }
+
+          resolve(notified);
+        } catch (error) {
+          reject(error);
+        }
+      })();
+    });
+  }
+}
+
+const stockSubscriptionService = new StockSubscriptionService();
+export default stockSubscriptionService;
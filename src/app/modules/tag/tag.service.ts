@@ -1,5 +1,6 @@
 import Tag from "./tag.model";
 import TagType from "./tag.type";
+import productSearchService from "../product/product-search.service";
 
 /**
  * @author Valentin Magde <valentinmagde@gmail.com>
@@ -151,6 +152,11 @@ class TagService {
 
             const updatedTag = await tag.save();
 
+            // The tag names are part of the products search fields
+            await productSearchService
+              .refresh({ tags: updatedTag._id })
+              .catch((err) => console.error("[ProductSearch] tag:", err));
+
             resolve(updatedTag);
           } else {
             resolve(tag);
@@ -1,6 +1,8 @@
+import rabbitmqManager from "../../core/rabbitmq";
 import productSubscribe from "../modules/product/product.subscribe";
 import { startLdSyncCron } from "../modules/luxury-distribution/ld-sync.cron";
 import { startDynamicCrons } from "../modules/dynamic-cron/dynamic-cron.service";
+import { startStockReservationSweeper } from "../modules/product/stock-reservation.cron";
 
 /**
  * @author Valentin Magde <valentinmagde@gmail.com>
@@ -11,18 +13,31 @@ import { startDynamicCrons } from "../modules/dynamic-cron/dynamic-cron.service"
 class Subscribes {
 
   /**
-   * Creating app Subscribes starts
+   * Creating app Subscribes starts. The consumers share one channel,
+   * created before any of them starts.
    *
    * @author Valentin Magde <valentinmagde@gmail.com>
    * @since 2023-08-27
    *
-   * @returns {void}
+   * @returns {Promise<void>} the eventual completion or failure
    */
-  public appSubscribes(): void {
-    // Includes all subscribes
-    productSubscribe.updateProductStock();
+  public async appSubscribes(): Promise<void> {
     startLdSyncCron();
     startDynamicCrons();
+    startStockReservationSweeper();
+
+    try {
+      await rabbitmqManager.createChannel();
+
+      // Includes all subscribes
+      await productSubscribe.updateProductStock();
+      await productSubscribe.reserveStock();
+      await productSubscribe.commitStock();
+      await productSubscribe.releaseStock();
+      await productSubscribe.recordCoPurchases();
+    } catch (error) {
+      console.log(error);
+    }
   }
 
   /**
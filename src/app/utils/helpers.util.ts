@@ -35,8 +35,129 @@ export function slugify(str: string): string {
       .toLowerCase() // convert to lowercase
       .replace(/[^a-z0-9 -]/g, "") // remove non-alphanumeric characters
       .replace(/\s+/g, "-") // replace spaces with hyphens
-      .replace(/-+/g, "-")
-  ); // remove consecutive hyphens
+      .replace(/-+/g, "-") // remove consecutive hyphens
+      .replace(/^-|-$/g, "") // remove leading or trailing hyphens
+  );
+}
+
+/**
+ * Generate a slug from a value (a given slug or a title) which no document
+ * of a model uses, as its slug or as a previous slug. A numeric suffix is
+ * appended on collision: bag, bag-2, bag-3...
+ *
+ * @author Valentin Magde <valentinmagde@gmail.com>
+ * @since 2026-10-19
+ *
+ * @param {mongoose.Model<any>} model the model of the documents
+ * @param {string} value the value to slugify
+ * @param {any} options the options ({ excludeId: the document being
+ *                      updated, reserved: the slugs already taken, fallback:
+ *                      the slug when the value gives none })
+ * @returns {Promise<string>} the unique slug
+ */
+export async function uniqueSlug(
+  model: mongoose.Model<any>,
+  value: string,
+  options: { excludeId?: any; reserved?: Array<string>; fallback?: string } = {}
+): Promise<string> {
+  const base = slugify(value || "") || options.fallback || "item";
+  const pattern = new RegExp(`^${base}(-\\d+)?$`);
+
+  const docs: any[] = await model
+    .find(
+      {
+        ...(options.excludeId && { _id: { $ne: options.excludeId } }),
+        $or: [{ slug: pattern }, { previous_slugs: pattern }],
+      },
+      { slug: 1, previous_slugs: 1 }
+    )
+    .lean();
+
+  const taken = new Set<string>([
+    ...(options.reserved || []),
+    ...docs.flatMap((doc) => [doc.slug, ...(doc.previous_slugs || [])]),
+  ]);
+
+  let slug = base;
+  for (let suffix = 2; taken.has(slug); suffix += 1) slug = `${base}-${suffix}`;
+
+  return slug;
+}
+
+/**
+ * Get the previous slugs of a document after a slug change: the current
+ * slug is kept so the old links can be redirected, and the new slug is
+ * no longer a previous slug, of this document or of any other.
+ *
+ * @author Valentin Magde <valentinmagde@gmail.com>
+ * @since 2026-10-19
+ *
+ * @param {mongoose.Model<any>} model the model of the documents
+ * @param {any} doc the document before the change
+ * @param {string} slug the new slug
+ * @returns {Promise<Array<string>|undefined>} the previous slugs
+ */
+export async function getPreviousSlugs(
+  model: mongoose.Model<any>,
+  doc: any,
+  slug?: string
+): Promise<Array<string> | undefined> {
+  if (!slug || !doc.slug || slug === doc.slug) return doc.previous_slugs;
+
+  const previous: string[] = [...(doc.previous_slugs || [])];
+
+  await model.updateMany(
+    { _id: { $ne: doc._id }, previous_slugs: slug },
+    { $pull: { previous_slugs: slug } }
+  );
+
+  return [...previous.filter((item) => item !== slug && item !== doc.slug), doc.slug];
+}
+
+/**
+ * Normalize a text for full-text search: strips HTML tags and accents and
+ * lowercases it, so "Écharpe" and "echarpe" produce the same tokens.
+ *
+ * @author Valentin Magde <valentinmagde@gmail.com>
+ * @since 2026-10-19
+ *
+ * @param {string} str the text to normalize
+ * @returns {string} the normalized text
+ */
+export function normalizeSearchText(str: string): string {
+  return String(str || "")
+    .replace(/<[^>]*>/g, " ")
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/**
+ * Build the filter of the products visible on the storefront: shown and
+ * inside their publication window. A product whose publish_at has passed
+ * is visible even if the scheduler has not flipped its status yet; hiding
+ * a product by hand clears its passed publish_at.
+ *
+ * @author Valentin Magde <valentinmagde@gmail.com>
+ * @since 2026-10-19
+ *
+ * @param {Date} date the date to check the window against
+ * @returns {any} the product filter
+ */
+export function publishedFilter(date: Date = new Date()): any {
+  return {
+    $and: [
+      {
+        $or: [
+          { status: "show", publish_at: { $not: { $gt: date } } },
+          { publish_at: { $lte: date } },
+        ],
+      },
+      { $or: [{ unpublish_at: null }, { unpublish_at: { $gt: date } }] },
+    ],
+  };
 }
 
 /**
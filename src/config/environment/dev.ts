@@ -44,7 +44,10 @@ const dev = {
   swaggerBaseUrl: process.env.SWAGGER_BASE_URL || "/v1/products/docs",
 
   // Store Url
-  storeUrl: process.env.STRORE_URL || "https://dev.e-luxe.fr/"
+  storeUrl: process.env.STRORE_URL || "https://dev.e-luxe.fr/",
+
+  // Currency of the stored prices
+  storeCurrency: process.env.STORE_CURRENCY || "EUR",
 };
 
 export default dev;
@@ -44,7 +44,10 @@ const local = {
   swaggerBaseUrl: process.env.SWAGGER_BASE_URL || "/v1/products/docs",
 
   // Store Url
-  storeUrl: process.env.STRORE_URL || "http://localhost:7001"
+  storeUrl: process.env.STRORE_URL || "http://localhost:7001",
+
+  // Currency of the stored prices
+  storeCurrency: process.env.STORE_CURRENCY || "EUR",
 };
 
 export default local;